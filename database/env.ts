@@ -0,0 +1,11 @@
+/**
+ * Environment Loader for Database Scripts
+ *
+ * Import this first so .env.local is loaded before any
+ * module that reads process.env at import time (e.g. constants).
+ */
+
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
@@ -1,111 +1,107 @@
 /**
- * Database Initialization Script for Turso
+ * Database Migration Script
  *
  * This script:
- * 1. Connects to your Turso database
- * 2. Runs the schema.sql to create tables
+ * 1. Connects to your Turso or local SQLite database
+ * 2. Runs a migration command (default: up)
  * 3. Checks for existing data
  *
- * Run with: npm run db:init
+ * Run with:
+ * - npm run db:init          Apply pending migrations
+ * - npm run db:status        Show applied and pending migrations
+ * - npm run db:rollback      Roll back the newest migration (if reversible)
  *
- * Prerequisites:
- * - Set TURSO_DATABASE_URL in .env.local
- * - Set TURSO_AUTH_TOKEN in .env.local
+ * Migrations live in database/migrations. Safe to run while the app
+ * or another copy of this script is running.
+ *
+ * Database (from .env.local):
+ * - Turso: set TURSO_DATABASE_URL (libsql://...) and TURSO_AUTH_TOKEN
+ * - Local: set TURSO_DATABASE_URL=file:./path/to.db, or leave it unset
+ *   to use DATABASE_PATH (default ./database/products.db)
  */
 
-import { createClient } from '@libsql/client';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as dotenv from 'dotenv';
+// Load environment variables from .env.local (must be the first import)
+import './env';
+import type { Client } from '@libsql/client';
+import { getDatabaseUrl, getDb } from '../src/lib/db';
+import { getMigrationStatus, migrateDown, migrateUp } from '../src/lib/migrations';
 
-// Load environment variables from .env.local
-dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+type Command = 'up' | 'status' | 'down';
 
-const SCHEMA_PATH = path.join(__dirname, 'schema.sql');
+/**
+ * Print each migration with its applied state
+ */
+async function printStatus(db: Client) {
+  const status = await getMigrationStatus(db);
+
+  for (const migration of status) {
+    const label = `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+    const state = migration.applied ? `applied ${migration.applied_at}` : 'pending';
+    const reversible = migration.reversible ? '' : ' (irreversible)';
+    console.log(`  ${migration.applied ? '✅' : '⏳'} ${label} - ${state}${reversible}`);
+  }
 
-async function initDatabase() {
-  console.log('🚀 Initializing Turso database...');
+  const pending = status.filter(m => !m.applied).length;
+  console.log(pending > 0 ? `⏳ ${pending} pending migration(s)` : '✅ Schema is up to date');
+}
+
+async function runMigrations(command: Command) {
+  console.log(`🚀 Running database migrations (${command})...`);
 
   try {
-    // Check environment variables
-    if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
-      throw new Error(
-        'Missing Turso credentials. Please set TURSO_DATABASE_URL and TURSO_AUTH_TOKEN in .env.local'
+    // Create database connection (throws if credentials are missing)
+    const db = getDb();
+
+    console.log('✅ Connected to database');
+
+    if (command === 'status') {
+      await printStatus(db);
+      return;
+    }
+
+    if (command === 'down') {
+      const rolledBack = await migrateDown(db);
+      console.log(
+        rolledBack.length > 0
+          ? `✅ Rolled back ${rolledBack.join(', ')}`
+          : 'ℹ️  No migrations to roll back'
       );
+      return;
     }
 
-    // Create database connection
-    const db = createClient({
-      url: process.env.TURSO_DATABASE_URL,
-      authToken: process.env.TURSO_AUTH_TOKEN,
-    });
-
-    console.log('✅ Connected to Turso database');
-
-    // Read schema file
-    const schema = fs.readFileSync(SCHEMA_PATH, 'utf-8');
-
-    // Execute schema creation statements individually
-    // Turso handles each statement separately
-
-    // Create products table
-    await db.execute(`
-      CREATE TABLE IF NOT EXISTS products (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        price REAL NOT NULL CHECK(price >= 0),
-        min_order_qty TEXT NOT NULL,
-        image_path TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create index
-    await db.execute(`
-      CREATE INDEX IF NOT EXISTS idx_products_created_at
-      ON products(created_at DESC)
-    `);
-
-    // Create trigger for updated_at
-    await db.execute(`
-      CREATE TRIGGER IF NOT EXISTS update_products_timestamp
-      AFTER UPDATE ON products
-      BEGIN
-        UPDATE products SET updated_at = CURRENT_TIMESTAMP
-        WHERE id = NEW.id;
-      END
-    `);
-
-    console.log('✅ Database tables created successfully');
+    const applied = await migrateUp(db);
+    console.log(
+      applied.length > 0
+        ? `✅ Applied ${applied.length} migration(s)`
+        : '✅ Schema is already up to date'
+    );
 
     // Check for existing data
-    const result = await db.execute('SELECT COUNT(*) as count FROM products');
+    const result = await db.execute('SELECT COUNT(*) as count FROM products WHERE deleted_at IS NULL');
     const count = result.rows[0].count as number;
 
     if (count === 0) {
       console.log('📦 Database is empty (no initial data seeded)');
       console.log('💡 Add products through the admin panel at /admin');
-
-      // Uncomment to seed sample products
-      // await db.execute({
-      //   sql: `INSERT INTO products (id, name, price, min_order_qty, image_path)
-      //         VALUES (?, ?, ?, ?, ?)`,
-      //   args: ['prod_001', 'Sample Product 1', 99.99, '10', '/images/placeholder.png']
-      // });
-      // console.log('✅ Sample data seeded');
     } else {
       console.log(`ℹ️  Database already contains ${count} product(s)`);
     }
 
     console.log('✅ Database initialization complete!');
-    console.log(`📍 Database: ${process.env.TURSO_DATABASE_URL}`);
+    console.log(`📍 Database: ${getDatabaseUrl()}`);
 
   } catch (error) {
-    console.error('❌ Database initialization failed:', error);
+    console.error('❌ Database migration failed:', error);
     process.exit(1);
   }
 }
 
-// Run initialization
-initDatabase();
+// Run the requested command
+const command = (process.argv[2] || 'up') as Command;
+
+if (!['up', 'status', 'down'].includes(command)) {
+  console.error(`Unknown command "${command}". Use: up, status or down`);
+  process.exit(1);
+}
+
+runMigrations(command);
@@ -0,0 +1,31 @@
+/**
+ * Migration 0001: Create products table
+ *
+ * Baseline catalog table. Not reversible - rolling back
+ * would drop every product.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 1,
+  name: 'create_products',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS products (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        price REAL NOT NULL CHECK(price >= 0),
+        min_order_qty TEXT NOT NULL,
+        image_path TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_products_created_at
+       ON products(created_at DESC)`,
+    ]);
+  },
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+/**
+ * Migration 0002: Track product update time
+ *
+ * Adds products.updated_at (backfilled from created_at)
+ * and a trigger that refreshes it on every update.
+ */
+
+import type { Migration } from '@/types/migration';
+import { addColumnIfMissing, dropColumnIfExists, executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 2,
+  name: 'products_updated_at',
+
+  async up(tx) {
+    // SQLite can't add a column with a CURRENT_TIMESTAMP default, so backfill instead
+    await addColumnIfMissing(tx, 'products', 'updated_at', 'DATETIME');
+
+    await executeAll(tx, [
+      'UPDATE products SET updated_at = created_at WHERE updated_at IS NULL',
+      `CREATE TRIGGER IF NOT EXISTS update_products_timestamp
+       AFTER UPDATE ON products
+       BEGIN
+         UPDATE products SET updated_at = CURRENT_TIMESTAMP
+         WHERE id = NEW.id;
+       END`,
+    ]);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TRIGGER IF EXISTS update_products_timestamp');
+    await dropColumnIfExists(tx, 'products', 'updated_at');
+  },
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+/**
+ * Migration 0003: Create users and sessions tables
+ *
+ * Admin accounts with roles, and server-side sessions.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 3,
+  name: 'create_users_and_sessions',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('owner', 'editor', 'viewer')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, [
+      'DROP TABLE IF EXISTS sessions',
+      'DROP TABLE IF EXISTS users',
+    ]);
+  },
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+/**
+ * Migration 0004: Create login_attempts table
+ *
+ * Failed login counters for rate limiting and lockout.
+ */
+
+import type { Migration } from '@/types/migration';
+
+const migration: Migration = {
+  version: 4,
+  name: 'create_login_attempts',
+
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS login_attempts (
+        key TEXT PRIMARY KEY,
+        failures INTEGER NOT NULL DEFAULT 0,
+        last_failure_at INTEGER NOT NULL,
+        locked_until INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TABLE IF EXISTS login_attempts');
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+/**
+ * Migration 0005: Two-factor authentication
+ *
+ * Adds TOTP columns to users and the recovery_codes table.
+ */
+
+import type { Migration } from '@/types/migration';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const migration: Migration = {
+  version: 5,
+  name: 'two_factor',
+
+  async up(tx) {
+    await addColumnIfMissing(tx, 'users', 'totp_enabled', 'INTEGER NOT NULL DEFAULT 0');
+    await addColumnIfMissing(tx, 'users', 'totp_secret', 'TEXT');
+    await addColumnIfMissing(tx, 'users', 'totp_pending_secret', 'TEXT');
+    await addColumnIfMissing(tx, 'users', 'totp_last_counter', 'INTEGER NOT NULL DEFAULT 0');
+
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash TEXT NOT NULL,
+        used_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TABLE IF EXISTS recovery_codes');
+
+    for (const column of ['totp_last_counter', 'totp_pending_secret', 'totp_secret', 'totp_enabled']) {
+      await dropColumnIfExists(tx, 'users', column);
+    }
+  },
+};
+
+export default migration;
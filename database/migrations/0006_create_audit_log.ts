@@ -0,0 +1,38 @@
+/**
+ * Migration 0006: Create audit_log table
+ *
+ * Who changed what, with before/after snapshots.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 6,
+  name: 'create_audit_log',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_id TEXT,
+        actor_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        product_id TEXT,
+        before_json TEXT,
+        after_json TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_audit_log_product
+       ON audit_log(product_id, created_at DESC)`,
+      `CREATE INDEX IF NOT EXISTS idx_audit_log_created_at
+       ON audit_log(created_at DESC)`,
+    ]);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TABLE IF EXISTS audit_log');
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+/**
+ * Migration 0007: Create product_revisions table
+ *
+ * Snapshot of each product version replaced by an update.
+ */
+
+import type { Migration } from '@/types/migration';
+
+const migration: Migration = {
+  version: 7,
+  name: 'create_product_revisions',
+
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS product_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        snapshot_json TEXT NOT NULL,
+        actor_id TEXT,
+        actor_name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(product_id, revision)
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TABLE IF EXISTS product_revisions');
+  },
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+/**
+ * Migration 0008: Soft delete for products
+ *
+ * Adds products.deleted_at; trashed products keep their row
+ * until the purge job removes them.
+ */
+
+import type { Migration } from '@/types/migration';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const migration: Migration = {
+  version: 8,
+  name: 'products_soft_delete',
+
+  async up(tx) {
+    await addColumnIfMissing(tx, 'products', 'deleted_at', 'DATETIME');
+
+    await tx.execute(`
+      CREATE INDEX IF NOT EXISTS idx_products_deleted_at
+      ON products(deleted_at)
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP INDEX IF EXISTS idx_products_deleted_at');
+    await dropColumnIfExists(tx, 'products', 'deleted_at');
+  },
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+/**
+ * Migration 0009: Create id_sequences table
+ *
+ * Atomic counters for generated IDs. The products counter starts
+ * after the highest existing numeric product ID (compared as a
+ * number, so prod_1000 counts as higher than prod_999).
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 9,
+  name: 'create_id_sequences',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS id_sequences (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      )`,
+      `INSERT OR IGNORE INTO id_sequences (name, value)
+       SELECT 'products', COALESCE(MAX(CAST(SUBSTR(id, 6) AS INTEGER)), 0)
+       FROM products
+       WHERE id GLOB 'prod_[0-9]*'`,
+    ]);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TABLE IF EXISTS id_sequences');
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+/**
+ * Migration 0010: Indexes for sorting the product list
+ *
+ * Backfills updated_at for products created since 0002 (inserts
+ * left it empty) and indexes every sortable column.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 10,
+  name: 'products_list_indexes',
+
+  async up(tx) {
+    await executeAll(tx, [
+      'UPDATE products SET updated_at = created_at WHERE updated_at IS NULL',
+      'CREATE INDEX IF NOT EXISTS idx_products_price ON products(price)',
+      'CREATE INDEX IF NOT EXISTS idx_products_name ON products(name COLLATE NOCASE)',
+      'CREATE INDEX IF NOT EXISTS idx_products_updated_at ON products(updated_at)',
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, [
+      'DROP INDEX IF EXISTS idx_products_price',
+      'DROP INDEX IF EXISTS idx_products_name',
+      'DROP INDEX IF EXISTS idx_products_updated_at',
+    ]);
+  },
+};
+
+export default migration;
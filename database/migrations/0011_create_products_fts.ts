@@ -0,0 +1,67 @@
+/**
+ * Migration 0011: Full-text search for products
+ *
+ * Two FTS5 indexes over product names, kept in sync by triggers:
+ * - products_fts: word index for prefix matching and ranking
+ * - products_trigram: trigram index for typo-tolerant fallback
+ *
+ * Both store the product ID rather than sharing products' rowid,
+ * which VACUUM may renumber.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 11,
+  name: 'create_products_fts',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS products_fts USING fts5(
+        id UNINDEXED,
+        name,
+        tokenize = 'unicode61 remove_diacritics 2'
+      )`,
+      `CREATE VIRTUAL TABLE IF NOT EXISTS products_trigram USING fts5(
+        id UNINDEXED,
+        name,
+        tokenize = 'trigram'
+      )`,
+      'DELETE FROM products_fts',
+      'DELETE FROM products_trigram',
+      'INSERT INTO products_fts (id, name) SELECT id, name FROM products',
+      'INSERT INTO products_trigram (id, name) SELECT id, name FROM products',
+      `CREATE TRIGGER IF NOT EXISTS products_search_insert
+       AFTER INSERT ON products
+       BEGIN
+         INSERT INTO products_fts (id, name) VALUES (NEW.id, NEW.name);
+         INSERT INTO products_trigram (id, name) VALUES (NEW.id, NEW.name);
+       END`,
+      `CREATE TRIGGER IF NOT EXISTS products_search_update
+       AFTER UPDATE OF name ON products
+       BEGIN
+         UPDATE products_fts SET name = NEW.name WHERE id = OLD.id;
+         UPDATE products_trigram SET name = NEW.name WHERE id = OLD.id;
+       END`,
+      `CREATE TRIGGER IF NOT EXISTS products_search_delete
+       AFTER DELETE ON products
+       BEGIN
+         DELETE FROM products_fts WHERE id = OLD.id;
+         DELETE FROM products_trigram WHERE id = OLD.id;
+       END`,
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, [
+      'DROP TRIGGER IF EXISTS products_search_insert',
+      'DROP TRIGGER IF EXISTS products_search_update',
+      'DROP TRIGGER IF EXISTS products_search_delete',
+      'DROP TABLE IF EXISTS products_fts',
+      'DROP TABLE IF EXISTS products_trigram',
+    ]);
+  },
+};
+
+export default migration;
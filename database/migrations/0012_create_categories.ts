@@ -0,0 +1,46 @@
+/**
+ * Migration 0012: Create categories
+ *
+ * Nested product categories (parent_id) with unique URL slugs,
+ * and the product_categories link table (a product can be in
+ * several categories).
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 12,
+  name: 'create_categories',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        slug TEXT NOT NULL UNIQUE,
+        description TEXT,
+        parent_id TEXT REFERENCES categories(id) ON DELETE SET NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id)',
+      `CREATE TABLE IF NOT EXISTS product_categories (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        category_id TEXT NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+        PRIMARY KEY (product_id, category_id)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_product_categories_category_id
+       ON product_categories(category_id)`,
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, [
+      'DROP TABLE IF EXISTS product_categories',
+      'DROP TABLE IF EXISTS categories',
+    ]);
+  },
+};
+
+export default migration;
@@ -0,0 +1,40 @@
+/**
+ * Migration 0013: Create product variants
+ *
+ * Sizes, thicknesses or materials of one product, each with its
+ * own SKU, price and minimum order. The product's own price and
+ * minimum order still apply when it has no variants.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 13,
+  name: 'create_product_variants',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS product_variants (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        sku TEXT NOT NULL UNIQUE,
+        size TEXT,
+        thickness TEXT,
+        material TEXT,
+        price REAL NOT NULL,
+        min_order_qty TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_product_variants_product_id
+       ON product_variants(product_id, price)`,
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, ['DROP TABLE IF EXISTS product_variants']);
+  },
+};
+
+export default migration;
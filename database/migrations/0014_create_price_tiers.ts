@@ -0,0 +1,33 @@
+/**
+ * Migration 0014: Create price tiers
+ *
+ * Quantity price breaks per product (e.g. 1-99 @ ₹50, 100+ @ ₹45).
+ * max_qty is NULL for an open-ended top tier. Quantities outside
+ * every tier use the product's own price.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 14,
+  name: 'create_price_tiers',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS product_price_tiers (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        min_qty INTEGER NOT NULL,
+        max_qty INTEGER,
+        price REAL NOT NULL,
+        PRIMARY KEY (product_id, min_qty)
+      )`,
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, ['DROP TABLE IF EXISTS product_price_tiers']);
+  },
+};
+
+export default migration;
@@ -0,0 +1,112 @@
+/**
+ * Migration 0015: Structured minimum order
+ *
+ * Minimum orders become a number plus a unit (products.min_order_unit).
+ * Existing free text such as "10 pcs" or "Min. 5 kg" is parsed; values
+ * that can't be read, have no unit or fall outside the configured limits
+ * get a best guess and keep their original text in min_order_review
+ * until an editor confirms them.
+ *
+ * Variant minimums are counted in their product's unit.
+ */
+
+import type { Migration } from '@/types/migration';
+import type { OrderUnit } from '@/types/product';
+import { PRODUCT_CONFIG } from '@/lib/constants';
+import { parseOrderQuantity } from '@/lib/units';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+/**
+ * Check a parsed quantity fits the limits for its unit
+ */
+function isAllowed(quantity: number, unit: OrderUnit): boolean {
+  return quantity >= PRODUCT_CONFIG.MIN_ORDER_QTY &&
+    quantity <= PRODUCT_CONFIG.MAX_ORDER_QTY &&
+    (Number.isInteger(quantity) || !(PRODUCT_CONFIG.WHOLE_ORDER_UNITS as readonly string[]).includes(unit));
+}
+
+/**
+ * Bring a quantity within the limits (whole numbers only, as the unit is unknown)
+ */
+function clampQuantity(quantity: number): number {
+  return Math.min(Math.max(Math.round(quantity), PRODUCT_CONFIG.MIN_ORDER_QTY), PRODUCT_CONFIG.MAX_ORDER_QTY);
+}
+
+const migration: Migration = {
+  version: 15,
+  name: 'structured_min_order',
+
+  async up(tx) {
+    await addColumnIfMissing(tx, 'products', 'min_order_unit', "TEXT NOT NULL DEFAULT 'pcs'");
+    await addColumnIfMissing(tx, 'products', 'min_order_review', 'TEXT');
+
+    const products = await tx.execute('SELECT id, min_order_qty FROM products');
+    const productQty = new Map<string, { quantity: number; unit: OrderUnit }>();
+
+    for (const row of products.rows) {
+      const text = String(row.min_order_qty ?? '').trim();
+      const parsed = parseOrderQuantity(text);
+
+      let quantity: number = PRODUCT_CONFIG.MIN_ORDER_QTY;
+      let unit: OrderUnit = 'pcs';
+      let review: string | null = text;
+
+      if (parsed?.unit && isAllowed(parsed.quantity, parsed.unit)) {
+        quantity = parsed.quantity;
+        unit = parsed.unit;
+        review = null;
+      } else if (parsed) {
+        quantity = clampQuantity(parsed.quantity);
+        unit = parsed.unit || 'pcs';
+      }
+
+      if (review !== null) {
+        console.warn(`  Product ${row.id}: minimum order "${text}" needs review`);
+      }
+
+      productQty.set(String(row.id), { quantity, unit });
+      await tx.execute({
+        sql: 'UPDATE products SET min_order_qty = ?, min_order_unit = ?, min_order_review = ? WHERE id = ?',
+        args: [quantity, unit, review, row.id],
+      });
+    }
+
+    const variants = await tx.execute('SELECT id, product_id, min_order_qty FROM product_variants');
+
+    for (const row of variants.rows) {
+      const text = String(row.min_order_qty ?? '').trim();
+      const parsed = parseOrderQuantity(text);
+      const product = productQty.get(String(row.product_id));
+      const unit = product?.unit || 'pcs';
+
+      let quantity = product?.quantity ?? PRODUCT_CONFIG.MIN_ORDER_QTY;
+      if (parsed && (!parsed.unit || parsed.unit === unit) && isAllowed(parsed.quantity, unit)) {
+        quantity = parsed.quantity;
+      } else {
+        console.warn(`  Variant ${row.id}: minimum order "${text}" replaced with ${quantity} ${unit}`);
+      }
+
+      await tx.execute({
+        sql: 'UPDATE product_variants SET min_order_qty = ? WHERE id = ?',
+        args: [quantity, row.id],
+      });
+    }
+  },
+
+  async down(tx) {
+    // Back to free text, restoring the original wording where it was never confirmed
+    await tx.execute(`
+      UPDATE product_variants SET min_order_qty = printf('%g', min_order_qty) || ' ' || COALESCE(
+        (SELECT min_order_unit FROM products WHERE products.id = product_variants.product_id), 'pcs'
+      )
+    `);
+    await tx.execute(`
+      UPDATE products SET min_order_qty = COALESCE(min_order_review, printf('%g', min_order_qty) || ' ' || min_order_unit)
+    `);
+
+    await dropColumnIfExists(tx, 'products', 'min_order_review');
+    await dropColumnIfExists(tx, 'products', 'min_order_unit');
+  },
+};
+
+export default migration;
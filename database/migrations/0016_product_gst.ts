@@ -0,0 +1,27 @@
+/**
+ * Migration 0016: GST details for products
+ *
+ * Adds products.hsn_code (HSN or SAC code, optional) and
+ * products.gst_rate (percent). Existing products get 18%,
+ * the rate most of the catalog falls under.
+ */
+
+import type { Migration } from '@/types/migration';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const migration: Migration = {
+  version: 16,
+  name: 'product_gst',
+
+  async up(tx) {
+    await addColumnIfMissing(tx, 'products', 'hsn_code', 'TEXT');
+    await addColumnIfMissing(tx, 'products', 'gst_rate', 'REAL NOT NULL DEFAULT 18');
+  },
+
+  async down(tx) {
+    await dropColumnIfExists(tx, 'products', 'gst_rate');
+    await dropColumnIfExists(tx, 'products', 'hsn_code');
+  },
+};
+
+export default migration;
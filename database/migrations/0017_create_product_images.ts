@@ -0,0 +1,42 @@
+/**
+ * Migration 0017: Create product images
+ *
+ * A product can have several images, shown in position order, each
+ * with optional alt text. One of them is the cover; its URL is also
+ * kept in products.image_path so lists, filters and stats that only
+ * need one image keep working.
+ *
+ * Existing image_path values become each product's cover image.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 17,
+  name: 'create_product_images',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS product_images (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        image_path TEXT NOT NULL,
+        alt_text TEXT,
+        position INTEGER NOT NULL,
+        is_cover INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (product_id, image_path)
+      )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_product_images_cover
+       ON product_images(product_id) WHERE is_cover = 1`,
+      `INSERT OR IGNORE INTO product_images (product_id, image_path, position, is_cover)
+       SELECT id, image_path, 0, 1 FROM products WHERE COALESCE(image_path, '') != ''`,
+    ]);
+  },
+
+  async down(tx) {
+    // products.image_path already holds each cover
+    await executeAll(tx, ['DROP TABLE IF EXISTS product_images']);
+  },
+};
+
+export default migration;
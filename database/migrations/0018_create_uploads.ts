@@ -0,0 +1,40 @@
+/**
+ * Migration 0018: Create uploads ledger
+ *
+ * One row per uploaded image (keyed by the URL saved on products).
+ * product_id is set once a product is saved with the image, and
+ * released_at once that product stops using it. The upload sweeper
+ * deletes images no product uses after a grace period.
+ *
+ * Images products already use are recorded as linked. Files uploaded
+ * before the ledger existed and never saved are unknown to it and
+ * are left alone.
+ */
+
+import type { Migration } from '@/types/migration';
+import { executeAll } from './helpers';
+
+const migration: Migration = {
+  version: 18,
+  name: 'create_uploads',
+
+  async up(tx) {
+    await executeAll(tx, [
+      `CREATE TABLE IF NOT EXISTS uploads (
+        image_path TEXT PRIMARY KEY,
+        uploaded_by TEXT,
+        product_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        released_at DATETIME
+      )`,
+      `INSERT OR IGNORE INTO uploads (image_path, product_id)
+       SELECT image_path, product_id FROM product_images`,
+    ]);
+  },
+
+  async down(tx) {
+    await executeAll(tx, ['DROP TABLE IF EXISTS uploads']);
+  },
+};
+
+export default migration;
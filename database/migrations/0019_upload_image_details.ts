@@ -0,0 +1,30 @@
+/**
+ * Migration 0019: Image details in the uploads ledger
+ *
+ * Adds uploads.width and uploads.height (the large rendition, in
+ * pixels) and uploads.placeholder (a tiny blurred preview as a data
+ * URI), so pages can reserve space for an image and fade it in.
+ * Images uploaded earlier have none and are shown without them.
+ */
+
+import type { Migration } from '@/types/migration';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const migration: Migration = {
+  version: 19,
+  name: 'upload_image_details',
+
+  async up(tx) {
+    await addColumnIfMissing(tx, 'uploads', 'width', 'INTEGER');
+    await addColumnIfMissing(tx, 'uploads', 'height', 'INTEGER');
+    await addColumnIfMissing(tx, 'uploads', 'placeholder', 'TEXT');
+  },
+
+  async down(tx) {
+    await dropColumnIfExists(tx, 'uploads', 'placeholder');
+    await dropColumnIfExists(tx, 'uploads', 'height');
+    await dropColumnIfExists(tx, 'uploads', 'width');
+  },
+};
+
+export default migration;
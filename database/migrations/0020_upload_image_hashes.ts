@@ -0,0 +1,25 @@
+/**
+ * Migration 0020: Image hashes in the uploads ledger
+ *
+ * Adds uploads.hash, a perceptual hash of each upload (see hashImage),
+ * so uploading a photo that is already stored can be caught. Images
+ * uploaded earlier have none and are never reported as duplicates.
+ */
+
+import type { Migration } from '@/types/migration';
+import { addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+const migration: Migration = {
+  version: 20,
+  name: 'upload_image_hashes',
+
+  async up(tx) {
+    await addColumnIfMissing(tx, 'uploads', 'hash', 'TEXT');
+  },
+
+  async down(tx) {
+    await dropColumnIfExists(tx, 'uploads', 'hash');
+  },
+};
+
+export default migration;
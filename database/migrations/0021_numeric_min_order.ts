@@ -0,0 +1,48 @@
+/**
+ * Migration 0021: Numeric minimum orders
+ *
+ * products.min_order_qty and product_variants.min_order_qty were still
+ * declared TEXT after minimum orders became numbers (0015), so SQLite
+ * stored them as text such as "5.0". Both become REAL columns holding
+ * the same quantities.
+ *
+ * The products update-time trigger is lifted while the values are
+ * copied, so converting doesn't mark every product as edited.
+ */
+
+import type { Migration } from '@/types/migration';
+import { PRODUCT_CONFIG } from '@/lib/constants';
+import { changeColumnType, executeAll } from './helpers';
+
+const UPDATED_AT_TRIGGER = `CREATE TRIGGER IF NOT EXISTS update_products_timestamp
+  AFTER UPDATE ON products
+  BEGIN
+    UPDATE products SET updated_at = CURRENT_TIMESTAMP
+    WHERE id = NEW.id;
+  END`;
+
+const migration: Migration = {
+  version: 21,
+  name: 'numeric_min_order',
+
+  async up(tx) {
+    const definition = `REAL NOT NULL DEFAULT ${PRODUCT_CONFIG.MIN_ORDER_QTY}`;
+
+    await tx.execute('DROP TRIGGER IF EXISTS update_products_timestamp');
+    await changeColumnType(tx, 'products', 'min_order_qty', definition, 'CAST(min_order_qty AS REAL)');
+    await changeColumnType(tx, 'product_variants', 'min_order_qty', definition, 'CAST(min_order_qty AS REAL)');
+    await executeAll(tx, [UPDATED_AT_TRIGGER]);
+  },
+
+  async down(tx) {
+    // Back to text, written the way 0015 expects to read it ("5", "2.5")
+    const definition = "TEXT NOT NULL DEFAULT ''";
+
+    await tx.execute('DROP TRIGGER IF EXISTS update_products_timestamp');
+    await changeColumnType(tx, 'products', 'min_order_qty', definition, "printf('%g', min_order_qty)");
+    await changeColumnType(tx, 'product_variants', 'min_order_qty', definition, "printf('%g', min_order_qty)");
+    await executeAll(tx, [UPDATED_AT_TRIGGER]);
+  },
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+/**
+ * Migration 0022: Create login_challenges table
+ *
+ * Pending two-step logins: one row per password check passed, deleted
+ * when the 2FA code is accepted so a challenge works only once.
+ */
+
+import type { Migration } from '@/types/migration';
+
+const migration: Migration = {
+  version: 22,
+  name: 'create_login_challenges',
+
+  async up(tx) {
+    await tx.execute(`
+      CREATE TABLE IF NOT EXISTS login_challenges (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+  },
+
+  async down(tx) {
+    await tx.execute('DROP TABLE IF EXISTS login_challenges');
+  },
+};
+
+export default migration;
@@ -0,0 +1,73 @@
+/**
+ * Migration Helpers
+ *
+ * Small utilities shared by migration files.
+ */
+
+import type { Transaction } from '@libsql/client';
+
+/**
+ * Execute statements in order
+ */
+export async function executeAll(tx: Transaction, statements: string[]): Promise<void> {
+  for (const sql of statements) {
+    await tx.execute(sql);
+  }
+}
+
+/**
+ * Check whether a table has a column
+ */
+export async function hasColumn(tx: Transaction, table: string, column: string): Promise<boolean> {
+  const columns = await tx.execute(`PRAGMA table_info(${table})`);
+  return columns.rows.some(row => row.name === column);
+}
+
+/**
+ * Add a column unless it already exists
+ * Databases created by older setup scripts may already have it.
+ */
+export async function addColumnIfMissing(
+  tx: Transaction,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  if (!(await hasColumn(tx, table, column))) {
+    await tx.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Drop a column if it exists
+ */
+export async function dropColumnIfExists(tx: Transaction, table: string, column: string): Promise<void> {
+  if (await hasColumn(tx, table, column)) {
+    await tx.execute(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
+
+/**
+ * Change a column's declared type, keeping its values
+ * SQLite can't alter a column in place, so the values are copied into a
+ * new column (converted by `value`, an SQL expression over the old
+ * column) that then takes the old one's name. The column moves to the
+ * end of the table.
+ */
+export async function changeColumnType(
+  tx: Transaction,
+  table: string,
+  column: string,
+  definition: string,
+  value: string
+): Promise<void> {
+  const replacement = `${column}_retyped`;
+
+  await dropColumnIfExists(tx, table, replacement);
+  await executeAll(tx, [
+    `ALTER TABLE ${table} ADD COLUMN ${replacement} ${definition}`,
+    `UPDATE ${table} SET ${replacement} = ${value}`,
+    `ALTER TABLE ${table} DROP COLUMN ${column}`,
+    `ALTER TABLE ${table} RENAME COLUMN ${replacement} TO ${column}`,
+  ]);
+}
@@ -0,0 +1,55 @@
+/**
+ * Migration Registry
+ *
+ * Every migration, in version order. To add one, create the next
+ * numbered file (e.g. 0023_add_product_tags.ts) and list it here.
+ */
+
+import type { Migration } from '@/types/migration';
+import createProducts from './0001_create_products';
+import productsUpdatedAt from './0002_products_updated_at';
+import createUsersAndSessions from './0003_create_users_and_sessions';
+import createLoginAttempts from './0004_create_login_attempts';
+import twoFactor from './0005_two_factor';
+import createAuditLog from './0006_create_audit_log';
+import createProductRevisions from './0007_create_product_revisions';
+import productsSoftDelete from './0008_products_soft_delete';
+import createIdSequences from './0009_create_id_sequences';
+import productsListIndexes from './0010_products_list_indexes';
+import createProductsFts from './0011_create_products_fts';
+import createCategories from './0012_create_categories';
+import createProductVariants from './0013_create_product_variants';
+import createPriceTiers from './0014_create_price_tiers';
+import structuredMinOrder from './0015_structured_min_order';
+import productGst from './0016_product_gst';
+import createProductImages from './0017_create_product_images';
+import createUploads from './0018_create_uploads';
+import uploadImageDetails from './0019_upload_image_details';
+import uploadImageHashes from './0020_upload_image_hashes';
+import numericMinOrder from './0021_numeric_min_order';
+import createLoginChallenges from './0022_create_login_challenges';
+
+export const migrations: Migration[] = [
+  createProducts,
+  productsUpdatedAt,
+  createUsersAndSessions,
+  createLoginAttempts,
+  twoFactor,
+  createAuditLog,
+  createProductRevisions,
+  productsSoftDelete,
+  createIdSequences,
+  productsListIndexes,
+  createProductsFts,
+  createCategories,
+  createProductVariants,
+  createPriceTiers,
+  structuredMinOrder,
+  productGst,
+  createProductImages,
+  createUploads,
+  uploadImageDetails,
+  uploadImageHashes,
+  numericMinOrder,
+  createLoginChallenges,
+];
@@ -0,0 +1,89 @@
+/**
+ * Upload Sweep Script
+ *
+ * Deletes uploaded images no product uses (abandoned uploads, and
+ * images replaced on a product once the revisions showing them are
+ * past REVISION_RETENTION_DAYS) after the grace period, pruning those
+ * expired revisions. Same as POST /api/uploads/sweep.
+ *
+ * Run with:
+ * - npm run uploads:sweep                         Delete unused uploads
+ * - npm run uploads:sweep -- --dry-run            List them without deleting
+ * - npm run uploads:sweep -- --grace-hours=48     Override UPLOAD_GRACE_HOURS
+ *
+ * Needs the same database and storage settings as the app (.env.local).
+ */
+
+// Load environment variables from .env.local (must be the first import)
+import './env';
+import { UPLOAD_CONFIG } from '../src/lib/constants';
+import { sweepOrphanedUploads } from '../src/lib/uploads';
+
+/**
+ * Read --dry-run and --grace-hours=N from the command line
+ */
+function parseArgs(args: string[]): { dryRun: boolean; graceHours: number } {
+  let dryRun = false;
+  let graceHours: number = UPLOAD_CONFIG.GRACE_HOURS;
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--grace-hours=')) {
+      graceHours = Number(arg.slice('--grace-hours='.length));
+      if (!Number.isInteger(graceHours) || graceHours < 0) {
+        throw new Error('--grace-hours must be a whole number of hours (0 or more)');
+      }
+    } else {
+      throw new Error(`Unknown option "${arg}". Use: --dry-run, --grace-hours=N`);
+    }
+  }
+
+  return { dryRun, graceHours };
+}
+
+async function runSweep() {
+  let options: { dryRun: boolean; graceHours: number };
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  console.log(`🧹 Sweeping uploads unused for ${options.graceHours}h${options.dryRun ? ' (dry run)' : ''}...`);
+
+  try {
+    const report = await sweepOrphanedUploads(options);
+
+    for (const upload of report.orphaned) {
+      const detail = upload.reason === 'replaced'
+        ? `replaced on ${upload.product_id} ${upload.released_at}`
+        : `uploaded ${upload.created_at}, never saved`;
+      const state = report.dryRun
+        ? 'would delete'
+        : report.failed.includes(upload.image_path)
+          ? 'FAILED'
+          : report.deleted.includes(upload.image_path)
+            ? 'deleted'
+            : 'in use again, kept';
+      console.log(`  ${upload.image_path} - ${detail} - ${state}`);
+    }
+
+    if (report.dryRun) {
+      console.log(`ℹ️  ${report.orphaned.length} unused upload(s) would be deleted`);
+    } else {
+      console.log(`✅ Deleted ${report.deleted.length} unused upload(s)`);
+    }
+
+    if (report.failed.length > 0) {
+      console.error(`❌ ${report.failed.length} upload(s) could not be deleted; they will be retried next run`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Upload sweep failed:', error);
+    process.exit(1);
+  }
+}
+
+runSweep();
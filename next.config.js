@@ -4,6 +4,10 @@ const nextConfig = {
     // Use regular img tags for Blob URLs - disable Next.js image optimization
     unoptimized: true,
   },
+  experimental: {
+    // Runs src/instrumentation.ts at startup (pending migration check)
+    instrumentationHook: true,
+  },
 };
 
 module.exports = nextConfig;
@@ -0,0 +1,270 @@
+/**
+ * Admin Activity Page
+ *
+ * Shows the audit log of product and image changes:
+ * - Filters by product, user, action and date range
+ * - Field-level before/after diffs for each change
+ * - "Load more" pagination
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AUDIT_CONFIG } from '@/lib/constants';
+import type { AuditAction, AuditEntry } from '@/types/audit';
+
+const ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+  'product.create': { label: 'Created', className: 'bg-green-100 text-green-700' },
+  'product.update': { label: 'Updated', className: 'bg-blue-100 text-blue-700' },
+  'product.delete': { label: 'Moved to trash', className: 'bg-red-100 text-red-700' },
+  'product.restore': { label: 'Restored from trash', className: 'bg-green-100 text-green-700' },
+  'product.purge': { label: 'Permanently deleted', className: 'bg-red-100 text-red-700' },
+  'variant.create': { label: 'Added variant', className: 'bg-green-100 text-green-700' },
+  'variant.update': { label: 'Updated variant', className: 'bg-blue-100 text-blue-700' },
+  'variant.delete': { label: 'Removed variant', className: 'bg-red-100 text-red-700' },
+  'image.upload': { label: 'Uploaded image', className: 'bg-purple-100 text-purple-700' },
+  'image.sweep': { label: 'Cleaned up images', className: 'bg-red-100 text-red-700' },
+};
+
+interface Filters {
+  productId: string;
+  actor: string;
+  action: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { productId: '', actor: '', action: '', from: '', to: '' };
+
+/**
+ * Render a snapshot value for display
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export default function AdminActivityPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchEntries = useCallback(async (activeFilters: Filters, offset: number) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams();
+      Object.entries(activeFilters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      params.set('limit', String(AUDIT_CONFIG.DEFAULT_PAGE_SIZE));
+      params.set('offset', String(offset));
+
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch activity');
+      }
+
+      setEntries(prev => (offset === 0 ? data.data.entries : [...prev, ...data.data.entries]));
+      setTotal(data.data.total);
+    } catch (err) {
+      console.error('Failed to fetch activity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch activity');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEntries(appliedFilters, 0);
+  }, [appliedFilters, fetchEntries]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+  };
+
+  const handleClear = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent bg-white';
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Page Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-800 mb-2">
+          Activity
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Every product and image change, with who made it and what changed
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form
+        onSubmit={handleApply}
+        className="bg-white p-4 rounded-lg shadow-md mb-6 grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end"
+      >
+        <div>
+          <label htmlFor="filter-product" className="block text-xs font-medium text-gray-600 mb-1">Product ID</label>
+          <input
+            id="filter-product"
+            value={filters.productId}
+            onChange={(e) => setFilters(prev => ({ ...prev, productId: e.target.value }))}
+            placeholder="prod_001"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="filter-actor" className="block text-xs font-medium text-gray-600 mb-1">User</label>
+          <input
+            id="filter-actor"
+            value={filters.actor}
+            onChange={(e) => setFilters(prev => ({ ...prev, actor: e.target.value }))}
+            placeholder="username"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="filter-action" className="block text-xs font-medium text-gray-600 mb-1">Action</label>
+          <select
+            id="filter-action"
+            value={filters.action}
+            onChange={(e) => setFilters(prev => ({ ...prev, action: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([action, { label }]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="filter-from" className="block text-xs font-medium text-gray-600 mb-1">From</label>
+          <input
+            id="filter-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="filter-to" className="block text-xs font-medium text-gray-600 mb-1">To</label>
+          <input
+            id="filter-to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex gap-2 col-span-2 md:col-span-1">
+          <button
+            type="submit"
+            className="flex-1 bg-primary text-white py-2 px-3 rounded-md text-sm font-medium hover:bg-blue-600 active:scale-95 touch-manipulation"
+          >
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={handleClear}
+            className="flex-1 bg-gray-100 text-gray-700 py-2 px-3 rounded-md text-sm font-medium hover:bg-gray-200 active:scale-95 touch-manipulation"
+          >
+            Clear
+          </button>
+        </div>
+      </form>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          <p className="font-medium">Error loading activity</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Entries */}
+      {!loading && entries.length === 0 && !error ? (
+        <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md text-center text-gray-500">
+          <p className="text-base sm:text-lg">No activity found.</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) => {
+            const actionInfo = ACTION_LABELS[entry.action];
+            const productName = String(entry.after?.name ?? entry.before?.name ?? '');
+
+            return (
+              <li key={entry.id} className="bg-white rounded-lg shadow-md p-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionInfo?.className ?? 'bg-gray-100 text-gray-700'}`}>
+                    {actionInfo?.label ?? entry.action}
+                  </span>
+                  <span className="font-medium text-gray-900">{entry.actor_name}</span>
+                  {entry.product_id && (
+                    <span className="text-gray-600">
+                      {productName || 'product'} <span className="text-gray-400">({entry.product_id})</span>
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {new Date(entry.created_at.replace(' ', 'T') + 'Z').toLocaleString('en-IN')}
+                  </span>
+                </div>
+
+                {entry.changes.length > 0 && (
+                  <div className="mt-3 overflow-x-auto">
+                    <table className="w-full text-xs sm:text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-4 font-medium">Field</th>
+                          <th className="py-1 pr-4 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {entry.changes.map((change) => (
+                          <tr key={change.field}>
+                            <td className="py-1 pr-4 font-mono text-gray-600">{change.field}</td>
+                            <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                            <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Pagination */}
+      <div className="mt-6 text-center">
+        {loading ? (
+          <div className="animate-spin rounded-full h-8 w-8 border-4 border-primary border-t-transparent mx-auto"></div>
+        ) : entries.length < total && (
+          <button
+            onClick={() => fetchEntries(appliedFilters, entries.length)}
+            className="bg-white border border-gray-300 text-gray-700 py-2 px-6 rounded-md font-medium hover:bg-gray-50 active:scale-95 touch-manipulation"
+          >
+            Load more ({total - entries.length} remaining)
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * Admin Categories Page
+ *
+ * Category management:
+ * - Create and edit categories, nesting them under a parent
+ * - See how many products are in each category
+ * - Delete categories (owner only; products are kept)
+ *
+ * Mobile-first layout: form stacks above the category tree on small screens.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAdminUser } from '@/components/AdminSession';
+import { CATEGORY_CONFIG } from '@/lib/constants';
+import { hasRole } from '@/types/user';
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  type Category,
+  type CategoryNode,
+} from '@/types/category';
+
+interface CategoryFormData {
+  name: string;
+  slug: string;
+  description: string;
+  parent_id: string;
+}
+
+const EMPTY_FORM: CategoryFormData = { name: '', slug: '', description: '', parent_id: '' };
+
+/**
+ * Collect a category and all of its subcategories' IDs
+ */
+function subtreeIds(node: CategoryNode): string[] {
+  return [node.id, ...node.children.flatMap(subtreeIds)];
+}
+
+export default function AdminCategoriesPage() {
+  const user = useAdminUser();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState<CategoryFormData>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const canEdit = !!user && hasRole(user.role, 'editor');
+  const canDelete = !!user && hasRole(user.role, 'owner');
+
+  const fetchCategories = async () => {
+    try {
+      setError('');
+      const response = await fetch('/api/categories');
+      const data = await response.json();
+
+      if (data.success) {
+        setCategories(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch categories');
+      }
+    } catch (error) {
+      console.error('Failed to fetch categories:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch categories');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+
+  // A category can't be moved inside itself or its own subcategories
+  const editingNode = rows.find(({ category }) => category.id === editingId)?.category;
+  const excludedParents = new Set(editingNode ? subtreeIds(editingNode) : []);
+
+  const resetForm = () => {
+    setFormData(EMPTY_FORM);
+    setEditingId(null);
+    setFormError('');
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setFormError('');
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || '',
+      parent_id: category.parent_id || '',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+    setSaving(true);
+
+    try {
+      const payload = {
+        name: formData.name,
+        description: formData.description || null,
+        parent_id: formData.parent_id || null,
+        ...(formData.slug ? { slug: formData.slug } : {}),
+      };
+
+      const response = await fetch(editingId ? `/api/categories/${editingId}` : '/api/categories', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to ${editingId ? 'update' : 'create'} category`);
+      }
+
+      resetForm();
+      fetchCategories();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (!confirm(`Delete "${category.name}"? Its products are kept and its subcategories move up a level.`)) {
+      return;
+    }
+
+    setBusyId(category.id);
+
+    try {
+      const response = await fetch(`/api/categories/${category.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete category');
+      }
+
+      if (editingId === category.id) {
+        resetForm();
+      }
+      fetchCategories();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete category');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-center items-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary border-t-transparent mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading categories...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Page Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-800 mb-2">
+          Categories
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Group products so customers can browse the catalog
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          <p className="font-medium">Error loading categories</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 sm:gap-8">
+        {/* Category Form */}
+        {canEdit && (
+          <form onSubmit={handleSubmit} className="space-y-4 bg-white p-4 sm:p-6 rounded-lg shadow-md h-fit">
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-800">
+              {editingId ? 'Edit Category' : 'Add Category'}
+            </h2>
+
+            {formError && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+                {formError}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="category-name" className="block text-sm font-medium text-gray-700 mb-2">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={CATEGORY_CONFIG.MAX_NAME_LENGTH}
+                className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="e.g., Laser Cutting"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="category-slug" className="block text-sm font-medium text-gray-700 mb-2">
+                URL Slug
+              </label>
+              <input
+                type="text"
+                id="category-slug"
+                value={formData.slug}
+                onChange={(e) => setFormData(prev => ({ ...prev, slug: e.target.value.toLowerCase() }))}
+                maxLength={CATEGORY_CONFIG.MAX_SLUG_LENGTH}
+                autoCapitalize="none"
+                className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="Generated from the name"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Shown in the address: /category/{formData.slug || 'laser-cutting'}
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="category-parent" className="block text-sm font-medium text-gray-700 mb-2">
+                Parent Category
+              </label>
+              <select
+                id="category-parent"
+                value={formData.parent_id}
+                onChange={(e) => setFormData(prev => ({ ...prev, parent_id: e.target.value }))}
+                className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent bg-white"
+              >
+                <option value="">None (top level)</option>
+                {rows
+                  .filter(({ category }) => !excludedParents.has(category.id))
+                  .map(({ category, depth }) => (
+                    <option key={category.id} value={category.id}>
+                      {'  '.repeat(depth)}{category.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="category-description" className="block text-sm font-medium text-gray-700 mb-2">
+                Description
+              </label>
+              <textarea
+                id="category-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                maxLength={CATEGORY_CONFIG.MAX_DESCRIPTION_LENGTH}
+                rows={3}
+                className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder="Shown at the top of the category page"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full bg-primary text-white py-3 px-6 rounded-md font-medium text-base hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors active:scale-95 touch-manipulation"
+            >
+              {saving
+                ? (editingId ? 'Saving Category...' : 'Adding Category...')
+                : (editingId ? 'Save Category' : 'Add Category')}
+            </button>
+
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                disabled={saving}
+                className="w-full bg-gray-100 text-gray-700 py-3 px-6 rounded-md font-medium text-base hover:bg-gray-200 disabled:text-gray-400 transition-colors active:scale-95 touch-manipulation"
+              >
+                Cancel
+              </button>
+            )}
+          </form>
+        )}
+
+        {/* Category Tree */}
+        <div className={`${canEdit ? 'lg:col-span-2' : 'lg:col-span-3'} bg-white rounded-lg shadow-md divide-y divide-gray-200 h-fit`}>
+          {rows.length === 0 ? (
+            <p className="p-6 text-center text-gray-500">No categories yet</p>
+          ) : (
+            rows.map(({ category, depth }) => (
+              <div
+                key={category.id}
+                className="p-4 flex flex-col sm:flex-row sm:items-center gap-3"
+                style={{ paddingLeft: `${1 + depth * 1.5}rem` }}
+              >
+                <div className="flex-grow min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">
+                    <a href={`/category/${category.slug}`} className="hover:text-primary">
+                      {category.name}
+                    </a>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    /{category.slug} · {category.product_count} product{category.product_count !== 1 ? 's' : ''}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  {canEdit && (
+                    <button
+                      onClick={() => handleEdit(category)}
+                      disabled={busyId === category.id}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {canDelete && (
+                    <button
+                      onClick={() => handleDelete(category)}
+                      disabled={busyId === category.id}
+                      className="bg-red-50 text-red-600 hover:bg-red-100 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
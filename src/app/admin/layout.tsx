@@ -2,78 +2,127 @@
  * Admin Layout
  *
  * Wraps admin pages with password protection.
- * Simple client-side authentication (for zero-cost solution).
+ * Session is held in an httpOnly cookie and verified by the server.
  * Mobile-optimized login form with large touch targets.
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
+import { usePathname } from 'next/navigation';
+import { AdminSessionContext, type AdminUser } from '@/components/AdminSession';
 
 export default function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const pathname = usePathname();
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const [retryAfter, setRetryAfter] = useState(0);
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
-  // Check if already authenticated with expiration (30 minutes)
+  // Check for an existing server-side session
   useEffect(() => {
-    const auth = sessionStorage.getItem('admin_auth');
-    const authTime = sessionStorage.getItem('admin_auth_time');
-    
-    if (auth === 'true' && authTime) {
-      const loginTime = parseInt(authTime);
-      const now = Date.now();
-      const thirtyMinutes = 30 * 60 * 1000;
-      
-      // Check if session expired
-      if (now - loginTime < thirtyMinutes) {
-        setIsAuthenticated(true);
-      } else {
-        // Session expired, clear storage
-        sessionStorage.removeItem('admin_auth');
-        sessionStorage.removeItem('admin_auth_time');
+    const checkSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session', { cache: 'no-store' });
+        const data = await response.json();
+        setUser(response.ok && data.success ? data.data.user : null);
+      } catch {
+        setUser(null);
+      } finally {
+        setIsLoading(false);
       }
-    }
-    setIsLoading(false);
+    };
+
+    checkSession();
   }, []);
 
+  // Count down the lockout after too many failed attempts
+  useEffect(() => {
+    if (retryAfter <= 0) return;
+
+    const timer = setTimeout(() => setRetryAfter(prev => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryAfter]);
+
+  const formatWait = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const remaining = seconds % 60;
+    return minutes > 0 ? `${minutes}:${remaining.toString().padStart(2, '0')}` : `${remaining}s`;
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
+    // Second step sends the 2FA code with the challenge from the first step
+    const credentials = challenge
+      ? { challenge, [useRecoveryCode ? 'recoveryCode' : 'code']: code }
+      : { username, password };
+
     try {
       const response = await fetch('/api/auth', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify(credentials),
       });
 
       const data = await response.json();
 
-      if (data.success) {
-        setIsAuthenticated(true);
-        sessionStorage.setItem('admin_auth', 'true');
-        sessionStorage.setItem('admin_auth_time', Date.now().toString());
+      if (data.success && data.data.twoFactorRequired) {
+        setChallenge(data.data.challenge);
+        setPassword('');
+        setError('');
+      } else if (data.success) {
+        setUser(data.data.user);
+        setChallenge(null);
+        setCode('');
         setError('');
+      } else if (response.status === 429) {
+        const wait = Number(response.headers.get('Retry-After')) || data.details?.retryAfter || 0;
+        setRetryAfter(wait);
+        setError('');
+        setPassword('');
+      } else if (challenge) {
+        setError(data.error || 'Invalid code. Please try again.');
+        setCode('');
+        // Challenge expired - start over from the password step
+        if (response.status === 401 && data.error?.includes('expired')) {
+          setChallenge(null);
+        }
       } else {
-        setError('Invalid password. Please try again.');
+        setError(data.error || 'Invalid username or password. Please try again.');
         setPassword('');
       }
     } catch (error) {
       setError('Authentication failed. Please try again.');
       setPassword('');
+      setCode('');
     }
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    sessionStorage.removeItem('admin_auth');
-    sessionStorage.removeItem('admin_auth_time');
+  const handleCancelTwoFactor = () => {
+    setChallenge(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Logout request failed:', error);
+    }
+    setUser(null);
     setPassword('');
   };
 
@@ -87,7 +136,7 @@ export default function AdminLayout({
   }
 
   // Show login form if not authenticated
-  if (!isAuthenticated) {
+  if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
         <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md w-full max-w-md">
@@ -96,23 +145,92 @@ export default function AdminLayout({
           </h2>
 
           <form onSubmit={handleLogin} className="space-y-4">
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Password
-              </label>
-              <input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
-                placeholder="Enter password"
-                autoFocus
-              />
-            </div>
+            {challenge ? (
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                </label>
+                <input
+                  type="text"
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent tracking-widest"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  autoCapitalize="none"
+                  autoFocus
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  {useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when enabling two-factor authentication.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
+                <div className="mt-2 flex justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(prev => !prev);
+                      setCode('');
+                    }}
+                    className="text-primary hover:underline"
+                  >
+                    {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancelTwoFactor}
+                    className="text-gray-500 hover:underline"
+                  >
+                    Back
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label
+                    htmlFor="username"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Username
+                  </label>
+                  <input
+                    type="text"
+                    id="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                    placeholder="Enter username"
+                    autoComplete="username"
+                    autoCapitalize="none"
+                    autoFocus
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                    placeholder="Enter password"
+                    autoComplete="current-password"
+                  />
+                </div>
+              </>
+            )}
 
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
@@ -120,34 +238,80 @@ export default function AdminLayout({
               </div>
             )}
 
+            {retryAfter > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md text-sm">
+                Too many failed attempts. Please wait {formatWait(retryAfter)} before trying again.
+              </div>
+            )}
+
             <button
               type="submit"
-              className="w-full bg-primary text-white py-3 px-4 rounded-md font-medium text-base hover:bg-blue-600 active:scale-95 transition-all touch-manipulation"
+              disabled={retryAfter > 0}
+              className="w-full bg-primary text-white py-3 px-4 rounded-md font-medium text-base hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed active:scale-95 transition-all touch-manipulation"
             >
-              Login
+              {retryAfter > 0 ? `Wait ${formatWait(retryAfter)}` : challenge ? 'Verify' : 'Login'}
             </button>
           </form>
+
+          <p className="mt-4 text-xs text-gray-500 text-center">
+            First time? Sign in with any username and the admin password to create the owner account.
+          </p>
         </div>
       </div>
     );
   }
 
-  // Show admin content with logout button
+  const navLinkClass = (href: string) =>
+    `px-3 py-2 rounded-md text-sm font-medium touch-manipulation transition-colors ${
+      pathname === href ? 'bg-blue-50 text-primary' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  // Show admin content with navigation and logout button
   return (
-    <div>
-      {/* Logout Button - Fixed on mobile for easy access */}
+    <AdminSessionContext.Provider value={user}>
+      {/* Admin Bar - Fixed on mobile for easy access */}
       <div className="bg-white border-b border-gray-200 sticky top-14 sm:top-16 z-40">
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 flex justify-end">
-          <button
-            onClick={handleLogout}
-            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium active:scale-95 transition-all touch-manipulation"
-          >
-            Logout
-          </button>
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 flex justify-between items-center gap-3">
+          <nav className="flex items-center gap-1 overflow-x-auto">
+            <a href="/admin" className={navLinkClass('/admin')}>
+              Products
+            </a>
+            <a href="/admin/categories" className={navLinkClass('/admin/categories')}>
+              Categories
+            </a>
+            <a href="/admin/activity" className={navLinkClass('/admin/activity')}>
+              Activity
+            </a>
+            {user.role === 'owner' && (
+              <a href="/admin/users" className={navLinkClass('/admin/users')}>
+                Users
+              </a>
+            )}
+            {user.role === 'owner' && (
+              <a href="/admin/trash" className={navLinkClass('/admin/trash')}>
+                Trash
+              </a>
+            )}
+            <a href="/admin/security" className={navLinkClass('/admin/security')}>
+              Security
+            </a>
+          </nav>
+
+          <div className="flex items-center gap-3">
+            <span className="hidden sm:inline text-sm text-gray-600">
+              {user.username} <span className="text-gray-400">({user.role})</span>
+            </span>
+            <button
+              onClick={handleLogout}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium active:scale-95 transition-all touch-manipulation"
+            >
+              Logout
+            </button>
+          </div>
         </div>
       </div>
 
       {children}
-    </div>
+    </AdminSessionContext.Provider>
   );
 }
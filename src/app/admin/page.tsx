@@ -3,8 +3,9 @@
  *
  * Admin dashboard for managing products:
  * - Add new products
- * - Edit existing products
- * - View all products
+ * - Edit existing products, with revision history and restore
+ * - Browse products page by page, sorted and filtered
+ * - Search products by name
  * - Delete products
  *
  * Mobile-first responsive layout with stacked components on small screens.
@@ -15,10 +16,35 @@
 import { useState, useEffect } from 'react';
 import ProductForm from '@/components/ProductForm';
 import ProductList from '@/components/ProductList';
-import type { Product } from '@/types/product';
+import RevisionHistory from '@/components/RevisionHistory';
+import { useAdminUser } from '@/components/AdminSession';
+import { SEARCH_CONFIG, UI_CONFIG } from '@/lib/constants';
+import { hasRole } from '@/types/user';
+import type { Product, ProductStats } from '@/types/product';
+
+// Sort choices for the product list (value is "field:order")
+const SORT_OPTIONS = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'updated_at:desc', label: 'Recently updated' },
+  { value: 'name:asc', label: 'Name (A–Z)' },
+  { value: 'name:desc', label: 'Name (Z–A)' },
+  { value: 'price:asc', label: 'Price (low to high)' },
+  { value: 'price:desc', label: 'Price (high to low)' },
+];
 
 export default function AdminPage() {
+  const user = useAdminUser();
+  const canEdit = !!user && hasRole(user.role, 'editor');
+  const canDelete = !!user && hasRole(user.role, 'owner');
   const [products, setProducts] = useState<Product[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+  const [imageFilter, setImageFilter] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [stats, setStats] = useState<ProductStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [refreshing, setRefreshing] = useState(false);
@@ -28,14 +54,50 @@ export default function AdminPage() {
   const fetchProducts = async () => {
     try {
       setError('');
-      const response = await fetch('/api/products');
+      const [sort, order] = sortOption.split(':');
+      const params = new URLSearchParams({
+        sort,
+        order,
+        limit: String(UI_CONFIG.PRODUCTS_PER_PAGE),
+        offset: String(offset),
+      });
+      if (imageFilter) {
+        params.set('hasImage', imageFilter);
+      }
+
+      // A search replaces the paged list with the best matches
+      const listUrl = searchQuery
+        ? `/api/products/search?${new URLSearchParams({ q: searchQuery })}`
+        : `/api/products?${params}`;
+
+      const [response, statsResponse] = await Promise.all([
+        fetch(listUrl),
+        fetch('/api/products/stats'),
+      ]);
       const data = await response.json();
+      const statsData = await statsResponse.json();
 
-      if (data.success) {
-        setProducts(data.data);
-      } else {
+      if (!data.success) {
         throw new Error(data.error || 'Failed to fetch products');
       }
+
+      setStats(statsData.success ? statsData.data : null);
+
+      if (searchQuery) {
+        const results: Product[] = data.data.results.map((result: { product: Product }) => result.product);
+        setProducts(results);
+        setTotal(results.length);
+        return;
+      }
+
+      // The last product on a later page was removed - step back a page
+      if (data.data.products.length === 0 && offset > 0) {
+        setOffset(Math.max(offset - UI_CONFIG.PRODUCTS_PER_PAGE, 0));
+        return;
+      }
+
+      setProducts(data.data.products);
+      setTotal(data.data.total);
     } catch (error) {
       console.error('Failed to fetch products:', error);
       setError(error instanceof Error ? error.message : 'Failed to fetch products');
@@ -47,13 +109,33 @@ export default function AdminPage() {
 
   useEffect(() => {
     fetchProducts();
-  }, []);
+  }, [offset, sortOption, imageFilter, searchQuery]);
 
   const handleSuccess = () => {
     // Refresh product list after adding/deleting
     fetchProducts();
   };
 
+  const handleSortChange = (value: string) => {
+    setSortOption(value);
+    setOffset(0);
+  };
+
+  const handleImageFilterChange = (value: string) => {
+    setImageFilter(value);
+    setOffset(0);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchQuery(searchInput.trim());
+  };
+
+  const handleClearSearch = () => {
+    setSearchInput('');
+    setSearchQuery('');
+  };
+
   const handleRefresh = () => {
     setRefreshing(true);
     fetchProducts();
@@ -75,6 +157,12 @@ export default function AdminPage() {
     fetchProducts();
   };
 
+  const handleRestore = (product: Product) => {
+    // Keep the modal open with the restored values
+    setEditingProduct(product);
+    fetchProducts();
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -136,7 +224,16 @@ export default function AdminPage() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8 mb-8 sm:mb-12">
         {/* Add Product Form */}
         <div className="order-1">
-          <ProductForm onSuccess={handleSuccess} />
+          {canEdit ? (
+            <ProductForm onSuccess={handleSuccess} />
+          ) : (
+            <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md h-full text-gray-600">
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-800 mb-2">Read-only access</h2>
+              <p className="text-sm sm:text-base">
+                Your account has the viewer role. Ask an owner for editor access to add or change products.
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Statistics Card */}
@@ -148,22 +245,26 @@ export default function AdminPage() {
             <div className="space-y-6">
               <div>
                 <p className="text-sm sm:text-base text-gray-600 mb-1">Total Products</p>
-                <p className="text-3xl sm:text-4xl font-bold text-primary">{products.length}</p>
+                <p className="text-3xl sm:text-4xl font-bold text-primary">{stats?.total ?? total}</p>
               </div>
 
-              {products.length > 0 && (
+              {stats && stats.total > 0 && (
                 <>
                   <div>
                     <p className="text-sm sm:text-base text-gray-600 mb-1">Average Price</p>
                     <p className="text-2xl sm:text-3xl font-bold text-gray-800">
-                      ₹{(products.reduce((sum, p) => sum + Number(p.price), 0) / products.length).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                      ₹{stats.averagePrice.toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                      <span className="ml-2 text-sm font-normal text-gray-500">+ GST</span>
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      ₹{stats.averagePriceInclGst.toLocaleString('en-IN', { maximumFractionDigits: 2 })} incl. GST
                     </p>
                   </div>
 
                   <div>
                     <p className="text-sm sm:text-base text-gray-600 mb-1">Products with Images</p>
                     <p className="text-2xl sm:text-3xl font-bold text-gray-800">
-                      {products.filter(p => p.image_path).length}
+                      {stats.withImages}
                     </p>
                   </div>
                 </>
@@ -175,10 +276,78 @@ export default function AdminPage() {
 
       {/* Product List */}
       <div className="order-3">
-        <h2 className="text-xl sm:text-2xl font-bold text-gray-800 mb-4 sm:mb-6">
-          All Products ({products.length})
-        </h2>
-        <ProductList products={products} onDelete={handleSuccess} onEdit={handleEdit} />
+        <div className="mb-4 sm:mb-6 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-800">
+            {searchQuery ? 'Search Results' : imageFilter ? 'Matching Products' : 'All Products'} ({total})
+          </h2>
+          {!searchQuery && (
+            <div className="flex gap-2">
+              <select
+                value={sortOption}
+                onChange={(e) => handleSortChange(e.target.value)}
+                className="flex-1 sm:flex-none px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-primary focus:border-transparent"
+                aria-label="Sort products"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={imageFilter}
+                onChange={(e) => handleImageFilterChange(e.target.value)}
+                className="flex-1 sm:flex-none px-3 py-2 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-primary focus:border-transparent"
+                aria-label="Filter by image"
+              >
+                <option value="">All products</option>
+                <option value="true">With image</option>
+                <option value="false">Without image</option>
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Search */}
+        <form onSubmit={handleSearch} className="mb-4 flex gap-2" role="search">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            maxLength={SEARCH_CONFIG.MAX_QUERY_LENGTH}
+            placeholder="Search products by name..."
+            aria-label="Search products"
+            className="flex-grow min-w-0 px-4 py-2 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="bg-primary text-white py-2 px-4 rounded-md font-medium hover:bg-blue-600 active:scale-95 transition-all touch-manipulation"
+          >
+            Search
+          </button>
+          {searchQuery && (
+            <button
+              type="button"
+              onClick={handleClearSearch}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-md font-medium touch-manipulation"
+            >
+              Clear
+            </button>
+          )}
+        </form>
+        <ProductList
+          products={products}
+          onDelete={handleSuccess}
+          onEdit={canEdit ? handleEdit : undefined}
+          canDelete={canDelete}
+          emptyMessage={
+            searchQuery
+              ? `No products match "${searchQuery}".`
+              : imageFilter ? 'No products match this filter.' : undefined
+          }
+          total={total}
+          offset={offset}
+          pageSize={UI_CONFIG.PRODUCTS_PER_PAGE}
+          onPageChange={searchQuery ? undefined : setOffset}
+        />
       </div>
 
       {/* Edit Product Modal */}
@@ -189,9 +358,19 @@ export default function AdminPage() {
               <ProductForm
                 initialData={editingProduct}
                 isEditing={true}
+                canDeleteVariants={canDelete}
                 onSuccess={handleEditSuccess}
                 onCancel={handleCancelEdit}
               />
+              {editingProduct && (
+                <div className="mt-4 sm:mt-6">
+                  <RevisionHistory
+                    product={editingProduct}
+                    canRestore={canEdit}
+                    onRestore={handleRestore}
+                  />
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,236 @@
+/**
+ * Admin Security Page
+ *
+ * Lets the signed-in user manage two-factor authentication:
+ * - Enroll by scanning a QR code (or entering the secret manually)
+ * - Confirm with a first code and save one-time recovery codes
+ * - Disable with a current or recovery code
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { TwoFactorEnrollment } from '@/types/api';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export default function AdminSecurityPage() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/2fa');
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load two-factor status');
+      }
+      setStatus(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const request = async (method: 'POST' | 'PUT' | 'DELETE', body?: Record<string, string>) => {
+    setBusy(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/2fa', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      return data.data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+      setCode('');
+    }
+  };
+
+  const handleStartEnrollment = async () => {
+    const data = await request('POST');
+    if (data) {
+      setEnrollment(data);
+      setRecoveryCodes(null);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request('PUT', { code });
+    if (data) {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      fetchStatus();
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isRecoveryCode = code.includes('-');
+    const data = await request('DELETE', isRecoveryCode ? { recoveryCode: code } : { code });
+    if (data) {
+      setRecoveryCodes(null);
+      fetchStatus();
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Page Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-800 mb-2">
+          Security
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Protect your account with two-factor authentication
+        </p>
+      </div>
+
+      <div className="bg-white p-4 sm:p-6 rounded-lg shadow-md max-w-2xl space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-800">Two-Factor Authentication</h2>
+          {status && (
+            <span
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                status.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {status.enabled ? 'Enabled' : 'Off'}
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Recovery codes - shown once after enabling */}
+        {recoveryCodes && (
+          <div className="bg-yellow-50 border border-yellow-200 px-4 py-4 rounded-md">
+            <p className="font-medium text-yellow-800 mb-2">Save your recovery codes</p>
+            <p className="text-sm text-yellow-800 mb-3">
+              Each code signs you in once if you lose your phone. They will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode} className="bg-white px-2 py-1 rounded border border-yellow-200">
+                  {recoveryCode}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <>
+            <p className="text-sm text-gray-600">
+              After entering your password you will also be asked for a code from an authenticator
+              app such as Google Authenticator, Microsoft Authenticator or Authy.
+            </p>
+            <button
+              onClick={handleStartEnrollment}
+              disabled={busy}
+              className="bg-primary text-white py-3 px-6 rounded-md font-medium hover:bg-blue-600 disabled:bg-gray-400 transition-colors active:scale-95 touch-manipulation"
+            >
+              {busy ? 'Preparing...' : 'Set Up Two-Factor Authentication'}
+            </button>
+          </>
+        )}
+
+        {/* Enrollment - scan QR and confirm first code */}
+        {enrollment && (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img
+              src={enrollment.qrCodeDataUrl}
+              alt="Two-factor authentication QR code"
+              className="w-48 h-48 sm:w-60 sm:h-60 border border-gray-200 rounded-md"
+            />
+            <p className="text-xs text-gray-500 break-all">
+              Can&apos;t scan? Enter this key manually:{' '}
+              <span className="font-mono text-gray-800">{enrollment.secret}</span>
+            </p>
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              className="w-full sm:w-48 px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent tracking-widest"
+            />
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={busy || !code}
+                className="bg-primary text-white py-3 px-6 rounded-md font-medium hover:bg-blue-600 disabled:bg-gray-400 transition-colors active:scale-95 touch-manipulation"
+              >
+                {busy ? 'Verifying...' : 'Verify and Enable'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEnrollment(null)}
+                className="bg-gray-100 text-gray-700 py-3 px-6 rounded-md font-medium hover:bg-gray-200 transition-colors active:scale-95 touch-manipulation"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Disable - requires a current or recovery code */}
+        {status?.enabled && (
+          <form onSubmit={handleDisable} className="space-y-3 border-t border-gray-100 pt-4">
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} remaining.
+              To turn off two-factor authentication, enter a current code or a recovery code.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                placeholder="123456 or xxxxx-xxxxx"
+                className="w-full sm:w-60 px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={busy || !code}
+                className="bg-red-50 text-red-600 py-3 px-6 rounded-md font-medium hover:bg-red-100 disabled:bg-gray-100 disabled:text-gray-400 transition-colors active:scale-95 touch-manipulation"
+              >
+                {busy ? 'Disabling...' : 'Disable'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
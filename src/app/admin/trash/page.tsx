@@ -0,0 +1,292 @@
+/**
+ * Admin Trash Page
+ *
+ * Owner-only view of deleted products:
+ * - Restore a product back to the catalog
+ * - Permanently delete a product and its image
+ * - Shows when each product will be purged automatically
+ * - Cleans up uploaded images no product uses (with a dry-run check first)
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAdminUser } from '@/components/AdminSession';
+import type { Product } from '@/types/product';
+import type { UploadSweepReport } from '@/types/image';
+
+/**
+ * Parse a SQLite timestamp (UTC)
+ */
+function parseTimestamp(value: string): Date {
+  return new Date(value.replace(' ', 'T') + 'Z');
+}
+
+export default function AdminTrashPage() {
+  const currentUser = useAdminUser();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [sweepReport, setSweepReport] = useState<UploadSweepReport | null>(null);
+  const [sweeping, setSweeping] = useState(false);
+
+  const isOwner = currentUser?.role === 'owner';
+
+  const fetchTrash = async () => {
+    try {
+      setError('');
+      const response = await fetch('/api/trash');
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to fetch trash');
+      }
+
+      setProducts(data.data.products);
+      setRetentionDays(data.data.retentionDays);
+    } catch (err) {
+      console.error('Failed to fetch trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOwner) {
+      fetchTrash();
+    } else {
+      setLoading(false);
+    }
+  }, [isOwner]);
+
+  const runAction = async (product: Product, url: string, method: 'POST' | 'DELETE') => {
+    setBusyId(product.id);
+
+    try {
+      const response = await fetch(url, { method });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      fetchTrash();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (product: Product) => {
+    runAction(product, `/api/trash/${product.id}/restore`, 'POST');
+  };
+
+  const handlePermanentDelete = (product: Product) => {
+    if (!confirm(`Permanently delete "${product.name}"? Its image is removed too. This cannot be undone.`)) {
+      return;
+    }
+    runAction(product, `/api/trash/${product.id}`, 'DELETE');
+  };
+
+  const runSweep = async (method: 'GET' | 'POST') => {
+    setSweeping(true);
+
+    try {
+      const response = await fetch('/api/uploads/sweep', { method });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+
+      setSweepReport(data.data);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSweeping(false);
+    }
+  };
+
+  const handleSweep = () => {
+    const count = sweepReport?.orphaned.length || 0;
+    if (!confirm(`Delete ${count} unused image${count !== 1 ? 's' : ''}? This cannot be undone.`)) {
+      return;
+    }
+    runSweep('POST');
+  };
+
+  const daysUntilPurge = (product: Product): number => {
+    if (!product.deleted_at) return retentionDays;
+    const purgeAt = parseTimestamp(product.deleted_at).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  if (!isOwner) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md max-w-md mx-auto text-center">
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-800 mb-2">Owner access required</h1>
+          <p className="text-sm sm:text-base text-gray-600">
+            Only owners can restore or permanently delete products.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-center items-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary border-t-transparent mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading trash...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Page Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-800 mb-2">
+          Trash
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Deleted products are kept for {retentionDays} day{retentionDays !== 1 ? 's' : ''}, then removed with their images
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          <p className="font-medium">Error loading trash</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {products.length === 0 ? (
+        <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md text-center text-gray-500">
+          <p className="text-base sm:text-lg">Trash is empty.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {products.map((product) => {
+            const daysLeft = daysUntilPurge(product);
+
+            return (
+              <div key={product.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex items-center gap-3 flex-grow min-w-0">
+                  <div className="h-14 w-14 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
+                    {product.image_path && (
+                      <img
+                        src={product.image_path}
+                        alt={product.name}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">{product.name}</p>
+                    <p className="text-xs text-gray-500">
+                      Deleted {product.deleted_at ? parseTimestamp(product.deleted_at).toLocaleString('en-IN') : ''}
+                      {' · '}
+                      <span className={daysLeft <= 3 ? 'text-red-600' : ''}>
+                        {daysLeft === 0 ? 'purged on next run' : `purged in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleRestore(product)}
+                    disabled={busyId === product.id}
+                    className="flex-1 sm:flex-none bg-primary text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-600 disabled:opacity-50 touch-manipulation"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePermanentDelete(product)}
+                    disabled={busyId === product.id}
+                    className="flex-1 sm:flex-none bg-red-50 text-red-600 hover:bg-red-100 px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+                  >
+                    Delete Forever
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Unused Images */}
+      <div className="mt-8 bg-white p-4 sm:p-6 rounded-lg shadow-md">
+        <h2 className="text-lg sm:text-xl font-bold text-gray-800 mb-1">Unused images</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Images uploaded but never saved, or replaced on a product, are kept for a grace period and then can be deleted.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => runSweep('GET')}
+            disabled={sweeping}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+          >
+            {sweeping ? 'Checking...' : 'Check for unused images'}
+          </button>
+          {sweepReport?.dryRun && sweepReport.orphaned.length > 0 && (
+            <button
+              onClick={handleSweep}
+              disabled={sweeping}
+              className="bg-red-50 text-red-600 hover:bg-red-100 px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+            >
+              Delete {sweepReport.orphaned.length} unused image{sweepReport.orphaned.length !== 1 ? 's' : ''}
+            </button>
+          )}
+        </div>
+
+        {sweepReport && (
+          <div className="mt-4 text-sm">
+            {sweepReport.dryRun ? (
+              <p className="text-gray-700">
+                {sweepReport.orphaned.length === 0
+                  ? `No images have been unused for more than ${sweepReport.graceHours} hours.`
+                  : `${sweepReport.orphaned.length} image${sweepReport.orphaned.length !== 1 ? 's' : ''} unused for more than ${sweepReport.graceHours} hours:`}
+              </p>
+            ) : (
+              <p className={sweepReport.failed.length > 0 ? 'text-red-600' : 'text-green-700'}>
+                Deleted {sweepReport.deleted.length} image{sweepReport.deleted.length !== 1 ? 's' : ''}
+                {sweepReport.failed.length > 0 && `; ${sweepReport.failed.length} could not be deleted and will be retried`}
+              </p>
+            )}
+
+            {sweepReport.dryRun && sweepReport.orphaned.length > 0 && (
+              <ul className="mt-2 grid grid-cols-3 sm:grid-cols-6 gap-2">
+                {sweepReport.orphaned.map((upload) => (
+                  <li key={upload.image_path} className="text-xs text-gray-500">
+                    <img
+                      src={upload.image_path}
+                      alt=""
+                      className="w-full aspect-square object-cover rounded bg-gray-100"
+                      loading="lazy"
+                    />
+                    <span className="block truncate mt-1">
+                      {upload.reason === 'replaced' ? `Replaced on ${upload.product_id}` : 'Never saved'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+/**
+ * Admin Users Page
+ *
+ * Owner-only user management:
+ * - Create accounts with a role
+ * - Change roles
+ * - Reset passwords and two-factor authentication
+ * - Remove accounts
+ *
+ * Mobile-first layout: form stacks above the user list on small screens.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAdminUser } from '@/components/AdminSession';
+import { USER_CONFIG } from '@/lib/constants';
+import type { User, UserRole } from '@/types/user';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Can view the admin panel',
+  editor: 'Can add and edit products',
+  owner: 'Full access, including deletes and users',
+};
+
+export default function AdminUsersPage() {
+  const currentUser = useAdminUser();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('editor');
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const isOwner = currentUser?.role === 'owner';
+
+  const fetchUsers = async () => {
+    try {
+      setError('');
+      const response = await fetch('/api/users');
+      const data = await response.json();
+
+      if (data.success) {
+        setUsers(data.data);
+      } else {
+        throw new Error(data.error || 'Failed to fetch users');
+      }
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOwner) {
+      fetchUsers();
+    } else {
+      setLoading(false);
+    }
+  }, [isOwner]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+    setCreating(true);
+
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password, role }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to create user');
+      }
+
+      setUsername('');
+      setPassword('');
+      setRole('editor');
+      fetchUsers();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateUser = async (
+    id: string,
+    update: { role?: UserRole; password?: string; resetTwoFactor?: boolean }
+  ) => {
+    setBusyId(id);
+
+    try {
+      const response = await fetch(`/api/users/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update user');
+      }
+
+      fetchUsers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update user');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResetPassword = (user: User) => {
+    const newPassword = prompt(`New password for ${user.username}:`);
+    if (!newPassword) return;
+    updateUser(user.id, { password: newPassword });
+  };
+
+  const handleResetTwoFactor = (user: User) => {
+    if (!confirm(`Turn off two-factor authentication for ${user.username}? They can enroll again after signing in.`)) {
+      return;
+    }
+    updateUser(user.id, { resetTwoFactor: true });
+  };
+
+  const handleDelete = async (user: User) => {
+    if (!confirm(`Remove ${user.username}? They will be signed out immediately.`)) {
+      return;
+    }
+
+    setBusyId(user.id);
+
+    try {
+      const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete user');
+      }
+
+      fetchUsers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete user');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isOwner) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md max-w-md mx-auto text-center">
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-800 mb-2">Owner access required</h1>
+          <p className="text-sm sm:text-base text-gray-600">
+            Only owners can manage admin accounts.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-center items-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary border-t-transparent mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading users...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Page Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-800 mb-2">
+          Users
+        </h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          Manage who can access the admin panel
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          <p className="font-medium">Error loading users</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 sm:gap-8">
+        {/* Add User Form */}
+        <form onSubmit={handleCreate} className="space-y-4 bg-white p-4 sm:p-6 rounded-lg shadow-md h-fit">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-800">Add User</h2>
+
+          {formError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+              {formError}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="new-username" className="block text-sm font-medium text-gray-700 mb-2">
+              Username
+            </label>
+            <input
+              type="text"
+              id="new-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoCapitalize="none"
+              className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder="e.g., priya"
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-2">
+              Password
+            </label>
+            <input
+              type="password"
+              id="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+              placeholder={`At least ${USER_CONFIG.MIN_PASSWORD_LENGTH} characters`}
+              required
+            />
+          </div>
+
+          <div>
+            <label htmlFor="new-role" className="block text-sm font-medium text-gray-700 mb-2">
+              Role
+            </label>
+            <select
+              id="new-role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as UserRole)}
+              className="w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent bg-white"
+            >
+              {USER_CONFIG.ROLES.map((r) => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[role]}</p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={creating}
+            className="w-full bg-primary text-white py-3 px-6 rounded-md font-medium text-base hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors active:scale-95 touch-manipulation"
+          >
+            {creating ? 'Adding User...' : 'Add User'}
+          </button>
+        </form>
+
+        {/* User List */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {users.map((user) => (
+            <div key={user.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex-grow min-w-0">
+                <p className="font-semibold text-gray-900 truncate">
+                  {user.username}
+                  {user.id === currentUser?.id && (
+                    <span className="ml-2 text-xs font-normal text-gray-500">(you)</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {ROLE_DESCRIPTIONS[user.role]}
+                  {user.totp_enabled && <span className="ml-2 text-green-600">· 2FA on</span>}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={user.role}
+                  disabled={busyId === user.id}
+                  onChange={(e) => updateUser(user.id, { role: e.target.value as UserRole })}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white disabled:opacity-50"
+                  aria-label={`Role for ${user.username}`}
+                >
+                  {USER_CONFIG.ROLES.map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleResetPassword(user)}
+                  disabled={busyId === user.id}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+                >
+                  Reset Password
+                </button>
+                {user.totp_enabled && (
+                  <button
+                    onClick={() => handleResetTwoFactor(user)}
+                    disabled={busyId === user.id}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+                  >
+                    Reset 2FA
+                  </button>
+                )}
+                {user.id !== currentUser?.id && (
+                  <button
+                    onClick={() => handleDelete(user)}
+                    disabled={busyId === user.id}
+                    className="bg-red-50 text-red-600 hover:bg-red-100 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
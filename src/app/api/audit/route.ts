@@ -0,0 +1,99 @@
+/**
+ * Audit Log API Route
+ *
+ * Endpoint:
+ * - GET /api/audit - List audit entries, newest first
+ *
+ * Query params (all optional):
+ * - productId: only entries for this product
+ * - actor: user ID or username
+ * - action: product.create | product.update | product.delete |
+ *   product.restore | product.purge | variant.create | variant.update |
+ *   variant.delete | image.upload | image.sweep
+ * - from, to: ISO date or datetime bounds (inclusive)
+ * - limit, offset: pagination
+ *
+ * Any signed-in admin can read the audit log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getAuditEntries } from '@/lib/audit';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { AuditAction, AuditEntry } from '@/types/audit';
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  'product.create',
+  'product.update',
+  'product.delete',
+  'product.restore',
+  'product.purge',
+  'variant.create',
+  'variant.update',
+  'variant.delete',
+  'image.upload',
+  'image.sweep',
+];
+
+/**
+ * GET /api/audit
+ * Returns filtered audit entries with the total match count
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action') || undefined;
+
+    if (action && !(AUDIT_ACTIONS as string[]).includes(action)) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: `Action must be one of: ${AUDIT_ACTIONS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const param of ['from', 'to']) {
+      const value = searchParams.get(param);
+      if (value && isNaN(Date.parse(value))) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: `Invalid ${param} date`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { entries, total } = await getAuditEntries({
+      productId: searchParams.get('productId') || undefined,
+      actor: searchParams.get('actor') || undefined,
+      action: action as AuditAction | undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+      offset: parseInt(searchParams.get('offset') || '', 10) || undefined,
+    });
+
+    return NextResponse.json<ApiResponse<{ entries: AuditEntry[]; total: number }>>({
+      success: true,
+      data: { entries, total },
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch audit log',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Audit entries must always be fresh
+export const dynamic = 'force-dynamic';
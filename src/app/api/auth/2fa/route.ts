@@ -0,0 +1,220 @@
+/**
+ * Two-Factor Authentication API Route
+ *
+ * Endpoints (for the signed-in user):
+ * - GET /api/auth/2fa - Get 2FA status
+ * - POST /api/auth/2fa - Start enrollment (secret, URI and QR code)
+ * - PUT /api/auth/2fa - Confirm enrollment with a code, returns recovery codes
+ * - DELETE /api/auth/2fa - Disable 2FA (requires a current or recovery code)
+ *
+ * Wrong codes count towards the same per-IP and per-account limits as
+ * login; a locked client gets 429 with a Retry-After header.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import QRCode from 'qrcode';
+import { withAuth } from '@/lib/auth';
+import {
+  getLoginKeys,
+  checkLoginAllowed,
+  recordLoginFailure,
+  resetLoginFailures,
+  tooManyAttemptsResponse,
+} from '@/lib/rateLimit';
+import {
+  getTwoFactorState,
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  verifyTwoFactorCode,
+  consumeRecoveryCode,
+} from '@/lib/twoFactor';
+import type { ApiResponse, ApiError, TwoFactorEnrollment } from '@/types/api';
+
+/**
+ * GET /api/auth/2fa
+ * Returns whether 2FA is enabled and how many recovery codes are left
+ */
+export const GET = withAuth(async (request, context, session) => {
+  try {
+    const state = await getTwoFactorState(session.user.id);
+
+    return NextResponse.json<ApiResponse<{ enabled: boolean; recoveryCodesRemaining: number }>>({
+      success: true,
+      data: {
+        enabled: !!state?.enabled,
+        recoveryCodesRemaining: state?.recoveryCodesRemaining ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching 2FA status:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch two-factor status',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/auth/2fa
+ * Generates a new secret awaiting confirmation
+ */
+export const POST = withAuth(async (request, context, session) => {
+  try {
+    const state = await getTwoFactorState(session.user.id);
+    if (state?.enabled) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        },
+        { status: 409 }
+      );
+    }
+
+    const { secret, otpauthUri } = await beginEnrollment(session.user.id, session.user.username);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 240 });
+
+    return NextResponse.json<ApiResponse<TwoFactorEnrollment>>({
+      success: true,
+      data: { secret, otpauthUri, qrCodeDataUrl },
+      message: 'Scan the QR code with your authenticator app',
+    });
+  } catch (error) {
+    console.error('Error starting 2FA enrollment:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to start two-factor enrollment',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/auth/2fa
+ * Confirms enrollment and enables 2FA
+ *
+ * Body: { code: string }
+ * Returns: { recoveryCodes: string[] } (shown only once)
+ */
+export const PUT = withAuth(async (request: NextRequest, context, session) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (!body.code) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Authentication code is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const rateLimitKeys = getLoginKeys(request, session.user.username);
+    const status = await checkLoginAllowed(rateLimitKeys);
+    if (!status.allowed) {
+      return tooManyAttemptsResponse(status.retryAfterSeconds);
+    }
+
+    const recoveryCodes = await confirmEnrollment(session.user.id, String(body.code));
+
+    if (!recoveryCodes) {
+      const failure = await recordLoginFailure(rateLimitKeys);
+      if (!failure.allowed) {
+        return tooManyAttemptsResponse(failure.retryAfterSeconds);
+      }
+
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid authentication code. Check your device clock and try again.',
+        },
+        { status: 400 }
+      );
+    }
+
+    await resetLoginFailures(rateLimitKeys.slice(1));
+
+    return NextResponse.json<ApiResponse<{ recoveryCodes: string[] }>>({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled',
+    });
+  } catch (error) {
+    console.error('Error confirming 2FA enrollment:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to enable two-factor authentication',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/auth/2fa
+ * Disables 2FA after checking a current or recovery code
+ *
+ * Body: { code?: string, recoveryCode?: string }
+ */
+export const DELETE = withAuth(async (request: NextRequest, context, session) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const rateLimitKeys = getLoginKeys(request, session.user.username);
+    const status = await checkLoginAllowed(rateLimitKeys);
+    if (!status.allowed) {
+      return tooManyAttemptsResponse(status.retryAfterSeconds);
+    }
+
+    const valid = body.code
+      ? await verifyTwoFactorCode(session.user.id, String(body.code))
+      : body.recoveryCode
+        ? await consumeRecoveryCode(session.user.id, String(body.recoveryCode))
+        : false;
+
+    if (!valid) {
+      const failure = await recordLoginFailure(rateLimitKeys);
+      if (!failure.allowed) {
+        return tooManyAttemptsResponse(failure.retryAfterSeconds);
+      }
+
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'A valid authentication or recovery code is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(session.user.id);
+    await resetLoginFailures(rateLimitKeys.slice(1));
+
+    return NextResponse.json<ApiResponse<{ enabled: false }>>({
+      success: true,
+      data: { enabled: false },
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    console.error('Error disabling 2FA:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to disable two-factor authentication',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,62 +1,136 @@
 /**
  * Auth API Route
  *
- * Endpoint:
- * - POST /api/auth - Verify admin password
+ * Endpoints:
+ * - POST /api/auth - Verify admin credentials and start a session
+ * - DELETE /api/auth - Log out and invalidate the session
  *
- * Returns success/failure without exposing the actual password
+ * Sessions are kept in an httpOnly cookie; the password is never exposed
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { ApiResponse, ApiError } from '@/types/api';
+import {
+  createSession,
+  destroySession,
+  setSessionCookie,
+  clearSessionCookie,
+  safeCompare,
+  createLoginChallenge,
+  verifyLoginChallenge,
+  consumeLoginChallenge,
+} from '@/lib/auth';
+import {
+  getLoginKeys,
+  checkLoginAllowed,
+  recordLoginFailure,
+  resetLoginFailures,
+  tooManyAttemptsResponse,
+} from '@/lib/rateLimit';
+import { authenticateUser, countUsers, createFirstOwner, getUserById } from '@/lib/users';
+import { verifyTwoFactorCode, consumeRecoveryCode } from '@/lib/twoFactor';
+import { validateUsername } from '@/lib/validation';
+import { AUTH_CONFIG } from '@/lib/constants';
+import type { ApiResponse, ApiError, SessionData, TwoFactorChallenge } from '@/types/api';
+import type { User } from '@/types/user';
 
 /**
  * POST /api/auth
- * Verifies admin password
+ * Verifies username and password and issues a session cookie
  *
- * Body: { password: string }
- * Returns: { success: boolean }
+ * While no users exist, ADMIN_PASSWORD acts as a bootstrap credential:
+ * logging in with it creates the first owner account.
+ *
+ * Failed attempts are rate limited per IP and per account; a locked
+ * client gets 429 with a Retry-After header.
+ *
+ * When the user has 2FA enabled, login is a two-step exchange:
+ * 1. Body: { username, password } -> { twoFactorRequired: true, challenge }
+ * 2. Body: { challenge, code } or { challenge, recoveryCode } -> session
+ *
+ * Body: { username: string, password: string }
+ * Returns: { authenticated: true, expiresAt: number, user }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { password } = body;
 
-    if (!password) {
+    if (body.challenge) {
+      return await completeTwoFactorLogin(request, body);
+    }
+
+    const { username, password } = body;
+
+    if (!username || !password) {
       return NextResponse.json<ApiError>(
         {
           success: false,
-          error: 'Password is required',
+          error: 'Username and password are required',
         },
         { status: 400 }
       );
     }
 
-    // Verify against environment variable
-    const adminPassword = process.env.ADMIN_PASSWORD;
+    const rateLimitKeys = getLoginKeys(request, String(username));
+    const status = await checkLoginAllowed(rateLimitKeys);
+    if (!status.allowed) {
+      return tooManyAttemptsResponse(status.retryAfterSeconds);
+    }
 
-    if (!adminPassword) {
-      console.error('ADMIN_PASSWORD not set in environment');
-      return NextResponse.json<ApiError>(
-        {
-          success: false,
-          error: 'Server configuration error',
-        },
-        { status: 500 }
-      );
+    let user: User | null;
+
+    if ((await countUsers()) === 0) {
+      if (!process.env.ADMIN_PASSWORD) {
+        console.error('ADMIN_PASSWORD not set in environment');
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: 'Server configuration error',
+          },
+          { status: 500 }
+        );
+      }
+
+      try {
+        validateUsername(String(username));
+      } catch (validationError) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: validationError instanceof Error ? validationError.message : 'Invalid username',
+          },
+          { status: 400 }
+        );
+      }
+
+      user = await bootstrapOwner(String(username), String(password));
+    } else {
+      user = await authenticateUser(String(username), String(password));
     }
 
-    if (password === adminPassword) {
-      return NextResponse.json<ApiResponse>({
-        success: true,
-        data: { authenticated: true },
-        message: 'Authentication successful',
-      });
+    if (user) {
+      // Failures are only forgiven once every factor has passed, so knowing
+      // the password doesn't reset the limit on guessing 2FA codes
+      if (user.totp_enabled) {
+        return NextResponse.json<ApiResponse<TwoFactorChallenge>>({
+          success: true,
+          data: { twoFactorRequired: true, challenge: await createLoginChallenge(user.id) },
+          message: 'Enter the code from your authenticator app',
+        });
+      }
+
+      // Only the account counter is cleared; the IP counter still expires on its own
+      await resetLoginFailures(rateLimitKeys.slice(1));
+      return sessionResponse(user);
     } else {
+      const failure = await recordLoginFailure(rateLimitKeys);
+      if (!failure.allowed) {
+        return tooManyAttemptsResponse(failure.retryAfterSeconds);
+      }
+
       return NextResponse.json<ApiError>(
         {
           success: false,
-          error: 'Invalid password',
+          error: 'Invalid username or password',
         },
         { status: 401 }
       );
@@ -73,3 +147,131 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Second login step: verify a TOTP or recovery code against a challenge
+ */
+async function completeTwoFactorLogin(
+  request: NextRequest,
+  body: { challenge?: string; code?: string; recoveryCode?: string }
+): Promise<NextResponse> {
+  const userId = await verifyLoginChallenge(String(body.challenge));
+  const user = userId ? await getUserById(userId) : null;
+
+  if (!user) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Login session expired. Please enter your password again.',
+      },
+      { status: 401 }
+    );
+  }
+
+  if (!body.code && !body.recoveryCode) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Authentication code is required',
+      },
+      { status: 400 }
+    );
+  }
+
+  const rateLimitKeys = getLoginKeys(request, user.username);
+  const status = await checkLoginAllowed(rateLimitKeys);
+  if (!status.allowed) {
+    return tooManyAttemptsResponse(status.retryAfterSeconds);
+  }
+
+  const valid = body.code
+    ? await verifyTwoFactorCode(user.id, String(body.code))
+    : await consumeRecoveryCode(user.id, String(body.recoveryCode));
+
+  if (!valid) {
+    const failure = await recordLoginFailure(rateLimitKeys);
+    if (!failure.allowed) {
+      return tooManyAttemptsResponse(failure.retryAfterSeconds);
+    }
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: body.code ? 'Invalid authentication code' : 'Invalid recovery code',
+      },
+      { status: 401 }
+    );
+  }
+
+  if ((await consumeLoginChallenge(String(body.challenge))) !== user.id) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Login session expired. Please enter your password again.',
+      },
+      { status: 401 }
+    );
+  }
+
+  await resetLoginFailures(rateLimitKeys.slice(1));
+  return sessionResponse(user);
+}
+
+/**
+ * Start a session and return it with the session cookie set
+ */
+async function sessionResponse(user: User): Promise<NextResponse> {
+  const { token, session } = await createSession(user);
+
+  const response = NextResponse.json<ApiResponse<SessionData>>({
+    success: true,
+    data: { authenticated: true, expiresAt: session.expiresAt, user: session.user },
+    message: 'Authentication successful',
+  });
+  setSessionCookie(response, token, session);
+
+  return response;
+}
+
+/**
+ * Create the first owner account from ADMIN_PASSWORD
+ * @returns Owner user, or null if the password is wrong or another
+ * login created the first account first
+ */
+async function bootstrapOwner(username: string, password: string): Promise<User | null> {
+  if (!safeCompare(password, process.env.ADMIN_PASSWORD || '')) {
+    return null;
+  }
+
+  console.log('No users found - creating first owner account:', username);
+  return createFirstOwner(username, password);
+}
+
+/**
+ * DELETE /api/auth
+ * Invalidates the current session and clears the cookie
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await destroySession(request.cookies.get(AUTH_CONFIG.SESSION_COOKIE_NAME)?.value);
+
+    const response = NextResponse.json<ApiResponse<{ authenticated: false }>>({
+      success: true,
+      data: { authenticated: false },
+      message: 'Logged out successfully',
+    });
+    clearSessionCookie(response);
+
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Logout failed',
+      },
+      { status: 500 }
+    );
+  }
+}
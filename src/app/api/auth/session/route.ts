@@ -0,0 +1,32 @@
+/**
+ * Auth Session API Route
+ *
+ * Endpoint:
+ * - GET /api/auth/session - Check whether the current session is valid
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, unauthorizedResponse } from '@/lib/auth';
+import type { ApiResponse, SessionData } from '@/types/api';
+
+/**
+ * GET /api/auth/session
+ * Returns session status from the httpOnly cookie
+ *
+ * Returns: { authenticated: true, expiresAt: number, user } or 401
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+
+  if (!session) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json<ApiResponse<SessionData>>({
+    success: true,
+    data: { authenticated: true, expiresAt: session.expiresAt, user: session.user },
+  });
+}
+
+// Session state must never be cached
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,218 @@
+/**
+ * Category By ID API Route
+ *
+ * Endpoints:
+ * - GET /api/categories/[id] - Get single category (public)
+ * - PATCH /api/categories/[id] - Rename, re-slug or move category (requires editor role)
+ * - DELETE /api/categories/[id] - Delete category (requires owner role)
+ *
+ * Deleting a category keeps its products; its subcategories
+ * move up to its parent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { withAuth } from '@/lib/auth';
+import { getCategoryById, updateCategory, deleteCategory } from '@/lib/categories';
+import {
+  validateCategoryName,
+  validateCategorySlug,
+  validateCategoryDescription,
+  ValidationError,
+} from '@/lib/validation';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { Category, CategoryUpdate } from '@/types/category';
+
+/**
+ * GET /api/categories/[id]
+ * Gets a single category by ID
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const category = await getCategoryById(id);
+
+    if (!category) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Category not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<Category>>({
+      success: true,
+      data: category,
+    });
+  } catch (error) {
+    console.error('Error fetching category:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch category',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/categories/[id]
+ * Updates a category partially
+ *
+ * Body: { name?, slug?, description?, parent_id? } (parent_id null makes it top-level)
+ */
+export const PATCH = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Invalid request body',
+      },
+      { status: 400 }
+    );
+  }
+
+  const update: CategoryUpdate = {};
+
+  try {
+    if (body.name !== undefined) {
+      validateCategoryName(String(body.name));
+      update.name = String(body.name);
+    }
+    if (body.slug !== undefined) {
+      validateCategorySlug(String(body.slug));
+      update.slug = String(body.slug);
+    }
+    if (body.description !== undefined) {
+      const description = body.description ? String(body.description) : null;
+      if (description) {
+        validateCategoryDescription(description);
+      }
+      update.description = description;
+    }
+    if (body.parent_id !== undefined) {
+      update.parent_id = body.parent_id ? String(body.parent_id) : null;
+    }
+  } catch (validationError) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: validationError instanceof ValidationError
+          ? validationError.message
+          : 'Validation failed',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'No fields provided for update',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const updated = await updateCategory(id, update);
+
+    if (!updated) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Category not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<Category>>({
+      success: true,
+      data: updated,
+      message: 'Category updated successfully',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update category';
+    const status = message.includes('already taken')
+      ? 409
+      : message.includes('Parent') || message.includes('inside itself')
+        ? 400
+        : 500;
+
+    console.error(`API Error (${status}):`, error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: message,
+      },
+      { status }
+    );
+  }
+}, 'editor');
+
+/**
+ * DELETE /api/categories/[id]
+ * Deletes a category (its products are kept)
+ */
+export const DELETE = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const deleted = await deleteCategory(id);
+
+    if (!deleted) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Category not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<{ id: string; deleted: boolean }>>({
+      success: true,
+      data: { id, deleted: true },
+      message: 'Category deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting category:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to delete category',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
+
+// Category details must always be fresh
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,131 @@
+/**
+ * Categories API Route
+ *
+ * Endpoints:
+ * - GET /api/categories - List all categories (public)
+ * - POST /api/categories - Create category (requires editor role)
+ *
+ * Categories are returned as a flat list; each has a parent_id,
+ * and buildCategoryTree (types/category) nests them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { withAuth } from '@/lib/auth';
+import { getAllCategories, createCategory } from '@/lib/categories';
+import {
+  validateCategoryName,
+  validateCategorySlug,
+  validateCategoryDescription,
+  ValidationError,
+} from '@/lib/validation';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { Category } from '@/types/category';
+
+/**
+ * GET /api/categories
+ * Returns all categories with their product counts
+ */
+export async function GET() {
+  try {
+    const categories = await getAllCategories();
+
+    return NextResponse.json<ApiResponse<Category[]>>({
+      success: true,
+      data: categories,
+    });
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch categories',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/categories
+ * Creates a new category
+ *
+ * Body: { name, slug?, description?, parent_id? }
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Invalid JSON in request body',
+      },
+      { status: 400 }
+    );
+  }
+
+  const name = String(body.name || '');
+  const slug = body.slug ? String(body.slug) : undefined;
+  const description = body.description ? String(body.description) : null;
+  const parentId = body.parent_id ? String(body.parent_id) : null;
+
+  try {
+    validateCategoryName(name);
+    if (slug !== undefined) {
+      validateCategorySlug(slug);
+    }
+    if (description) {
+      validateCategoryDescription(description);
+    }
+  } catch (validationError) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: validationError instanceof ValidationError
+          ? validationError.message
+          : 'Validation failed',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const category = await createCategory({ name, slug, description, parent_id: parentId });
+
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<Category>>(
+      {
+        success: true,
+        data: category,
+        message: 'Category created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create category';
+    const status = message.includes('already taken')
+      ? 409
+      : message.includes('Parent') || message.includes('slug')
+        ? 400
+        : 500;
+
+    console.error(`API Error (${status}):`, error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: message,
+      },
+      { status }
+    );
+  }
+}, 'editor');
+
+// Category list must always be fresh
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,101 @@
+/**
+ * Product Revision Restore API Route
+ *
+ * Endpoint:
+ * - POST /api/products/[id]/revisions/[rev]/restore - Restore a saved version
+ *
+ * The current version is snapshotted before restoring,
+ * so a restore can itself be undone. Requires editor role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { withAuth } from '@/lib/auth';
+import { getProductById } from '@/lib/db';
+import { restoreProductRevision } from '@/lib/revisions';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { Product } from '@/types/product';
+
+/**
+ * Validate product ID format
+ */
+function isValidProductId(id: string): boolean {
+  return /^prod_\d+$/.test(id);
+}
+
+/**
+ * POST /api/products/[id]/revisions/[rev]/restore
+ * Restores the product to the given revision
+ */
+export const POST = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rev: string }> },
+  session
+) => {
+  try {
+    const { id, rev } = await params;
+    const revision = Number(rev);
+
+    if (!isValidProductId(id)) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid product ID format',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(revision) || revision < 1) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid revision number',
+        },
+        { status: 400 }
+      );
+    }
+
+    const product = await getProductById(id);
+    if (!product) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Product not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const restored = await restoreProductRevision(id, revision, session.user);
+    if (!restored) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Revision not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Revalidate home page cache so the restored version appears immediately
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<Product>>({
+      success: true,
+      data: restored,
+      message: `Product restored to revision ${revision}`,
+    });
+  } catch (error) {
+    console.error('Error restoring product revision:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to restore product revision',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'editor');
@@ -0,0 +1,77 @@
+/**
+ * Product Revisions API Route
+ *
+ * Endpoint:
+ * - GET /api/products/[id]/revisions - List saved versions, newest first
+ *
+ * Any signed-in admin can view a product's history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getProductById } from '@/lib/db';
+import { getProductRevisions } from '@/lib/revisions';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { ProductRevision } from '@/types/product';
+
+/**
+ * Validate product ID format
+ */
+function isValidProductId(id: string): boolean {
+  return /^prod_\d+$/.test(id);
+}
+
+/**
+ * GET /api/products/[id]/revisions
+ * Returns every saved version of the product
+ */
+export const GET = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+
+    if (!isValidProductId(id)) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid product ID format',
+        },
+        { status: 400 }
+      );
+    }
+
+    const product = await getProductById(id);
+    if (!product) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Product not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await getProductRevisions(id);
+
+    return NextResponse.json<ApiResponse<ProductRevision[]>>({
+      success: true,
+      data: revisions,
+    });
+  } catch (error) {
+    console.error('Error fetching product revisions:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch product revisions',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Revisions must always be fresh
+export const dynamic = 'force-dynamic';
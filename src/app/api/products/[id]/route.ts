@@ -2,20 +2,32 @@
  * Product By ID API Route
  *
  * Endpoints:
- * - DELETE /api/products/[id] - Delete product
+ * - DELETE /api/products/[id] - Move product to trash
  * - GET /api/products/[id] - Get single product
  * - PATCH /api/products/[id] - Update product (future)
  *
  * Features:
+ * - Session authentication and role checks on writes
  * - Validates product ID format
- * - Deletes associated image from storage
+ * - Deletes are soft: the product and its images stay in the trash
  * - Proper error handling
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
 import { deleteProduct, getProductById, updateProduct } from '@/lib/db';
-import { deleteImage } from '@/lib/imageProcessor';
+import { findMissingCategoryIds } from '@/lib/categories';
+import {
+  validateGstRate,
+  validateHsnCode,
+  validateMinOrderQty,
+  validateOrderUnit,
+  validatePriceTiers,
+  validateProductImages,
+  toQuantity,
+  ValidationError,
+} from '@/lib/validation';
+import { withAuth } from '@/lib/auth';
 import type { ApiResponse, ApiError } from '@/types/api';
 import type { Product, ProductUpdate } from '@/types/product';
 
@@ -91,12 +103,13 @@ export async function GET(
 
 /**
  * DELETE /api/products/[id]
- * Deletes a product and its associated image
+ * Moves a product to the trash, keeping its image (requires owner role)
  */
-export async function DELETE(
+export const DELETE = withAuth(async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   try {
     const { id } = await params;
 
@@ -121,7 +134,7 @@ export async function DELETE(
       );
     }
 
-    // Check if product exists and get image path
+    // Check if product exists
     const product = await getProductById(id);
     if (!product) {
       return NextResponse.json<ApiError>(
@@ -133,18 +146,8 @@ export async function DELETE(
       );
     }
 
-    // Delete image if exists (do this before deleting product)
-    if (product.image_path) {
-      try {
-        await deleteImage(product.image_path);
-      } catch (imageError) {
-        // Log but don't fail - product will still be deleted
-        console.warn('Failed to delete image for product', id, imageError);
-      }
-    }
-
-    // Delete product from database
-    const deleted = await deleteProduct(id);
+    // Move product to trash (image is removed when the trash is purged)
+    const deleted = await deleteProduct(id, session.user);
 
     if (!deleted) {
       return NextResponse.json<ApiError>(
@@ -163,7 +166,7 @@ export async function DELETE(
       {
         success: true,
         data: { id, deleted: true },
-        message: 'Product deleted successfully',
+        message: 'Product moved to trash',
       },
       { status: 200 }
     );
@@ -179,16 +182,17 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+}, 'owner');
 
 /**
  * PATCH /api/products/[id]
- * Updates a product partially
+ * Updates a product partially (requires editor role)
  */
-export async function PATCH(
+export const PATCH = withAuth(async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   try {
     const { id } = await params;
 
@@ -263,12 +267,72 @@ export async function PATCH(
       }
     }
 
-    if (body.min_order_qty !== undefined) {
-      if (typeof body.min_order_qty !== 'string' || body.min_order_qty.trim().length === 0) {
+    if (body.hsn_code !== undefined || body.gst_rate !== undefined) {
+      try {
+        validateHsnCode(body.hsn_code);
+        if (body.gst_rate !== undefined) validateGstRate(body.gst_rate);
+      } catch (validationError) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: validationError instanceof ValidationError
+              ? validationError.message
+              : 'Invalid GST details',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.price_tiers !== undefined) {
+      try {
+        validatePriceTiers(body.price_tiers);
+      } catch (validationError) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: validationError instanceof ValidationError
+              ? validationError.message
+              : 'Invalid price tiers',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.images !== undefined) {
+      try {
+        validateProductImages(body.images);
+      } catch (validationError) {
         return NextResponse.json<ApiError>(
           {
             success: false,
-            error: 'Minimum order quantity is required',
+            error: validationError instanceof ValidationError
+              ? validationError.message
+              : 'Invalid images',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.category_ids !== undefined) {
+      if (!Array.isArray(body.category_ids) || body.category_ids.some(c => typeof c !== 'string')) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: 'category_ids must be an array of category IDs',
+          },
+          { status: 400 }
+        );
+      }
+
+      const missing = await findMissingCategoryIds(body.category_ids);
+      if (missing.length > 0) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: `Unknown category: ${missing.join(', ')}`,
           },
           { status: 400 }
         );
@@ -287,8 +351,32 @@ export async function PATCH(
       );
     }
 
+    // Quantity and unit are checked together, falling back to the saved values
+    if (body.min_order_qty !== undefined || body.min_order_unit !== undefined) {
+      // Normalised as POST does, so numeric strings are stored as numbers
+      if (body.min_order_qty !== undefined) {
+        body.min_order_qty = toQuantity(body.min_order_qty);
+      }
+
+      try {
+        const unit = body.min_order_unit ?? existing.min_order_unit;
+        validateOrderUnit(unit);
+        validateMinOrderQty(body.min_order_qty ?? existing.min_order_qty, unit);
+      } catch (validationError) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: validationError instanceof ValidationError
+              ? validationError.message
+              : 'Invalid minimum order',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update product in database
-    const updated = await updateProduct(id, body);
+    const updated = await updateProduct(id, body, session.user);
 
     if (!updated) {
       return NextResponse.json<ApiError>(
@@ -320,4 +408,4 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+}, 'editor');
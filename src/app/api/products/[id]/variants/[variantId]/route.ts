@@ -0,0 +1,175 @@
+/**
+ * Product Variant By ID API Route
+ *
+ * Endpoints:
+ * - PATCH /api/products/[id]/variants/[variantId] - Update variant
+ * - DELETE /api/products/[id]/variants/[variantId] - Remove variant
+ *
+ * PATCH requires editor role. DELETE requires owner role, as for
+ * products: variants are deleted outright and revisions don't restore them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { withAuth } from '@/lib/auth';
+import { getProductById } from '@/lib/db';
+import { updateVariant, deleteVariant } from '@/lib/variants';
+import { validateVariantInput, ValidationError } from '@/lib/validation';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { ProductVariant, ProductVariantUpdate } from '@/types/product';
+
+/**
+ * PATCH /api/products/[id]/variants/[variantId]
+ * Updates a variant partially
+ *
+ * Body: { sku?, price?, min_order_qty?, size?, thickness?, material? }
+ * min_order_qty is counted in the product's min_order_unit
+ */
+export const PATCH = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; variantId: string }> },
+  session
+) => {
+  const { id, variantId } = await params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Invalid request body',
+      },
+      { status: 400 }
+    );
+  }
+
+  let product;
+  try {
+    product = await getProductById(id);
+  } catch (error) {
+    console.error('Error fetching product for variant update:', error);
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to update variant',
+      },
+      { status: 500 }
+    );
+  }
+
+  if (!product) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Product not found',
+      },
+      { status: 404 }
+    );
+  }
+
+  let update: ProductVariantUpdate;
+  try {
+    update = validateVariantInput(body, true, product.min_order_unit);
+  } catch (validationError) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: validationError instanceof ValidationError
+          ? validationError.message
+          : 'Validation failed',
+      },
+      { status: 400 }
+    );
+  }
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'No fields provided for update',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const updated = await updateVariant(id, variantId, update, session.user);
+
+    if (!updated) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Variant not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<ProductVariant>>({
+      success: true,
+      data: updated,
+      message: 'Variant updated successfully',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update variant';
+    const status = message.includes('already taken') ? 409 : 500;
+
+    console.error(`API Error (${status}):`, error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: message,
+      },
+      { status }
+    );
+  }
+}, 'editor');
+
+/**
+ * DELETE /api/products/[id]/variants/[variantId]
+ * Removes a variant from the product
+ */
+export const DELETE = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; variantId: string }> },
+  session
+) => {
+  try {
+    const { id, variantId } = await params;
+    const deleted = await deleteVariant(id, variantId, session.user);
+
+    if (!deleted) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Variant not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<{ id: string; deleted: boolean }>>({
+      success: true,
+      data: { id: variantId, deleted: true },
+      message: 'Variant deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting variant:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to delete variant',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
@@ -0,0 +1,173 @@
+/**
+ * Product Variants API Route
+ *
+ * Endpoints:
+ * - GET /api/products/[id]/variants - List a product's variants, cheapest first
+ * - POST /api/products/[id]/variants - Add variant (requires editor role)
+ *
+ * Variants belong to a product that is not in the trash.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { withAuth } from '@/lib/auth';
+import { getProductById } from '@/lib/db';
+import { getProductVariants, createVariant } from '@/lib/variants';
+import { validateVariantInput, ValidationError } from '@/lib/validation';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { ProductVariant, ProductVariantInput } from '@/types/product';
+
+/**
+ * Validate product ID format
+ */
+function isValidProductId(id: string): boolean {
+  return /^prod_\d+$/.test(id);
+}
+
+/**
+ * GET /api/products/[id]/variants
+ * Returns the product's variants
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!isValidProductId(id)) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid product ID format',
+        },
+        { status: 400 }
+      );
+    }
+
+    const product = await getProductById(id);
+    if (!product) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Product not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const variants = await getProductVariants(id);
+
+    return NextResponse.json<ApiResponse<ProductVariant[]>>({
+      success: true,
+      data: variants,
+    });
+  } catch (error) {
+    console.error('Error fetching variants:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch variants',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/products/[id]/variants
+ * Adds a variant to the product
+ *
+ * Body: { sku, price, min_order_qty, size?, thickness?, material? }
+ * min_order_qty is counted in the product's min_order_unit
+ */
+export const POST = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  const { id } = await params;
+
+  if (!isValidProductId(id)) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Invalid product ID format',
+      },
+      { status: 400 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Invalid JSON in request body',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const product = await getProductById(id);
+    if (!product) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Product not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Variant minimums are counted in the product's unit
+    let input: ProductVariantInput;
+    try {
+      input = validateVariantInput(body, false, product.min_order_unit) as ProductVariantInput;
+    } catch (validationError) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: validationError instanceof ValidationError
+            ? validationError.message
+            : 'Validation failed',
+        },
+        { status: 400 }
+      );
+    }
+
+    const variant = await createVariant(id, input, session.user);
+
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<ProductVariant>>(
+      {
+        success: true,
+        data: variant,
+        message: 'Variant created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create variant';
+    const status = message.includes('already taken') || message.includes('at most') ? 409 : 500;
+
+    console.error(`API Error (${status}):`, error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: message,
+      },
+      { status }
+    );
+  }
+}, 'editor');
+
+// Variants must always be fresh
+export const dynamic = 'force-dynamic';
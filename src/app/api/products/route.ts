@@ -2,10 +2,11 @@
  * Products API Route
  *
  * Endpoints:
- * - GET /api/products - Get all products
+ * - GET /api/products - List products (sorted, filtered and paginated)
  * - POST /api/products - Create new product
  *
  * Features:
+ * - Session authentication and role checks on writes
  * - Comprehensive error handling
  * - Input validation
  * - Structured JSON responses
@@ -14,10 +15,24 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
-import { getAllProducts, createProduct, initializeSchema, testConnection } from '@/lib/db';
-import { validateProductInput } from '@/lib/validation';
-import type { ApiResponse, ApiError } from '@/types/api';
-import type { Product } from '@/types/product';
+import { getProducts, decodeProductCursor, createProduct, initializeSchema, testConnection } from '@/lib/db';
+import { findMissingCategoryIds } from '@/lib/categories';
+import { TAX_CONFIG } from '@/lib/constants';
+import {
+  validateProductInput,
+  validateCategoryIds,
+  validatePriceTiers,
+  validateHsnCode,
+  validateGstRate,
+  validateProductImages,
+  toQuantity,
+  ValidationError,
+} from '@/lib/validation';
+import { withAuth } from '@/lib/auth';
+import type { ApiResponse, ApiError, ProductListResponse } from '@/types/api';
+import type { OrderUnit, Product, ProductImage, ProductQuery, ProductSortField, SortOrder } from '@/types/product';
+
+const SORT_FIELDS: ProductSortField[] = ['price', 'name', 'created_at', 'updated_at'];
 
 /**
  * Handle errors in a consistent way
@@ -37,12 +52,83 @@ function handleError(error: unknown, defaultMessage: string): NextResponse<ApiEr
   );
 }
 
+/**
+ * Read list options from the query string
+ * @returns Query, or an error message for the first invalid param
+ */
+function parseProductQuery(searchParams: URLSearchParams): { query: ProductQuery } | { error: string } {
+  const sort = searchParams.get('sort') || undefined;
+  if (sort && !(SORT_FIELDS as string[]).includes(sort)) {
+    return { error: `Sort must be one of: ${SORT_FIELDS.join(', ')}` };
+  }
+
+  const order = searchParams.get('order') || undefined;
+  if (order && order !== 'asc' && order !== 'desc') {
+    return { error: 'Order must be asc or desc' };
+  }
+
+  const numbers: Record<string, number | undefined> = {};
+  for (const param of ['minPrice', 'maxPrice', 'limit', 'offset']) {
+    const value = searchParams.get(param);
+    if (value === null || value === '') {
+      continue;
+    }
+
+    const number = Number(value);
+    if (isNaN(number) || number < 0) {
+      return { error: `Invalid ${param} value` };
+    }
+    numbers[param] = number;
+  }
+
+  const hasImage = searchParams.get('hasImage');
+  if (hasImage && hasImage !== 'true' && hasImage !== 'false') {
+    return { error: 'hasImage must be true or false' };
+  }
+
+  const dates: Record<string, string | undefined> = {};
+  for (const param of ['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo']) {
+    const value = searchParams.get(param);
+    if (value && isNaN(Date.parse(value))) {
+      return { error: `Invalid ${param} date` };
+    }
+    dates[param] = value || undefined;
+  }
+
+  return {
+    query: {
+      sort: sort as ProductSortField | undefined,
+      order: order as SortOrder | undefined,
+      minPrice: numbers.minPrice,
+      maxPrice: numbers.maxPrice,
+      hasImage: hasImage ? hasImage === 'true' : undefined,
+      createdFrom: dates.createdFrom,
+      createdTo: dates.createdTo,
+      updatedFrom: dates.updatedFrom,
+      updatedTo: dates.updatedTo,
+      limit: numbers.limit !== undefined ? Math.floor(numbers.limit) : undefined,
+      offset: numbers.offset !== undefined ? Math.floor(numbers.offset) : undefined,
+      cursor: searchParams.get('cursor') || undefined,
+      category: searchParams.get('category') || undefined,
+    },
+  };
+}
+
 /**
  * GET /api/products
- * Returns all products from database
+ * Returns one page of products with the total match count
  * 
- * Query params:
- * - init=true: Initialize database schema (development only)
+ * Query params (all optional):
+ * - sort: price | name | created_at | updated_at (default created_at)
+ * - order: asc | desc (default desc)
+ * - minPrice, maxPrice: inclusive price range
+ * - hasImage: true | false
+ * - createdFrom, createdTo, updatedFrom, updatedTo: ISO date or datetime bounds (inclusive)
+ * - category: category slug (includes its subcategories)
+ * - limit: page size (default UI_CONFIG.PRODUCTS_PER_PAGE)
+ * - offset: rows to skip, or
+ * - cursor: nextCursor / prevCursor from a previous page
+ * - init=true: Apply pending schema migrations (development only)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -52,11 +138,13 @@ export async function GET(request: NextRequest) {
     
     if (shouldInit) {
       try {
-        await initializeSchema();
-        return NextResponse.json<ApiResponse<{ initialized: true }>>({
+        const applied = await initializeSchema();
+        return NextResponse.json<ApiResponse<{ initialized: true; applied: string[] }>>({
           success: true,
-          data: { initialized: true },
-          message: 'Database schema initialized',
+          data: { initialized: true, applied },
+          message: applied.length > 0
+            ? `Applied ${applied.length} migration(s)`
+            : 'Database schema is up to date',
         });
       } catch (initError) {
         return handleError(initError, 'Failed to initialize database');
@@ -75,12 +163,33 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const products = await getAllProducts();
+    const parsed = parseProductQuery(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: parsed.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.query.cursor && !decodeProductCursor(parsed.query.cursor)) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid cursor',
+        },
+        { status: 400 }
+      );
+    }
+
+    const page = await getProducts(parsed.query);
 
-    return NextResponse.json<ApiResponse<Product[]>>({
+    return NextResponse.json<ProductListResponse>({
       success: true,
-      data: products,
-      message: products.length === 0 ? 'No products found' : `Found ${products.length} products`,
+      data: page,
+      message: page.total === 0 ? 'No products found' : `Found ${page.total} products`,
     });
   } catch (error) {
     return handleError(error, 'Failed to fetch products');
@@ -89,11 +198,15 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/products
- * Creates a new product
+ * Creates a new product (requires editor role)
  *
- * Body: { name, price, min_order_qty, image_path? }
+ * Body: { name, price, min_order_qty, min_order_unit?, hsn_code?, gst_rate?, image_path?, images?, category_ids?, price_tiers? }
+ * min_order_qty is a number counted in min_order_unit (default "pcs")
+ * price excludes GST; gst_rate is a percent from TAX_CONFIG.GST_RATES (default 18)
+ * price_tiers: [{ min_qty, max_qty (null for "and above"), price }]
+ * images: [{ image_path, alt_text?, is_cover? }] in display order (replaces image_path)
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, context, session) => {
   try {
     let body: Record<string, unknown>;
     
@@ -134,23 +247,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const minOrderQty = toQuantity(body.min_order_qty);
+    const minOrderUnit = body.min_order_unit ?? 'pcs';
+    const gstRate = typeof body.gst_rate === 'string' ? parseFloat(body.gst_rate) : body.gst_rate ?? TAX_CONFIG.DEFAULT_GST_RATE;
+    const categoryIds = body.category_ids ?? [];
+    const priceTiers = body.price_tiers ?? [];
     try {
       validateProductInput({
         name: body.name as string,
         price: price,
-        min_order_qty: (body.min_order_qty as string) || '',
+        min_order_qty: minOrderQty,
+        min_order_unit: minOrderUnit,
       });
+      validateHsnCode(body.hsn_code);
+      validateGstRate(gstRate);
+      validateCategoryIds(categoryIds);
+      validatePriceTiers(priceTiers);
+      if (body.images !== undefined) validateProductImages(body.images);
     } catch (validationError) {
-      return handleError(validationError, 'Validation failed');
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: validationError instanceof ValidationError
+            ? validationError.message
+            : 'Validation failed',
+        },
+        { status: 400 }
+      );
+    }
+
+    const missing = await findMissingCategoryIds(categoryIds);
+    if (missing.length > 0) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: `Unknown category: ${missing.join(', ')}`,
+        },
+        { status: 400 }
+      );
     }
 
     // Create product
     const product = await createProduct({
       name: String(body.name).trim(),
       price: price,
-      min_order_qty: String(body.min_order_qty || '').trim(),
+      min_order_qty: minOrderQty,
+      min_order_unit: minOrderUnit as OrderUnit,
+      hsn_code: body.hsn_code || null,
+      gst_rate: gstRate,
       image_path: body.image_path ? String(body.image_path) : null,
-    });
+      images: body.images as ProductImage[] | undefined,
+      category_ids: categoryIds,
+      price_tiers: priceTiers,
+    }, session.user);
 
     // Revalidate home page cache so new product shows immediately
     revalidatePath('/');
@@ -166,7 +315,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     return handleError(error, 'Failed to create product');
   }
-}
+}, 'editor');
 
 /**
  * Health check endpoint
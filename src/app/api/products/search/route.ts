@@ -0,0 +1,76 @@
+/**
+ * Product Search API Route
+ *
+ * Endpoint:
+ * - GET /api/products/search?q= - Full-text search over product names
+ *
+ * Query params:
+ * - q: search words (required; the last word may be partial)
+ * - limit: maximum results (default SEARCH_CONFIG.DEFAULT_RESULTS)
+ *
+ * Results are ranked by relevance with matched terms highlighted.
+ * When nothing matches exactly, similar names are returned instead
+ * and `fuzzy` is true (e.g. "punchng" finds "Punching").
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchProducts } from '@/lib/search';
+import { SEARCH_CONFIG } from '@/lib/constants';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { ProductSearchResult } from '@/types/product';
+
+/**
+ * GET /api/products/search
+ * Returns matching products, best first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Search query (q) is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > SEARCH_CONFIG.MAX_QUERY_LENGTH) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: `Search query must be less than ${SEARCH_CONFIG.MAX_QUERY_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '', 10) || undefined;
+    const { results, fuzzy } = await searchProducts(query, limit);
+
+    return NextResponse.json<ApiResponse<{ results: ProductSearchResult[]; fuzzy: boolean }>>({
+      success: true,
+      data: { results, fuzzy },
+      message: results.length === 0
+        ? `No products found for "${query}"`
+        : `Found ${results.length} product${results.length !== 1 ? 's' : ''}`,
+    });
+  } catch (error) {
+    console.error('Error searching products:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to search products',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Search results must always be fresh
+export const dynamic = 'force-dynamic';
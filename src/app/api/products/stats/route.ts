@@ -0,0 +1,44 @@
+/**
+ * Product Stats API Route
+ *
+ * Endpoint:
+ * - GET /api/products/stats - Catalog totals for the admin dashboard
+ *
+ * Totals cover every product, independent of the paginated list.
+ * Any signed-in admin can read them.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getProductStats } from '@/lib/db';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { ProductStats } from '@/types/product';
+
+/**
+ * GET /api/products/stats
+ * Returns product count, average price and count with images
+ */
+export const GET = withAuth(async () => {
+  try {
+    const stats = await getProductStats();
+
+    return NextResponse.json<ApiResponse<ProductStats>>({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    console.error('Error fetching product stats:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch product stats',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Stats must always be fresh
+export const dynamic = 'force-dynamic';
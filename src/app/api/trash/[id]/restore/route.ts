@@ -0,0 +1,60 @@
+/**
+ * Trash Restore API Route
+ *
+ * Endpoint:
+ * - POST /api/trash/[id]/restore - Move a product out of the trash
+ *
+ * Requires owner role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { withAuth } from '@/lib/auth';
+import { restoreDeletedProduct } from '@/lib/db';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { Product } from '@/types/product';
+
+/**
+ * POST /api/trash/[id]/restore
+ * Restores a trashed product
+ */
+export const POST = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+
+    const restored = await restoreDeletedProduct(id, session.user);
+    if (!restored) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Product not found in trash',
+        },
+        { status: 404 }
+      );
+    }
+
+    // Revalidate home page cache so the product reappears immediately
+    revalidatePath('/');
+
+    return NextResponse.json<ApiResponse<Product>>({
+      success: true,
+      data: restored,
+      message: 'Product restored',
+    });
+  } catch (error) {
+    console.error('Error restoring product:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to restore product',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
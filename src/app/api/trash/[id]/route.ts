@@ -0,0 +1,58 @@
+/**
+ * Trashed Product API Route
+ *
+ * Endpoint:
+ * - DELETE /api/trash/[id] - Permanently delete a trashed product and its image
+ *
+ * Requires owner role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getProductById } from '@/lib/db';
+import { permanentlyDeleteProduct } from '@/lib/trash';
+import type { ApiResponse, ApiError } from '@/types/api';
+
+/**
+ * DELETE /api/trash/[id]
+ * Permanently deletes a product that is in the trash
+ */
+export const DELETE = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+
+    const product = await getProductById(id, { includeDeleted: true });
+    if (!product?.deleted_at) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Product not found in trash',
+        },
+        { status: 404 }
+      );
+    }
+
+    await permanentlyDeleteProduct(product, session.user);
+
+    return NextResponse.json<ApiResponse<{ id: string; deleted: boolean }>>({
+      success: true,
+      data: { id, deleted: true },
+      message: 'Product permanently deleted',
+    });
+  } catch (error) {
+    console.error('Error permanently deleting product:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to permanently delete product',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
@@ -0,0 +1,68 @@
+/**
+ * Trash Purge API Route
+ *
+ * Endpoints:
+ * - GET /api/trash/purge - Scheduled purge (Vercel Cron, authorized by CRON_SECRET)
+ * - POST /api/trash/purge - Purge now (requires owner role)
+ *
+ * Permanently deletes products that have been in the trash
+ * longer than TRASH_RETENTION_DAYS, along with their images.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { safeCompare, unauthorizedResponse, withAuth } from '@/lib/auth';
+import { purgeExpiredProducts } from '@/lib/trash';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { AuditActor } from '@/types/audit';
+
+/**
+ * Run the purge and build the response
+ */
+async function runPurge(actor?: AuditActor) {
+  try {
+    const purged = await purgeExpiredProducts(undefined, actor);
+
+    return NextResponse.json<ApiResponse<{ purged: string[] }>>({
+      success: true,
+      data: { purged },
+      message: `Purged ${purged.length} product(s)`,
+    });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to purge trash',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/trash/purge
+ * Called by the scheduler with "Authorization: Bearer <CRON_SECRET>"
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') || '';
+
+  if (!secret || !safeCompare(header, `Bearer ${secret}`)) {
+    return unauthorizedResponse();
+  }
+
+  return runPurge();
+}
+
+/**
+ * POST /api/trash/purge
+ * Purges expired products immediately
+ */
+export const POST = withAuth(async (request, context, session) => {
+  return runPurge(session.user);
+}, 'owner');
+
+// Purge must never be cached
+export const dynamic = 'force-dynamic';
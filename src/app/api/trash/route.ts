@@ -0,0 +1,44 @@
+/**
+ * Trash API Route
+ *
+ * Endpoint:
+ * - GET /api/trash - List products in the trash, most recently deleted first
+ *
+ * Requires owner role, like deleting.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getDeletedProducts } from '@/lib/db';
+import { TRASH_CONFIG } from '@/lib/constants';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { Product } from '@/types/product';
+
+/**
+ * GET /api/trash
+ * Returns trashed products and the retention period in days
+ */
+export const GET = withAuth(async () => {
+  try {
+    const products = await getDeletedProducts();
+
+    return NextResponse.json<ApiResponse<{ products: Product[]; retentionDays: number }>>({
+      success: true,
+      data: { products, retentionDays: TRASH_CONFIG.RETENTION_DAYS },
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch trash',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
+
+// Trash must always be fresh
+export const dynamic = 'force-dynamic';
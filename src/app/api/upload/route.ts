@@ -5,17 +5,29 @@
  * - POST /api/upload - Upload and process image
  *
  * Features:
+ * - Session authentication (editor role)
  * - Multipart form data handling
- * - File validation
- * - Image processing with Sharp
- * - Vercel Blob storage
+ * - File validation: size, declared type and the real format read from
+ *   the header (JPEG/PNG/WebP, complete, within the pixel limits)
+ * - Refusals carry an ImageErrorCode for the uploader to explain
+ * - Duplicate check: images that look like a stored upload are refused
+ *   with 409 and the matches (send allowDuplicate=true to upload anyway)
+ * - Image processing with Sharp (auto-rotate, strip metadata, resize,
+ *   AVIF/WebP/JPEG renditions in three sizes)
+ * - Stored in the configured backend (Vercel Blob, local disk or S3)
+ * - Recorded in the uploads ledger (unused uploads are swept later)
+ * - Audit log entry per upload
  * - Comprehensive error handling
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { processAndSaveImage, validateImageBuffer } from '@/lib/imageProcessor';
-import { validateImageFile } from '@/lib/validation';
-import type { ApiResponse, ApiError, ImageUploadResponse } from '@/types/api';
+import { hashImage, processAndSaveImage, validateImageBuffer } from '@/lib/imageProcessor';
+import { ImageValidationError, validateImageFile } from '@/lib/validation';
+import { withAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { findDuplicateUploads, recordUpload } from '@/lib/uploads';
+import type { ApiResponse, ApiError, ImageUploadError, ImageUploadResponse } from '@/types/api';
+import type { DuplicateImage, ProcessedImage } from '@/types/image';
 
 /**
  * Maximum file size from environment or default (5MB)
@@ -24,9 +36,9 @@ const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '5242880', 10);
 
 /**
  * POST /api/upload
- * Uploads and processes an image file
+ * Uploads and processes an image file (requires editor role)
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, context, session) => {
   try {
     // Check content type
     const contentType = request.headers.get('content-type');
@@ -58,10 +70,11 @@ export async function POST(request: NextRequest) {
     const file = formData.get('image') as File | null;
 
     if (!file) {
-      return NextResponse.json<ApiError>(
+      return NextResponse.json<ImageUploadError>(
         {
           success: false,
           error: 'No image file provided. Please upload an image.',
+          code: 'file_missing',
         },
         { status: 400 }
       );
@@ -69,10 +82,11 @@ export async function POST(request: NextRequest) {
 
     // Validate file type
     if (!(file instanceof File)) {
-      return NextResponse.json<ApiError>(
+      return NextResponse.json<ImageUploadError>(
         {
           success: false,
           error: 'Invalid file upload',
+          code: 'file_missing',
         },
         { status: 400 }
       );
@@ -80,20 +94,22 @@ export async function POST(request: NextRequest) {
 
     // Check file size
     if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json<ApiError>(
+      return NextResponse.json<ImageUploadError>(
         {
           success: false,
           error: `File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+          code: 'file_too_large',
         },
         { status: 400 }
       );
     }
 
     if (file.size === 0) {
-      return NextResponse.json<ApiError>(
+      return NextResponse.json<ImageUploadError>(
         {
           success: false,
           error: 'Empty file uploaded',
+          code: 'file_empty',
         },
         { status: 400 }
       );
@@ -103,12 +119,13 @@ export async function POST(request: NextRequest) {
     try {
       validateImageFile(file);
     } catch (validationError) {
-      return NextResponse.json<ApiError>(
+      return NextResponse.json<ImageUploadError>(
         {
           success: false,
           error: validationError instanceof Error 
             ? validationError.message 
             : 'Invalid file type',
+          code: validationError instanceof ImageValidationError ? validationError.code : 'type_not_allowed',
         },
         { status: 400 }
       );
@@ -129,49 +146,112 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate image buffer
+    // Validate image buffer (format, completeness, size, declared type)
     try {
-      await validateImageBuffer(buffer);
+      await validateImageBuffer(buffer, file.type);
     } catch (validationError) {
-      return NextResponse.json<ApiError>(
+      return NextResponse.json<ImageUploadError>(
         {
           success: false,
           error: validationError instanceof Error 
             ? validationError.message 
             : 'Invalid image file',
+          code: validationError instanceof ImageValidationError ? validationError.code : 'format_unknown',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Hash what the image looks like (also catches files Sharp can't decode)
+    let hash: string;
+    try {
+      hash = await hashImage(buffer);
+    } catch (hashError) {
+      return NextResponse.json<ImageUploadError>(
+        {
+          success: false,
+          error: hashError instanceof Error ? hashError.message : 'Invalid image file',
+          code: 'format_corrupt',
         },
         { status: 400 }
       );
     }
 
+    // Offer stored look-alikes instead of storing the image again
+    if (formData.get('allowDuplicate') !== 'true') {
+      let duplicates: DuplicateImage[] = [];
+      try {
+        duplicates = await findDuplicateUploads(hash);
+      } catch (duplicateError) {
+        console.warn('Duplicate check skipped:', duplicateError);
+      }
+
+      if (duplicates.length > 0) {
+        return NextResponse.json<ImageUploadError>(
+          {
+            success: false,
+            error: 'This image looks like one that has already been uploaded',
+            code: 'duplicate',
+            details: { duplicates },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // Generate unique filename
     const timestamp = Date.now();
     const randomString = Math.random().toString(36).substring(2, 8);
     const filename = `img_${timestamp}_${randomString}`;
 
     // Process and save image
-    let imagePath: string;
+    let image: ProcessedImage;
     try {
-      imagePath = await processAndSaveImage(buffer, filename);
+      image = await processAndSaveImage(buffer, filename);
     } catch (processError) {
       console.error('Image processing error:', processError);
+      const message = processError instanceof Error ? processError.message : 'Failed to process image';
+
+      // Files that can't be decoded are the client's problem; storage failures are ours
+      if (message.includes('corrupt')) {
+        return NextResponse.json<ImageUploadError>(
+          {
+            success: false,
+            error: message,
+            code: 'format_corrupt',
+          },
+          { status: 400 }
+        );
+      }
+
       return NextResponse.json<ApiError>(
         {
           success: false,
-          error: processError instanceof Error 
-            ? processError.message 
-            : 'Failed to process image',
+          error: message,
         },
         { status: 500 }
       );
     }
 
+    // Without a ledger entry the image is never swept, but it still works
+    try {
+      await recordUpload(image, hash, session.user);
+    } catch (ledgerError) {
+      console.warn('Upload not recorded in ledger:', image.imagePath, ledgerError);
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'image.upload',
+      after: { imagePath: image.imagePath, originalName: file.name, size: file.size },
+    });
+
     // Success response
     return NextResponse.json<ImageUploadResponse>(
       {
         success: true,
         data: {
-          imagePath,
+          ...image,
           originalName: file.name,
           size: file.size,
         },
@@ -191,7 +271,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'editor');
 
 /**
  * GET /api/upload
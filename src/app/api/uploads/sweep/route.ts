@@ -0,0 +1,82 @@
+/**
+ * Upload Sweep API Route
+ *
+ * Endpoints:
+ * - GET /api/uploads/sweep - Dry run: list uploads that would be deleted
+ * - POST /api/uploads/sweep - Delete them now
+ *
+ * Both require owner role and accept ?graceHours=N (default
+ * UPLOAD_GRACE_HOURS) to only include uploads unused for N hours.
+ * Uploads count as unused when no product (active or trashed) and no
+ * revision from the last REVISION_RETENTION_DAYS shows them: abandoned
+ * uploads, and images replaced on a product once the revisions showing
+ * them have expired. A real sweep prunes expired revisions first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { sweepOrphanedUploads } from '@/lib/uploads';
+import { UPLOAD_CONFIG } from '@/lib/constants';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { AuditActor } from '@/types/audit';
+import type { UploadSweepReport } from '@/types/image';
+
+/**
+ * Run the sweep and build the response
+ */
+async function runSweep(request: NextRequest, dryRun: boolean, actor: AuditActor) {
+  const param = new URL(request.url).searchParams.get('graceHours');
+  const graceHours = param === null ? UPLOAD_CONFIG.GRACE_HOURS : Number(param);
+
+  if (!Number.isInteger(graceHours) || graceHours < 0) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'graceHours must be a whole number of hours (0 or more)',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await sweepOrphanedUploads({ dryRun, graceHours, actor });
+
+    return NextResponse.json<ApiResponse<UploadSweepReport>>({
+      success: true,
+      data: report,
+      message: dryRun
+        ? `${report.orphaned.length} unused upload(s) would be deleted`
+        : `Deleted ${report.deleted.length} unused upload(s)${report.failed.length > 0 ? `, ${report.failed.length} failed` : ''}`,
+    });
+  } catch (error) {
+    console.error('Error sweeping uploads:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to sweep uploads',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/uploads/sweep
+ * Reports unused uploads without deleting anything
+ */
+export const GET = withAuth(async (request, context, session) => {
+  return runSweep(request, true, session.user);
+}, 'owner');
+
+/**
+ * POST /api/uploads/sweep
+ * Deletes unused uploads past the grace period
+ */
+export const POST = withAuth(async (request, context, session) => {
+  return runSweep(request, false, session.user);
+}, 'owner');
+
+// Sweep results must never be cached
+export const dynamic = 'force-dynamic';
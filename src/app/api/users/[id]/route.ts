@@ -0,0 +1,192 @@
+/**
+ * User By ID API Route
+ *
+ * Endpoints:
+ * - PATCH /api/users/[id] - Change role, reset password or reset 2FA
+ * - DELETE /api/users/[id] - Remove account and revoke its sessions
+ *
+ * Owner role required. The last remaining owner cannot be
+ * demoted or deleted, so the panel can never be locked out.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getUserById, updateUser, deleteUser, countUsers } from '@/lib/users';
+import { disableTwoFactor } from '@/lib/twoFactor';
+import { validatePassword, validateUserRole, ValidationError } from '@/lib/validation';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { User, UserUpdate } from '@/types/user';
+
+/**
+ * PATCH /api/users/[id]
+ * Updates a user's role or password, or turns off 2FA for a lost device
+ *
+ * Body: { role?, password?, resetTwoFactor? }
+ */
+export const PATCH = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Invalid request body',
+        },
+        { status: 400 }
+      );
+    }
+
+    const update: UserUpdate = {};
+
+    try {
+      if (body.role !== undefined) {
+        const role = String(body.role);
+        validateUserRole(role);
+        update.role = role;
+      }
+      if (body.password !== undefined) {
+        validatePassword(String(body.password));
+        update.password = String(body.password);
+      }
+    } catch (validationError) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: validationError instanceof ValidationError
+            ? validationError.message
+            : 'Validation failed',
+        },
+        { status: 400 }
+      );
+    }
+
+    const resetTwoFactor = body.resetTwoFactor === true;
+
+    if (Object.keys(update).length === 0 && !resetTwoFactor) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'No fields provided for update',
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getUserById(id);
+    if (!existing) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'User not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (existing.role === 'owner' && update.role && update.role !== 'owner') {
+      if ((await countUsers('owner')) <= 1) {
+        return NextResponse.json<ApiError>(
+          {
+            success: false,
+            error: 'Cannot demote the last owner',
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (resetTwoFactor) {
+      await disableTwoFactor(id);
+    }
+
+    const updated = await updateUser(id, update);
+
+    return NextResponse.json<ApiResponse<User>>({
+      success: true,
+      data: updated!,
+      message: 'User updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating user:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to update user',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
+
+/**
+ * DELETE /api/users/[id]
+ * Deletes a user (owners cannot delete themselves)
+ */
+export const DELETE = withAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+
+    if (id === session.user.id) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'You cannot delete your own account',
+        },
+        { status: 409 }
+      );
+    }
+
+    const existing = await getUserById(id);
+    if (!existing) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'User not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    if (existing.role === 'owner' && (await countUsers('owner')) <= 1) {
+      return NextResponse.json<ApiError>(
+        {
+          success: false,
+          error: 'Cannot delete the last owner',
+        },
+        { status: 409 }
+      );
+    }
+
+    await deleteUser(id);
+
+    return NextResponse.json<ApiResponse<{ id: string; deleted: boolean }>>({
+      success: true,
+      data: { id, deleted: true },
+      message: 'User deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to delete user',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
@@ -0,0 +1,115 @@
+/**
+ * Users API Route
+ *
+ * Endpoints:
+ * - GET /api/users - List admin accounts
+ * - POST /api/users - Create admin account
+ *
+ * Owner role required for all endpoints
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getAllUsers, createUser } from '@/lib/users';
+import {
+  validateUsername,
+  validatePassword,
+  validateUserRole,
+  ValidationError,
+} from '@/lib/validation';
+import type { ApiResponse, ApiError } from '@/types/api';
+import type { User } from '@/types/user';
+
+/**
+ * GET /api/users
+ * Returns all admin accounts (without password hashes)
+ */
+export const GET = withAuth(async () => {
+  try {
+    const users = await getAllUsers();
+
+    return NextResponse.json<ApiResponse<User[]>>({
+      success: true,
+      data: users,
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Failed to fetch users',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}, 'owner');
+
+/**
+ * POST /api/users
+ * Creates a new admin account
+ *
+ * Body: { username, password, role }
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  let body: Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: 'Invalid JSON in request body',
+      },
+      { status: 400 }
+    );
+  }
+
+  const username = String(body.username || '');
+  const password = String(body.password || '');
+  const role = String(body.role || '');
+
+  try {
+    validateUsername(username);
+    validatePassword(password);
+    validateUserRole(role);
+  } catch (validationError) {
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: validationError instanceof ValidationError
+          ? validationError.message
+          : 'Validation failed',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await createUser({ username, password, role });
+
+    return NextResponse.json<ApiResponse<User>>(
+      {
+        success: true,
+        data: user,
+        message: 'User created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create user';
+    const status = message.includes('already taken') ? 409 : 500;
+
+    console.error(`API Error (${status}):`, error);
+
+    return NextResponse.json<ApiError>(
+      {
+        success: false,
+        error: message,
+      },
+      { status }
+    );
+  }
+}, 'owner');
@@ -0,0 +1,125 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getProducts, decodeProductCursor } from '@/lib/db';
+import { getAllCategories, getCategoryBySlug, getCategoryPath } from '@/lib/categories';
+import ProductCard from '@/components/ProductCard';
+import { CategoryChips, SortChips, Pagination, getSortOption } from '@/components/CatalogNav';
+import type { Product } from '@/types/product';
+import type { Category } from '@/types/category';
+
+interface CategoryPageProps {
+  params: { slug: string };
+  searchParams: { sort?: string; order?: string; cursor?: string };
+}
+
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
+  const category = await getCategoryBySlug(params.slug);
+  if (!category) {
+    notFound();
+  }
+
+  let products: Product[] = [];
+  let total = 0;
+  let nextCursor: string | null = null;
+  let prevCursor: string | null = null;
+  let path: Category[] = [];
+  let subcategories: Category[] = [];
+  let error: string | null = null;
+
+  // Unknown sort values and stale cursors fall back to the first page, newest first
+  const selected = getSortOption(searchParams.sort, searchParams.order);
+  const cursor =
+    searchParams.cursor && decodeProductCursor(searchParams.cursor) ? searchParams.cursor : undefined;
+  const basePath = `/category/${category.slug}`;
+
+  try {
+    path = await getCategoryPath(category);
+    subcategories = (await getAllCategories()).filter(c => c.parent_id === category.id);
+
+    // Products in this category and all of its subcategories
+    ({ products, total, nextCursor, prevCursor } = await getProducts({
+      category: category.slug,
+      sort: selected.sort,
+      order: selected.order,
+      cursor,
+    }));
+  } catch (err) {
+    console.error(`Error loading category ${category.slug}:`, err);
+    error = err instanceof Error ? err.message : 'Failed to load products';
+  }
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm text-gray-500" aria-label="Breadcrumb">
+        <ol className="flex flex-wrap items-center gap-1">
+          <li>
+            <Link href="/" className="hover:text-primary">All Products</Link>
+          </li>
+          {path.map((ancestor) => (
+            <li key={ancestor.id} className="flex items-center gap-1">
+              <span aria-hidden="true">/</span>
+              <Link href={`/category/${ancestor.slug}`} className="hover:text-primary">
+                {ancestor.name}
+              </Link>
+            </li>
+          ))}
+          <li className="flex items-center gap-1">
+            <span aria-hidden="true">/</span>
+            <span className="text-gray-800" aria-current="page">{category.name}</span>
+          </li>
+        </ol>
+      </nav>
+
+      {/* Page Header */}
+      <div className="mb-6 sm:mb-8">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-gray-800 mb-2">
+          {category.name}
+        </h1>
+        {category.description && (
+          <p className="text-sm sm:text-base text-gray-600 mb-1">{category.description}</p>
+        )}
+        <p className="text-sm sm:text-base text-gray-600">
+          {total} product{total !== 1 ? 's' : ''}
+        </p>
+      </div>
+
+      {/* Subcategories */}
+      <CategoryChips categories={subcategories} label="Subcategories" />
+
+      {/* Sort Options */}
+      {total > 1 && <SortChips basePath={basePath} selected={selected} />}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-4 rounded-lg">
+          <h3 className="font-semibold mb-1">Unable to load products</h3>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Products Grid */}
+      {products.length === 0 && !error ? (
+        <div className="text-center py-12 sm:py-16">
+          <div className="bg-white rounded-lg shadow-md p-8 sm:p-12 max-w-md mx-auto">
+            <p className="text-gray-500 text-base sm:text-lg mb-2">No products in this category yet</p>
+            <Link href="/" className="text-primary text-sm hover:underline">
+              Browse all products
+            </Link>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
+          {products.map((product) => (
+            <ProductCard key={product.id} product={product} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      <Pagination basePath={basePath} selected={selected} prevCursor={prevCursor} nextCursor={nextCursor} />
+    </div>
+  );
+}
+
+export const revalidate = 0;
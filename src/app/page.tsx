@@ -1,18 +1,55 @@
-import { getAllProducts, testConnection } from '@/lib/db';
+import Link from 'next/link';
+import { getProducts, decodeProductCursor, testConnection } from '@/lib/db';
+import { searchProducts } from '@/lib/search';
+import { SEARCH_CONFIG } from '@/lib/constants';
+import { getAllCategories } from '@/lib/categories';
 import ProductCard from '@/components/ProductCard';
+import { CategoryChips, SortChips, Pagination, getSortOption } from '@/components/CatalogNav';
 import type { Product } from '@/types/product';
+import type { Category } from '@/types/category';
 
-export default async function HomePage() {
+interface HomePageProps {
+  searchParams: { q?: string; sort?: string; order?: string; cursor?: string };
+}
+
+export default async function HomePage({ searchParams }: HomePageProps) {
   let products: Product[] = [];
+  let total = 0;
+  let nextCursor: string | null = null;
+  let prevCursor: string | null = null;
+  let categories: Category[] = [];
+  let highlights: Record<string, string> = {};
+  let fuzzy = false;
   let error: string | null = null;
   let dbConnected = false;
 
+  // Unknown sort values and stale cursors fall back to the first page, newest first
+  const selected = getSortOption(searchParams.sort, searchParams.order);
+  const cursor =
+    searchParams.cursor && decodeProductCursor(searchParams.cursor) ? searchParams.cursor : undefined;
+  const query = (searchParams.q || '').trim().slice(0, SEARCH_CONFIG.MAX_QUERY_LENGTH);
+
   try {
     // Test database connection first
     dbConnected = await testConnection();
-    
+
     if (dbConnected) {
-      products = await getAllProducts();
+      categories = (await getAllCategories()).filter(c => !c.parent_id);
+    }
+    
+    if (dbConnected && query) {
+      // Search shows the best matches on one page
+      const search = await searchProducts(query, SEARCH_CONFIG.MAX_RESULTS);
+      products = search.results.map(result => result.product);
+      highlights = Object.fromEntries(search.results.map(result => [result.product.id, result.highlight]));
+      total = products.length;
+      fuzzy = search.fuzzy;
+    } else if (dbConnected) {
+      ({ products, total, nextCursor, prevCursor } = await getProducts({
+        sort: selected.sort,
+        order: selected.order,
+        cursor,
+      }));
     } else {
       error = 'Database connection failed';
     }
@@ -29,10 +66,51 @@ export default async function HomePage() {
           Our Products
         </h1>
         <p className="text-sm sm:text-base text-gray-600">
-          Browse our catalog of {products.length} product{products.length !== 1 ? 's' : ''}
+          {query
+            ? `${total} ${fuzzy ? 'similar ' : ''}product${total !== 1 ? 's' : ''} for "${query}"`
+            : `Browse our catalog of ${total} product${total !== 1 ? 's' : ''}`}
         </p>
       </div>
 
+      {/* Search */}
+      <form action="/" method="get" className="mb-4 flex gap-2" role="search">
+        <input
+          type="search"
+          name="q"
+          defaultValue={query}
+          maxLength={SEARCH_CONFIG.MAX_QUERY_LENGTH}
+          placeholder="Search products..."
+          aria-label="Search products"
+          className="flex-grow min-w-0 px-4 py-3 text-base border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+        />
+        <button
+          type="submit"
+          className="bg-primary text-white py-3 px-5 rounded-md font-medium hover:bg-blue-600 active:scale-95 transition-all touch-manipulation"
+        >
+          Search
+        </button>
+        {query && (
+          <Link
+            href="/"
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-3 px-4 rounded-md font-medium touch-manipulation"
+          >
+            Clear
+          </Link>
+        )}
+      </form>
+
+      {fuzzy && (
+        <p className="mb-6 text-sm text-gray-600">
+          No exact matches - showing products with similar names.
+        </p>
+      )}
+
+      {/* Categories */}
+      {!query && <CategoryChips categories={categories} label="Categories" />}
+
+      {/* Sort Options */}
+      {!query && total > 1 && <SortChips basePath="/" selected={selected} />}
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-4 rounded-lg">
@@ -68,17 +146,24 @@ export default async function HomePage() {
                 d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4"
               />
             </svg>
-            <p className="text-gray-500 text-base sm:text-lg mb-2">No products available yet</p>
-            <p className="text-gray-400 text-sm">Check back soon for new items!</p>
+            <p className="text-gray-500 text-base sm:text-lg mb-2">
+              {query ? 'No products match your search' : 'No products available yet'}
+            </p>
+            <p className="text-gray-400 text-sm">
+              {query ? 'Try different or fewer words.' : 'Check back soon for new items!'}
+            </p>
           </div>
         </div>
       ) : (
         <div className="grid grid-cols-1 xs:grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
           {products.map((product) => (
-            <ProductCard key={product.id} product={product} />
+            <ProductCard key={product.id} product={product} highlight={highlights[product.id]} />
           ))}
         </div>
       )}
+
+      {/* Pagination */}
+      <Pagination basePath="/" selected={selected} prevCursor={prevCursor} nextCursor={nextCursor} />
     </div>
   );
 }
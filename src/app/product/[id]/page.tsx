@@ -0,0 +1,133 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getProductById } from '@/lib/db';
+import { getAllCategories, getCategoryPath } from '@/lib/categories';
+import { formatPriceWithGst, formatTierRange } from '@/lib/pricing';
+import { formatOrderQuantity, singularUnit } from '@/lib/units';
+import ProductGallery from '@/components/ProductGallery';
+import { formatVariantLabel, type ProductImage } from '@/types/product';
+import type { Category } from '@/types/category';
+
+interface ProductPageProps {
+  params: { id: string };
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const product = await getProductById(params.id);
+  if (!product) {
+    notFound();
+  }
+
+  // Breadcrumb follows the product's first category
+  let path: Category[] = [];
+  try {
+    const category = (await getAllCategories()).find(c => c.id === product.category_ids[0]);
+    if (category) {
+      path = [...(await getCategoryPath(category)), category];
+    }
+  } catch (err) {
+    console.error(`Error loading categories for product ${product.id}:`, err);
+  }
+
+  const images: ProductImage[] = product.images.length > 0
+    ? product.images
+    : product.image_path
+      ? [{ image_path: product.image_path, alt_text: null, is_cover: true }]
+      : [];
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 lg:py-12">
+      {/* Breadcrumb */}
+      <nav className="mb-4 text-sm text-gray-500" aria-label="Breadcrumb">
+        <ol className="flex flex-wrap items-center gap-1">
+          <li>
+            <Link href="/" className="hover:text-primary">All Products</Link>
+          </li>
+          {path.map((ancestor) => (
+            <li key={ancestor.id} className="flex items-center gap-1">
+              <span aria-hidden="true">/</span>
+              <Link href={`/category/${ancestor.slug}`} className="hover:text-primary">
+                {ancestor.name}
+              </Link>
+            </li>
+          ))}
+          <li className="flex items-center gap-1">
+            <span aria-hidden="true">/</span>
+            <span className="text-gray-800" aria-current="page">{product.name}</span>
+          </li>
+        </ol>
+      </nav>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-10">
+        {/* Gallery */}
+        <ProductGallery images={images} productName={product.name} />
+
+        {/* Details */}
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-800 mb-3">{product.name}</h1>
+
+          <p className="text-2xl sm:text-3xl font-bold text-primary mb-1">
+            {product.variants.length > 1 && <span className="text-base font-normal text-gray-500 mr-2">from</span>}
+            {formatPriceWithGst(product.variants[0]?.price ?? product.price, product.gst_rate)}
+            <span className="text-base font-normal text-gray-500"> per {singularUnit(product.min_order_unit)}</span>
+          </p>
+          <p className="mb-4 text-sm text-gray-500">
+            GST {product.gst_rate}%{product.hsn_code && ` · HSN ${product.hsn_code}`}
+          </p>
+
+          <div className="text-sm text-gray-600 bg-gray-50 px-3 py-2 rounded mb-4">
+            Min. Order: <span className="font-medium text-gray-800">
+              {formatOrderQuantity(product.min_order_qty, product.min_order_unit)}
+            </span>
+          </div>
+
+          {product.variants.length > 0 && (
+            <div className="mb-4 overflow-x-auto">
+              <h2 className="text-sm font-medium text-gray-700 mb-2">Options</h2>
+              <table className="w-full text-sm text-gray-600">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-1 font-medium">Option</th>
+                    <th className="py-1 font-medium">SKU</th>
+                    <th className="py-1 font-medium">Min. Order</th>
+                    <th className="py-1 font-medium text-right">Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {product.variants.map((variant) => (
+                    <tr key={variant.id} className="border-t border-gray-100">
+                      <td className="py-1.5 pr-2">{formatVariantLabel(variant)}</td>
+                      <td className="py-1.5 pr-2 text-gray-500">{variant.sku}</td>
+                      <td className="py-1.5 pr-2">{formatOrderQuantity(variant.min_order_qty, product.min_order_unit)}</td>
+                      <td className="py-1.5 text-right font-medium text-gray-800">
+                        {formatPriceWithGst(variant.price, product.gst_rate)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {product.price_tiers.length > 0 && (
+            <table className="w-full text-sm text-gray-600">
+              <caption className="text-left text-sm font-medium text-gray-700 mb-2">Volume pricing</caption>
+              <tbody>
+                {product.price_tiers.map((tier) => (
+                  <tr key={tier.min_qty} className="border-t border-gray-100">
+                    <td className="py-1.5">{formatTierRange(tier)} {product.min_order_unit}</td>
+                    <td className="py-1.5 text-right font-medium text-gray-800">
+                      {formatPriceWithGst(tier.price, product.gst_rate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const revalidate = 0;
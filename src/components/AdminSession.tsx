@@ -0,0 +1,22 @@
+/**
+ * AdminSession Context
+ *
+ * Shares the signed-in admin user from AdminLayout with admin pages
+ * so they can hide actions the user's role doesn't allow.
+ */
+
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { SessionData } from '@/types/api';
+
+export type AdminUser = SessionData['user'];
+
+export const AdminSessionContext = createContext<AdminUser | null>(null);
+
+/**
+ * Get the signed-in admin user (null outside the admin layout)
+ */
+export function useAdminUser(): AdminUser | null {
+  return useContext(AdminSessionContext);
+}
@@ -0,0 +1,119 @@
+/**
+ * Catalog Navigation Components
+ *
+ * Link-based controls shared by the storefront pages:
+ * - Category chips
+ * - Sort chips
+ * - Previous / next pagination
+ *
+ * Everything is a plain link, so the pages stay server-rendered.
+ */
+
+import Link from 'next/link';
+import type { Category } from '@/types/category';
+import type { ProductSortField, SortOrder } from '@/types/product';
+
+export interface SortOption {
+  label: string;
+  sort: ProductSortField;
+  order: SortOrder;
+}
+
+// Sort choices offered on the storefront
+export const SORT_OPTIONS: SortOption[] = [
+  { label: 'Newest', sort: 'created_at', order: 'desc' },
+  { label: 'Price: Low to High', sort: 'price', order: 'asc' },
+  { label: 'Price: High to Low', sort: 'price', order: 'desc' },
+  { label: 'Name', sort: 'name', order: 'asc' },
+];
+
+/**
+ * Find the sort option matching the query string (newest first if none)
+ */
+export function getSortOption(sort?: string, order?: string): SortOption {
+  return SORT_OPTIONS.find(o => o.sort === sort && o.order === order) || SORT_OPTIONS[0];
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border touch-manipulation transition-colors ${
+    active
+      ? 'bg-primary border-primary text-white'
+      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+  }`;
+
+interface CategoryChipsProps {
+  categories: Category[];
+  label: string;
+}
+
+export function CategoryChips({ categories, label }: CategoryChipsProps) {
+  if (categories.length === 0) return null;
+
+  return (
+    <nav className="mb-4 flex flex-wrap items-center gap-2 text-sm" aria-label={label}>
+      <span className="text-gray-600">{label}:</span>
+      {categories.map((category) => (
+        <Link key={category.id} href={`/category/${category.slug}`} className={chipClass(false)}>
+          {category.name}
+        </Link>
+      ))}
+    </nav>
+  );
+}
+
+interface SortChipsProps {
+  basePath: string;
+  selected: SortOption;
+}
+
+export function SortChips({ basePath, selected }: SortChipsProps) {
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600">Sort by:</span>
+      {SORT_OPTIONS.map((option) => (
+        <Link
+          key={option.label}
+          href={`${basePath}?sort=${option.sort}&order=${option.order}`}
+          className={chipClass(option === selected)}
+        >
+          {option.label}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+interface PaginationProps {
+  basePath: string;
+  selected: SortOption;
+  prevCursor: string | null;
+  nextCursor: string | null;
+}
+
+export function Pagination({ basePath, selected, prevCursor, nextCursor }: PaginationProps) {
+  if (!prevCursor && !nextCursor) return null;
+
+  const pageHref = (cursor: string) =>
+    `${basePath}?sort=${selected.sort}&order=${selected.order}&cursor=${encodeURIComponent(cursor)}`;
+
+  return (
+    <nav className="mt-8 flex justify-between gap-4" aria-label="Pagination">
+      {prevCursor ? (
+        <Link
+          href={pageHref(prevCursor)}
+          className="bg-white border border-gray-300 text-gray-700 py-2 px-4 rounded-md font-medium hover:bg-gray-100 touch-manipulation"
+        >
+          ← Previous
+        </Link>
+      ) : <span />}
+      {nextCursor && (
+        <Link
+          href={pageHref(nextCursor)}
+          className="bg-primary text-white py-2 px-4 rounded-md font-medium hover:bg-blue-600 touch-manipulation"
+        >
+          Next →
+        </Link>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { IMAGE_CONFIG } from '@/lib/constants';
+import { cropRect, defaultEdit, drawEdit, loadImage, panEdit, renderEditedImage } from '@/lib/imageEditing';
+import type { ImageEdit } from '@/types/image';
+
+interface ImageEditorProps {
+  file: File;
+  /** Place of this photo in the batch being edited (1-based) */
+  position: number;
+  total: number;
+  /** Called with the edited, compressed photo */
+  onDone: (file: File) => void;
+  /** Called when the photo is left out */
+  onCancel: () => void;
+}
+
+// Preview canvas width in pixels (shown scaled to fit)
+const PREVIEW_WIDTH = 640;
+
+/**
+ * Crop, rotate and adjust a photo before upload
+ * Drag the preview to move the crop; the zoom slider crops tighter.
+ * What the preview shows is what gets uploaded.
+ */
+export default function ImageEditor({ file, position, total, onDone, onCancel }: ImageEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [edit, setEdit] = useState<ImageEdit>(defaultEdit);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setImage(null);
+    setEdit(defaultEdit());
+    setError('');
+
+    loadImage(file)
+      .then(loaded => !cancelled && setImage(loaded))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to open image'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+
+    const rect = cropRect(image, edit);
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round(PREVIEW_WIDTH * (rect.height / rect.width));
+    drawEdit(canvas, image, edit);
+  }, [image, edit]);
+
+  const update = (changes: Partial<ImageEdit>) => {
+    setEdit(prev => ({ ...prev, ...changes }));
+  };
+
+  const rotate = (degrees: 90 | -90) => {
+    // Re-centre: the old position means something else once turned
+    update({ rotation: ((edit.rotation + degrees + 360) % 360) as ImageEdit['rotation'], centerX: 0.5, centerY: 0.5 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragRef.current;
+    if (!start || !image) return;
+
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    const shownWidth = e.currentTarget.getBoundingClientRect().width;
+    setEdit(prev => panEdit(image, prev, dx, dy, shownWidth));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleDone = async () => {
+    if (!image) return;
+
+    setSaving(true);
+    setError('');
+
+    try {
+      onDone(await renderEditedImage(file, image, edit));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare image');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 sm:p-4 space-y-4 bg-gray-50">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-700 truncate">
+          Edit {file.name}
+        </p>
+        {total > 1 && (
+          <span className="text-xs text-gray-500 flex-shrink-0">
+            {position} of {total}
+          </span>
+        )}
+      </div>
+
+      <div className="flex justify-center bg-gray-200 rounded-md overflow-hidden">
+        {image ? (
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            aria-label="Photo preview - drag to move the crop"
+            className="max-w-full max-h-80 w-auto h-auto cursor-move touch-none"
+          />
+        ) : (
+          <div className="w-full aspect-square max-h-80 flex items-center justify-center">
+            {!error && (
+              <div className="animate-spin rounded-full h-8 w-8 border-4 border-primary border-t-transparent"></div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div>
+          <span className="block text-xs font-medium text-gray-600 mb-1">Shape</span>
+          <div className="flex flex-wrap gap-1">
+            {IMAGE_CONFIG.CROP_ASPECT_RATIOS.map(option => (
+              <button
+                key={option.label}
+                type="button"
+                onClick={() => update({ aspect: option.value, zoom: 1 })}
+                aria-pressed={edit.aspect === option.value}
+                className={`px-2.5 py-1 rounded-md border text-xs touch-manipulation ${
+                  edit.aspect === option.value
+                    ? 'bg-primary text-white border-primary'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-xs font-medium text-gray-600 mb-1">Rotate</span>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => rotate(-90)}
+              aria-label="Rotate left"
+              className="px-3 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-100 touch-manipulation"
+            >
+              ↺
+            </button>
+            <button
+              type="button"
+              onClick={() => rotate(90)}
+              aria-label="Rotate right"
+              className="px-3 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-100 touch-manipulation"
+            >
+              ↻
+            </button>
+          </div>
+        </div>
+
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 mb-1">Zoom</span>
+          <input
+            type="range"
+            min={1}
+            max={IMAGE_CONFIG.MAX_CROP_ZOOM}
+            step={0.05}
+            value={edit.zoom}
+            onChange={(e) => update({ zoom: Number(e.target.value) })}
+            className="w-full accent-primary"
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 mb-1">Brightness ({edit.brightness}%)</span>
+          <input
+            type="range"
+            min={50}
+            max={150}
+            value={edit.brightness}
+            onChange={(e) => update({ brightness: Number(e.target.value) })}
+            className="w-full accent-primary"
+          />
+        </label>
+
+        <label className="block">
+          <span className="block text-xs font-medium text-gray-600 mb-1">Contrast ({edit.contrast}%)</span>
+          <input
+            type="range"
+            min={50}
+            max={150}
+            value={edit.contrast}
+            onChange={(e) => update({ contrast: Number(e.target.value) })}
+            className="w-full accent-primary"
+          />
+        </label>
+
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={() => setEdit(defaultEdit())}
+            className="text-xs text-gray-600 underline hover:text-gray-800"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">{error}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleDone}
+          disabled={!image || saving}
+          className="flex-1 bg-primary hover:bg-blue-600 text-white font-semibold py-2 px-4 rounded-md disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+        >
+          {saving ? 'Preparing...' : total > position ? 'Use photo and continue' : 'Use photo'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="px-4 py-2 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50 touch-manipulation"
+        >
+          Leave out
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,186 +1,364 @@
 /**
  * ImageUpload Component
  *
- * Handles image file selection and upload with:
- * - File validation with clear error messages
- * - Preview before upload
- * - Upload progress indication
- * - Success/error handling
- * - Mobile-optimized camera access
+ * Manages a product's image gallery:
+ * - Pick several files or take a photo with the camera
+ * - Each photo is cropped, rotated and adjusted (ImageEditor) and
+ *   recompressed in the browser to fit IMAGE_CONFIG before upload
+ * - Clear validation messages (the server says which check failed;
+ *   each has a hint on how to fix the file)
+ * - Drag to reorder (arrow buttons on touch screens)
+ * - Cover selection, alt text and per-image removal
+ * - Warns when a photo was uploaded before and offers to reuse it
+ * - Upload progress from XHR upload events
+ *
+ * The gallery is controlled by the parent form; removed images are
+ * only dropped from the product when the form is saved.
  */
 
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useRef, useState } from 'react';
+import { IMAGE_CONFIG } from '@/lib/constants';
+import ImageEditor from './ImageEditor';
+import ResponsiveImage from './ResponsiveImage';
+import type { ApiError, ImageUploadError, ImageUploadResponse } from '@/types/api';
+import type { DuplicateImage, ImageErrorCode } from '@/types/image';
+import type { ProductImage } from '@/types/product';
 
 interface ImageUploadProps {
-  onUploadSuccess: (imagePath: string) => void;
+  images: ProductImage[];
+  onChange: (images: ProductImage[]) => void;
   onUploadError?: (error: string) => void;
+  /** Used as the alt text placeholder */
+  productName?: string;
 }
 
 interface UploadState {
-  preview: string | null;
-  uploading: boolean;
-  uploaded: boolean;
+  /** Files still to upload in the current batch */
+  remaining: number;
+  total: number;
+  /** Percent of the current file sent (100 while the server processes it) */
+  progress: number;
   error: string;
-  uploadedPath: string | null;
 }
 
-export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUploadProps) {
-  const [state, setState] = useState<UploadState>({
-    preview: null,
-    uploading: false,
-    uploaded: false,
-    error: '',
-    uploadedPath: null,
+/**
+ * Upload refused because it looks like images already stored
+ */
+interface PendingDuplicate {
+  file: File;
+  matches: DuplicateImage[];
+}
+
+/**
+ * Upload the server refused, with its reason
+ */
+class UploadRefusedError extends Error {
+  code: ImageErrorCode;
+  duplicates: DuplicateImage[];
+
+  constructor(message: string, code: ImageErrorCode, duplicates: DuplicateImage[] = []) {
+    super(message);
+    this.name = 'UploadRefusedError';
+    this.code = code;
+    this.duplicates = duplicates;
+  }
+}
+
+// How to fix a refused file, by reason
+const UPLOAD_ERROR_HINTS: Partial<Record<ImageErrorCode, string>> = {
+  file_too_large: 'Export a smaller copy and try again.',
+  type_not_allowed: 'Save it as JPEG, PNG or WebP and try again.',
+  type_mismatch: 'Its name or type does not match what it contains - save it again from an image editor.',
+  format_unknown: 'Only JPEG, PNG and WebP images can be uploaded.',
+  format_truncated: 'It may not have finished copying or downloading - get a fresh copy and try again.',
+  format_corrupt: 'Open it in an image editor, save a new copy and try again.',
+  dimensions_too_large: `Resize it to at most ${IMAGE_CONFIG.MAX_INPUT_DIMENSION} pixels on each side.`,
+  dimensions_too_many_pixels: `Resize it to at most ${IMAGE_CONFIG.MAX_INPUT_PIXELS / 1e6} megapixels.`,
+};
+
+// What the upload endpoint replies (errors from auth and the like carry no code)
+type UploadReply = ImageUploadResponse | ImageUploadError | ApiError;
+
+/**
+ * Post a form to the upload endpoint, reporting how much has been sent
+ * Uses XHR because fetch has no upload progress events.
+ */
+function postWithProgress(
+  url: string,
+  body: FormData,
+  onProgress: (percent: number) => void
+): Promise<{ status: number; data: UploadReply }> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.responseType = 'json';
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) {
+        onProgress(Math.round((e.loaded / e.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.response === null) {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      } else {
+        resolve({ status: xhr.status, data: xhr.response });
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error - check your connection and try again'));
+    xhr.ontimeout = () => reject(new Error('The upload timed out - please try again'));
+
+    xhr.send(body);
   });
+}
 
-  const resetState = useCallback(() => {
-    setState({
-      preview: null,
-      uploading: false,
-      uploaded: false,
-      error: '',
-      uploadedPath: null,
-    });
-  }, []);
+/**
+ * Describe why a file failed to upload, with a hint when there is one
+ */
+function describeUploadError(file: File, err: unknown): string {
+  const message = err instanceof Error ? err.message : 'Failed to upload image. Please try again.';
+  const hint = err instanceof UploadRefusedError ? UPLOAD_ERROR_HINTS[err.code] : undefined;
+  return `${file.name}: ${message}${hint ? ` ${hint}` : ''}`;
+}
 
+export default function ImageUpload({ images, onChange, onUploadError, productName }: ImageUploadProps) {
+  const [state, setState] = useState<UploadState>({
+    remaining: 0,
+    total: 0,
+    progress: 0,
+    error: '',
+  });
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [duplicates, setDuplicates] = useState<PendingDuplicate[]>([]);
+  // Picked files waiting to be edited, and the edited ones ready to upload
+  const [editQueue, setEditQueue] = useState<File[]>([]);
+  const [editTotal, setEditTotal] = useState(0);
+  const editedRef = useRef<File[]>([]);
+  // Latest gallery, for uploads that finish after it was reordered or trimmed
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const uploading = state.remaining > 0;
+  const editing = editQueue.length > 0;
+  const space = IMAGE_CONFIG.MAX_IMAGES_PER_PRODUCT - images.length;
+
+  // Size isn't checked here: edited photos are recompressed to fit
   const validateFile = (file: File): string | null => {
-    const maxSize = 5 * 1024 * 1024;
-    if (file.size > maxSize) {
-      return `File too large. Maximum size is 5MB (your file is ${(file.size / 1024 / 1024).toFixed(2)}MB)`;
-    }
-
     if (file.size === 0) {
-      return 'File is empty. Please select a valid image.';
+      return `${file.name} is empty. Please select a valid image.`;
     }
 
     const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/jpg'];
     if (!allowedTypes.includes(file.type)) {
-      return `Invalid file type "${file.type}". Please use JPEG, PNG, or WebP.`;
+      return `${file.name} has an invalid file type "${file.type}". Please use JPEG, PNG, or WebP.`;
     }
 
     return null;
   };
 
-  const createPreview = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        resolve(reader.result as string);
-      };
-      reader.onerror = () => {
-        reject(new Error('Failed to create image preview'));
-      };
-      reader.readAsDataURL(file);
-    });
-  };
-
-  const uploadImage = async (file: File): Promise<string> => {
+  const uploadImage = async (file: File, allowDuplicate = false): Promise<ProductImage> => {
     const formData = new FormData();
     formData.append('image', file);
+    if (allowDuplicate) {
+      formData.append('allowDuplicate', 'true');
+    }
 
-    const response = await fetch('/api/upload', {
-      method: 'POST',
-      body: formData,
+    const { status, data } = await postWithProgress('/api/upload', formData, (progress) => {
+      setState(prev => ({ ...prev, progress }));
     });
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || `Upload failed with status ${response.status}`);
+    if (!data.success) {
+      if ('code' in data) {
+        throw new UploadRefusedError(data.error || 'Upload failed', data.code, data.details?.duplicates);
+      }
+      throw new Error(data.error || `Upload failed with status ${status}`);
     }
 
-    if (!data.success) {
-      throw new Error(data.error || 'Upload failed');
+    if (status < 200 || status >= 300) {
+      throw new Error(`Upload failed with status ${status}`);
     }
 
     if (!data.data?.imagePath) {
       throw new Error('Upload succeeded but no image path received');
     }
 
-    return data.data.imagePath;
+    const { imagePath, width, height, placeholder } = data.data;
+    return { image_path: imagePath, alt_text: null, is_cover: false, width, height, placeholder };
+  };
+
+  // Append images not already in the gallery (the first image becomes the cover)
+  const addImages = (added: ProductImage[]) => {
+    const current = imagesRef.current;
+    const fresh = added.filter(image => !current.some(existing => existing.image_path === image.image_path));
+    if (fresh.length === 0) return;
+
+    const next = [...current, ...fresh];
+    imagesRef.current = current.length === 0 ? next.map((image, i) => ({ ...image, is_cover: i === 0 })) : next;
+    onChange(imagesRef.current);
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setState(prev => ({
-      ...prev,
-      preview: null,
-      uploading: false,
-      uploaded: false,
-      error: '',
-      uploadedPath: null,
-    }));
-
-    const validationError = validateFile(file);
-    if (validationError) {
-      setState(prev => ({ ...prev, error: validationError }));
-      onUploadError?.(validationError);
-      return;
+  // Errors add to those already shown for the current selection
+  const reportError = (message: string) => {
+    setState(prev => ({ ...prev, error: prev.error ? `${prev.error}\n${message}` : message }));
+    onUploadError?.(message);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same files again
+    if (selected.length === 0) return;
+
+    setState({ remaining: 0, total: 0, progress: 0, error: '' });
+    setDuplicates([]);
+
+    const files = selected.slice(0, Math.max(space, 0));
+    const errors: string[] = [];
+    if (files.length < selected.length) {
+      errors.push(`A product can have at most ${IMAGE_CONFIG.MAX_IMAGES_PER_PRODUCT} images; ${selected.length - files.length} not added.`);
     }
 
-    try {
-      const previewUrl = await createPreview(file);
-      setState(prev => ({ ...prev, preview: previewUrl }));
-    } catch {
-      setState(prev => ({ ...prev, error: 'Failed to load image preview' }));
-      return;
+    const valid = files.filter(file => {
+      const validationError = validateFile(file);
+      if (validationError) errors.push(validationError);
+      return !validationError;
+    });
+
+    if (errors.length > 0) {
+      reportError(errors.join('\n'));
     }
 
-    setState(prev => ({ ...prev, uploading: true, error: '' }));
+    editedRef.current = [];
+    setEditQueue(valid);
+    setEditTotal(valid.length);
+  };
 
-    try {
-      const imagePath = await uploadImage(file);
+  // Move on from the photo being edited (null if it was left out)
+  const finishEditing = (file: File | null) => {
+    if (file) {
+      editedRef.current.push(file);
+    }
 
-      setState(prev => ({
-        ...prev,
-        uploading: false,
-        uploaded: true,
-        uploadedPath: imagePath,
-        error: '',
-      }));
+    const rest = editQueue.slice(1);
+    setEditQueue(rest);
 
-      onUploadSuccess(imagePath);
+    if (rest.length === 0) {
+      const edited = editedRef.current;
+      editedRef.current = [];
+      uploadFiles(edited);
+    }
+  };
+
+  const uploadFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    // Upload one at a time so large batches don't time out together
+    const uploaded: ProductImage[] = [];
+    const pending: PendingDuplicate[] = [];
+    const errors: string[] = [];
+    setState(prev => ({ ...prev, remaining: files.length, total: files.length, progress: 0 }));
+
+    for (const file of files) {
+      try {
+        uploaded.push(await uploadImage(file));
+      } catch (err) {
+        if (err instanceof UploadRefusedError && err.code === 'duplicate') {
+          pending.push({ file, matches: err.duplicates });
+        } else {
+          errors.push(describeUploadError(file, err));
+        }
+      }
+      setState(prev => ({ ...prev, remaining: prev.remaining - 1, progress: 0 }));
+    }
+
+    addImages(uploaded);
+    setDuplicates(pending);
+
+    if (errors.length > 0) {
+      reportError(errors.join('\n'));
+    }
+  };
+
+  const resolveDuplicate = (index: number) => {
+    setDuplicates(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const reuseImage = (index: number, match: DuplicateImage) => {
+    addImages([{
+      image_path: match.image_path,
+      alt_text: null,
+      is_cover: false,
+      width: match.width,
+      height: match.height,
+      placeholder: match.placeholder,
+    }]);
+    resolveDuplicate(index);
+  };
+
+  const uploadAnyway = async (index: number) => {
+    const { file } = duplicates[index];
+    resolveDuplicate(index);
+    setState(prev => ({ ...prev, remaining: 1, total: 1, progress: 0 }));
+
+    try {
+      addImages([await uploadImage(file, true)]);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to upload image. Please try again.';
-      
-      setState(prev => ({
-        ...prev,
-        uploading: false,
-        uploaded: false,
-        error: errorMessage,
-      }));
-
-      onUploadError?.(errorMessage);
+      reportError(describeUploadError(file, err));
+    } finally {
+      setState(prev => ({ ...prev, remaining: 0 }));
     }
   };
 
-  const handleRetry = () => {
-    const fileInput = document.getElementById('product-image') as HTMLInputElement;
-    if (fileInput) {
-      fileInput.value = '';
+  const moveImage = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const removeImage = (index: number) => {
+    const next = images.filter((_, i) => i !== index);
+
+    // Removing the cover makes the first remaining image the cover
+    if (images[index].is_cover && next.length > 0) {
+      next[0] = { ...next[0], is_cover: true };
     }
-    resetState();
+    onChange(next);
+  };
+
+  const setCover = (index: number) => {
+    onChange(images.map((image, i) => ({ ...image, is_cover: i === index })));
+  };
+
+  const setAltText = (index: number, altText: string) => {
+    onChange(images.map((image, i) => (i === index ? { ...image, alt_text: altText } : image)));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveImage(dragIndex, index);
+    }
+    setDragIndex(null);
   };
 
   return (
     <div className="space-y-4">
-      <label className="block text-sm font-medium text-gray-700">
-        Product Image
+      <label htmlFor="product-image" className="block text-sm font-medium text-gray-700">
+        Product Images
         <span className="text-gray-400 ml-1">(optional)</span>
       </label>
 
-      <div className="relative">
+      <div className="relative flex flex-col sm:flex-row sm:items-center gap-3">
         <input
           id="product-image"
           type="file"
           accept="image/jpeg,image/png,image/webp,image/jpg"
-          capture="environment"
+          multiple
           onChange={handleFileChange}
-          disabled={state.uploading}
+          disabled={uploading || editing || space <= 0}
           className="block w-full text-sm text-gray-500
             file:mr-3 file:py-2.5 file:px-4
             file:rounded-md file:border-0
@@ -194,39 +372,213 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
             cursor-pointer
             disabled:cursor-not-allowed"
         />
+        <input
+          id="product-image-camera"
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/jpg"
+          capture="environment"
+          onChange={handleFileChange}
+          disabled={uploading || editing || space <= 0}
+          className="peer sr-only"
+        />
+        <label
+          htmlFor="product-image-camera"
+          className="flex-shrink-0 text-center py-2.5 px-4 rounded-md border border-primary text-primary text-sm font-semibold cursor-pointer hover:bg-primary hover:text-white touch-manipulation peer-disabled:opacity-50 peer-disabled:cursor-not-allowed peer-disabled:pointer-events-none"
+        >
+          Take photo
+        </label>
       </div>
 
       <p className="text-xs text-gray-500">
-        Accepts JPEG, PNG, WebP. Max 5MB. Images are automatically optimized.
+        Accepts JPEG, PNG, WebP, up to {IMAGE_CONFIG.MAX_IMAGES_PER_PRODUCT} images.
+        Crop, rotate and adjust each photo before it uploads; large photos are shrunk to fit.
+        Drag to reorder; the cover is shown in product lists.
       </p>
 
-      {state.preview && (
-        <div className="mt-4">
-          <p className="text-sm font-medium text-gray-700 mb-2">Preview:</p>
-          <div className="relative w-full h-48 sm:h-64 bg-gray-100 rounded-md overflow-hidden border border-gray-200">
-            <img
-              src={state.preview}
-              alt="Product preview"
-              className="w-full h-full object-contain"
-            />
-          </div>
-        </div>
+      {editing && (
+        <ImageEditor
+          key={`${editTotal - editQueue.length}-${editQueue[0].name}`}
+          file={editQueue[0]}
+          position={editTotal - editQueue.length + 1}
+          total={editTotal}
+          onDone={(file) => finishEditing(file)}
+          onCancel={() => finishEditing(null)}
+        />
       )}
 
-      {state.uploading && (
-        <div className="flex items-center gap-2 text-blue-600 bg-blue-50 p-3 rounded-md">
-          <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
-          <span className="text-sm">Uploading and optimizing image...</span>
-        </div>
+      {images.length > 0 && (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <li
+              key={image.image_path}
+              draggable={!uploading}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`rounded-md border bg-white overflow-hidden ${
+                image.is_cover ? 'border-primary ring-2 ring-primary' : 'border-gray-200'
+              } ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              <div className="relative aspect-square bg-gray-100 cursor-move">
+                <img
+                  src={image.image_path}
+                  alt={image.alt_text || productName || `Image ${index + 1}`}
+                  className="w-full h-full object-cover pointer-events-none"
+                />
+                {image.is_cover && (
+                  <span className="absolute top-1 left-1 bg-primary text-white text-xs font-medium px-2 py-0.5 rounded">
+                    Cover
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeImage(index)}
+                  aria-label={`Remove image ${index + 1}`}
+                  className="absolute top-1 right-1 bg-white/90 hover:bg-white text-red-600 rounded-full w-7 h-7 flex items-center justify-center shadow touch-manipulation"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="p-2 space-y-2">
+                <input
+                  type="text"
+                  value={image.alt_text || ''}
+                  onChange={(e) => setAltText(index, e.target.value)}
+                  maxLength={IMAGE_CONFIG.MAX_ALT_TEXT_LENGTH}
+                  placeholder={productName ? `Alt text (default: ${productName})` : 'Alt text'}
+                  aria-label={`Alt text for image ${index + 1}`}
+                  className="w-full px-2 py-1 text-xs border border-gray-300 rounded"
+                />
+                <div className="flex items-center gap-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => moveImage(index, index - 1)}
+                    disabled={index === 0}
+                    aria-label={`Move image ${index + 1} earlier`}
+                    className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40 touch-manipulation"
+                  >
+                    ←
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveImage(index, index + 1)}
+                    disabled={index === images.length - 1}
+                    aria-label={`Move image ${index + 1} later`}
+                    className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40 touch-manipulation"
+                  >
+                    →
+                  </button>
+                  {!image.is_cover && (
+                    <button
+                      type="button"
+                      onClick={() => setCover(index)}
+                      className="ml-auto text-primary hover:underline"
+                    >
+                      Make cover
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
       )}
 
-      {state.uploaded && state.uploadedPath && (
-        <div className="bg-green-50 border border-green-200 text-green-700 px-3 py-2 rounded-md text-sm">
+      {duplicates.map((pending, index) => (
+        <div
+          key={`${pending.file.name}-${index}`}
+          className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-3 rounded-md space-y-3"
+        >
+          <p className="text-sm">
+            <span className="font-medium">{pending.file.name}</span> looks like{' '}
+            {pending.matches.length === 1 ? 'an image that has' : 'images that have'} already been uploaded.
+          </p>
+
+          <ul className="space-y-2">
+            {pending.matches.map((match) => {
+              const added = images.some(image => image.image_path === match.image_path);
+
+              return (
+                <li key={match.image_path} className="flex items-center gap-3">
+                  <div className="w-12 h-12 flex-shrink-0 rounded overflow-hidden bg-gray-100">
+                    <ResponsiveImage image={match} alt="" sizes="48px" />
+                  </div>
+                  <p className="flex-1 min-w-0 text-xs">
+                    {match.products.length > 0 ? (
+                      <>
+                        Used by{' '}
+                        {match.products.map((product, i) => (
+                          <span key={product.id}>
+                            {i > 0 && ', '}
+                            <a
+                              href={`/product/${product.id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline hover:text-yellow-900"
+                            >
+                              {product.name}
+                            </a>
+                          </span>
+                        ))}
+                      </>
+                    ) : (
+                      'Not used on any product yet'
+                    )}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => reuseImage(index, match)}
+                    disabled={added || space <= 0}
+                    className="flex-shrink-0 px-3 py-1.5 text-xs font-medium rounded-md bg-white border border-yellow-300 hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+                  >
+                    {added ? 'Already added' : 'Use this image'}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex gap-4 text-sm">
+            <button
+              type="button"
+              onClick={() => uploadAnyway(index)}
+              disabled={uploading || space <= 0}
+              className="font-medium underline hover:text-yellow-900 disabled:opacity-50"
+            >
+              Upload anyway
+            </button>
+            <button
+              type="button"
+              onClick={() => resolveDuplicate(index)}
+              className="underline hover:text-yellow-900"
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {uploading && (
+        <div className="text-blue-600 bg-blue-50 p-3 rounded-md space-y-2">
           <div className="flex items-center gap-2">
-            <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-            </svg>
-            <span>Image uploaded successfully!</span>
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
+            <span className="text-sm">
+              {state.progress < 100
+                ? `Uploading image ${state.total - state.remaining + 1} of ${state.total}... ${state.progress}%`
+                : `Optimizing image ${state.total - state.remaining + 1} of ${state.total}...`}
+            </span>
+          </div>
+          <div
+            role="progressbar"
+            aria-valuenow={state.progress}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-label="Upload progress"
+            className="h-1.5 bg-blue-100 rounded-full overflow-hidden"
+          >
+            <div className="h-full bg-primary transition-all" style={{ width: `${state.progress}%` }} />
           </div>
         </div>
       )}
@@ -238,27 +590,18 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <div className="flex-1">
-              <p className="text-sm">{state.error}</p>
+              <p className="text-sm whitespace-pre-line">{state.error}</p>
               <button
-                onClick={handleRetry}
+                type="button"
+                onClick={() => setState(prev => ({ ...prev, error: '' }))}
                 className="mt-2 text-sm font-medium text-red-700 hover:text-red-800 underline"
               >
-                Try again with a different image
+                Dismiss
               </button>
             </div>
           </div>
         </div>
       )}
-
-      {state.uploaded && (
-        <button
-          type="button"
-          onClick={handleRetry}
-          className="text-sm text-gray-500 hover:text-gray-700 underline"
-        >
-          Remove image and upload different one
-        </button>
-      )}
     </div>
   );
 }
@@ -1,31 +1,53 @@
 'use client';
 
 import { useState } from 'react';
-import type { Product } from '@/types/product';
+import Link from 'next/link';
+import ResponsiveImage from './ResponsiveImage';
+import { displayPrice, formatPriceWithGst, formatTierRange, gstLabel } from '@/lib/pricing';
+import { formatOrderQuantity, singularUnit } from '@/lib/units';
+import { formatVariantLabel, getCoverImage, type Product } from '@/types/product';
 
 interface ProductCardProps {
   product: Product;
+  /** Search highlight for the name (escaped HTML with <mark> tags) */
+  highlight?: string;
 }
 
-export default function ProductCard({ product }: ProductCardProps) {
+export default function ProductCard({ product, highlight }: ProductCardProps) {
   const [imgError, setImgError] = useState(false);
+  const [variantId, setVariantId] = useState('');
 
   if (!product) return null;
 
-  const price = Number(product.price) || 0;
-  const hasImage = product.image_path && !imgError;
+  const variants = product.variants || [];
+  const variant = variants.find(v => v.id === variantId);
+
+  // With variants and none picked, show the cheapest as "from ₹X"
+  const showFrom = variants.length > 1 && !variant;
+  const price = displayPrice(Number(variant?.price ?? variants[0]?.price ?? product.price) || 0, product.gst_rate);
+  const minOrderQty = variant?.min_order_qty ?? (
+    variants.length === 0
+      ? product.min_order_qty
+      : variants.every(v => v.min_order_qty === variants[0].min_order_qty)
+        ? variants[0].min_order_qty
+        : null
+  );
+  const images = product.images || [];
+  const cover = getCoverImage(images);
+  const coverImage = cover || (product.image_path ? { image_path: product.image_path } : undefined);
+  const hasImage = coverImage && !imgError;
+  const href = `/product/${product.id}`;
 
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300 flex flex-col h-full">
       {/* Product Image */}
-      <div className="relative w-full aspect-square bg-gray-100">
+      <Link href={href} className="relative block w-full aspect-square bg-gray-100">
         {hasImage ? (
-          <img
-            src={product.image_path!}
-            alt={product.name}
-            className="w-full h-full object-cover"
+          <ResponsiveImage
+            image={coverImage}
+            alt={cover?.alt_text || product.name}
+            sizes="(min-width: 1280px) 25vw, (min-width: 768px) 33vw, (min-width: 475px) 50vw, 100vw"
             onError={() => setImgError(true)}
-            loading="lazy"
           />
         ) : (
           <div className="w-full h-full flex items-center justify-center text-gray-400">
@@ -34,24 +56,74 @@ export default function ProductCard({ product }: ProductCardProps) {
             </svg>
           </div>
         )}
-      </div>
+        {images.length > 1 && (
+          <span className="absolute bottom-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded">
+            {images.length} photos
+          </span>
+        )}
+      </Link>
 
       {/* Product Details */}
       <div className="p-3 sm:p-4 flex flex-col flex-grow">
-        <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2 line-clamp-2 min-h-[3rem]">
-          {product.name}
-        </h3>
+        {highlight ? (
+          <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2 line-clamp-2 min-h-[3rem] [&_mark]:bg-yellow-100 [&_mark]:text-inherit">
+            <Link href={href} className="hover:text-primary" dangerouslySetInnerHTML={{ __html: highlight }} />
+          </h3>
+        ) : (
+          <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2 line-clamp-2 min-h-[3rem]">
+            <Link href={href} className="hover:text-primary">{product.name}</Link>
+          </h3>
+        )}
+
+        {variants.length > 1 && (
+          <select
+            value={variantId}
+            onChange={(e) => setVariantId(e.target.value)}
+            aria-label={`Options for ${product.name}`}
+            className="mb-2 w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            <option value="">{variants.length} options</option>
+            {variants.map((v) => (
+              <option key={v.id} value={v.id}>{formatVariantLabel(v)}</option>
+            ))}
+          </select>
+        )}
 
         <div className="flex items-baseline gap-2 mb-2 mt-auto">
+          {showFrom && <span className="text-sm text-gray-500">from</span>}
           <span className="text-xl sm:text-2xl font-bold text-primary">
             ₹{price.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
           </span>
-          <span className="text-sm text-gray-500">per kg</span>
+          <span className="text-sm text-gray-500">{gstLabel()} per {singularUnit(product.min_order_unit)}</span>
         </div>
 
+        <p className="mb-2 text-xs text-gray-500">
+          GST {product.gst_rate}%{product.hsn_code && ` · HSN ${product.hsn_code}`}
+        </p>
+
         <div className="text-xs sm:text-sm text-gray-600 bg-gray-50 px-2 py-1 rounded">
-          Min. Order: <span className="font-medium text-gray-800">{product.min_order_qty}</span>
+          Min. Order: <span className="font-medium text-gray-800">{minOrderQty === null ? 'Varies by option' : formatOrderQuantity(minOrderQty, product.min_order_unit)}</span>
         </div>
+
+        {variant && (
+          <p className="mt-1 text-xs text-gray-500">SKU: {variant.sku}</p>
+        )}
+
+        {!variant && product.price_tiers.length > 0 && (
+          <table className="mt-2 w-full text-xs sm:text-sm text-gray-600">
+            <caption className="text-left text-xs font-medium text-gray-500 mb-1">Volume pricing</caption>
+            <tbody>
+              {product.price_tiers.map((tier) => (
+                <tr key={tier.min_qty} className="border-t border-gray-100">
+                  <td className="py-1">{formatTierRange(tier)} {product.min_order_unit}</td>
+                  <td className="py-1 text-right font-medium text-gray-800">
+                    {formatPriceWithGst(tier.price, product.gst_rate)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
       </div>
     </div>
   );
@@ -2,39 +2,138 @@
 
 import { useState, useEffect } from 'react';
 import ImageUpload from './ImageUpload';
-import type { Product } from '@/types/product';
+import { validateHsnCode, validateMinOrderQty, validatePriceTiers } from '@/lib/validation';
+import { sortPriceTiers } from '@/lib/pricing';
+import { singularUnit } from '@/lib/units';
+import { PRODUCT_CONFIG, TAX_CONFIG } from '@/lib/constants';
+import type { OrderUnit, PriceTier, Product, ProductImage, ProductVariant } from '@/types/product';
+import { buildCategoryTree, flattenCategoryTree, type Category } from '@/types/category';
 
 interface ProductFormProps {
   onSuccess?: () => void;
   onCancel?: () => void;
   initialData?: Product | null;
   isEditing?: boolean;
+  /** Allow removing saved variants (owners only) */
+  canDeleteVariants?: boolean;
 }
 
 interface FormData {
   name: string;
   price: string;
+  hsn_code: string;
+  gst_rate: string;
   min_order_qty: string;
-  image_path: string;
+  min_order_unit: OrderUnit;
+  images: ProductImage[];
+  category_ids: string[];
 }
 
 interface FormErrors {
   name?: string;
   price?: string;
+  hsn_code?: string;
   min_order_qty?: string;
+  variants?: string;
+  price_tiers?: string;
+}
+
+/** Price tier row (blank max quantity means "and above") */
+interface TierRow {
+  min_qty: string;
+  max_qty: string;
+  price: string;
+}
+
+/**
+ * Turn saved tiers into editable rows
+ */
+function toTierRows(tiers: PriceTier[]): TierRow[] {
+  return tiers.map(tier => ({
+    min_qty: tier.min_qty.toString(),
+    max_qty: tier.max_qty === null ? '' : tier.max_qty.toString(),
+    price: tier.price.toString(),
+  }));
+}
+
+/**
+ * Turn tier rows into price tiers, lowest quantity first
+ */
+function toPriceTiers(rows: TierRow[]): PriceTier[] {
+  return sortPriceTiers(rows.map(row => ({
+    min_qty: Number(row.min_qty),
+    max_qty: row.max_qty.trim() === '' ? null : Number(row.max_qty),
+    price: parseFloat(row.price),
+  })));
+}
+
+/** Variant grid row (id is set once the variant has been saved) */
+interface VariantRow {
+  id?: string;
+  sku: string;
+  size: string;
+  thickness: string;
+  material: string;
+  price: string;
+  min_order_qty: string;
+}
+
+const VARIANT_FIELDS = ['sku', 'size', 'thickness', 'material', 'price', 'min_order_qty'] as const;
+
+const EMPTY_VARIANT: VariantRow = {
+  sku: '',
+  size: '',
+  thickness: '',
+  material: '',
+  price: '',
+  min_order_qty: '',
+};
+
+/**
+ * Turn a saved variant into an editable grid row
+ */
+function toVariantRow(variant: ProductVariant): VariantRow {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    size: variant.size || '',
+    thickness: variant.thickness || '',
+    material: variant.material || '',
+    price: variant.price.toString(),
+    min_order_qty: variant.min_order_qty.toString(),
+  };
+}
+
+/**
+ * Variant request body from a grid row
+ */
+function toVariantBody(row: VariantRow) {
+  return {
+    sku: row.sku.trim(),
+    size: row.size.trim() || null,
+    thickness: row.thickness.trim() || null,
+    material: row.material.trim() || null,
+    price: parseFloat(row.price),
+    min_order_qty: Number(row.min_order_qty),
+  };
 }
 
 export default function ProductForm({ 
   onSuccess, 
   onCancel,
   initialData,
-  isEditing = false 
+  isEditing = false,
+  canDeleteVariants = false,
 }: ProductFormProps) {
   const [formData, setFormData] = useState<FormData>({
     name: '',
     price: '',
+    hsn_code: '',
+    gst_rate: String(TAX_CONFIG.DEFAULT_GST_RATE),
     min_order_qty: '',
-    image_path: '',
+    min_order_unit: 'pcs',
+    images: [],
+    category_ids: [],
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
@@ -42,6 +141,19 @@ export default function ProductForm({
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
   const [uploadKey, setUploadKey] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [variants, setVariants] = useState<VariantRow[]>([]);
+  const [tierRows, setTierRows] = useState<TierRow[]>([]);
+
+  // Load categories for the picker (the form still works without them)
+  useEffect(() => {
+    fetch('/api/categories')
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setCategories(data.data);
+      })
+      .catch(err => console.error('Error loading categories:', err));
+  }, []);
 
   // Populate form when editing
   useEffect(() => {
@@ -49,18 +161,30 @@ export default function ProductForm({
       setFormData({
         name: initialData.name,
         price: initialData.price.toString(),
-        min_order_qty: initialData.min_order_qty,
-        image_path: initialData.image_path || '',
+        hsn_code: initialData.hsn_code || '',
+        gst_rate: initialData.gst_rate.toString(),
+        min_order_qty: initialData.min_order_qty.toString(),
+        min_order_unit: initialData.min_order_unit,
+        images: initialData.images || [],
+        category_ids: initialData.category_ids || [],
       });
-      setUploadKey(prev => prev + 1); // Reset image upload with existing image
+      setVariants((initialData.variants || []).map(toVariantRow));
+      setTierRows(toTierRows(initialData.price_tiers || []));
+      setUploadKey(prev => prev + 1); // Clear any upload errors
     } else {
       // Reset form when not editing
       setFormData({
         name: '',
         price: '',
+        hsn_code: '',
+        gst_rate: String(TAX_CONFIG.DEFAULT_GST_RATE),
         min_order_qty: '',
-        image_path: '',
+        min_order_unit: 'pcs',
+        images: [],
+        category_ids: [],
       });
+      setVariants([]);
+      setTierRows([]);
       setUploadKey(prev => prev + 1);
     }
   }, [isEditing, initialData]);
@@ -87,17 +211,106 @@ export default function ProductForm({
       newErrors.price = 'Price cannot exceed ₹1,000,000';
     }
 
-    // Validate min order quantity
-    if (!formData.min_order_qty.trim()) {
-      newErrors.min_order_qty = 'Minimum order quantity is required';
-    } else if (formData.min_order_qty.trim().length > 100) {
-      newErrors.min_order_qty = 'Must be less than 100 characters';
+    // Validate HSN/SAC code (optional)
+    try {
+      validateHsnCode(formData.hsn_code.trim());
+    } catch (hsnError) {
+      newErrors.hsn_code = hsnError instanceof Error ? hsnError.message : 'Invalid HSN/SAC code';
+    }
+
+    // Validate min order quantity (same limits as the API)
+    try {
+      validateMinOrderQty(parseFloat(formData.min_order_qty), formData.min_order_unit);
+    } catch (qtyError) {
+      newErrors.min_order_qty = qtyError instanceof Error ? qtyError.message : 'Invalid minimum order quantity';
+    }
+
+    // Validate variants (every row needs a SKU, a price and a minimum order)
+    const skus = variants.map(v => v.sku.trim().toLowerCase());
+    if (variants.some(v => !v.sku.trim() || !v.min_order_qty.trim())) {
+      newErrors.variants = 'Every variant needs a SKU and a minimum order quantity';
+    } else if (variants.some(v => {
+      try {
+        validateMinOrderQty(parseFloat(v.min_order_qty), formData.min_order_unit);
+        return false;
+      } catch {
+        return true;
+      }
+    })) {
+      newErrors.variants = `Variant minimum orders must be between ${PRODUCT_CONFIG.MIN_ORDER_QTY} and ${PRODUCT_CONFIG.MAX_ORDER_QTY} ${formData.min_order_unit}`;
+    } else if (variants.some(v => isNaN(parseFloat(v.price)) || parseFloat(v.price) < 0)) {
+      newErrors.variants = 'Every variant needs a valid price';
+    } else if (new Set(skus).size !== skus.length) {
+      newErrors.variants = 'Each variant needs a different SKU';
+    }
+
+    // Validate price tiers (same rules as the API)
+    try {
+      validatePriceTiers(toPriceTiers(tierRows));
+    } catch (tierError) {
+      newErrors.price_tiers = tierError instanceof Error ? tierError.message : 'Invalid price tiers';
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  /**
+   * Save the variant grid: add new rows, update changed ones, remove deleted ones
+   * @throws Error naming the first variant that failed
+   */
+  const saveVariants = async (productId: string) => {
+    const saved = new Map(((isEditing && initialData?.variants) || []).map(v => [v.id, v]));
+    const kept = new Set(variants.map(v => v.id).filter(Boolean));
+
+    const requests: { label: string; url: string; method: string; body?: object }[] = [];
+
+    // Removals first so a SKU can move from a removed row to a new one
+    saved.forEach((variant, id) => {
+      if (!kept.has(id)) {
+        requests.push({ label: variant.sku, url: `/api/products/${productId}/variants/${id}`, method: 'DELETE' });
+      }
+    });
+
+    for (const row of variants) {
+      const original = row.id ? saved.get(row.id) : undefined;
+      if (!original) {
+        requests.push({ label: row.sku, url: `/api/products/${productId}/variants`, method: 'POST', body: toVariantBody(row) });
+        continue;
+      }
+
+      const before = toVariantRow(original);
+      if (VARIANT_FIELDS.some(field => row[field].trim() !== before[field])) {
+        requests.push({
+          label: row.sku,
+          url: `/api/products/${productId}/variants/${row.id}`,
+          method: 'PATCH',
+          body: toVariantBody(row),
+        });
+      }
+    }
+
+    for (const request of requests) {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.body ? { 'Content-Type': 'application/json' } : undefined,
+        body: request.body ? JSON.stringify(request.body) : undefined,
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        throw new Error(`Product saved, but variant ${request.label} failed: ${data.error || response.status}`);
+      }
+    }
+  };
+
+  const variantsChanged = (): boolean => {
+    const before = (initialData?.variants || []).map(toVariantRow);
+    return variants.length !== before.length || variants.some((row, i) =>
+      row.id !== before[i].id || VARIANT_FIELDS.some(field => row[field].trim() !== before[i][field])
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -118,36 +331,78 @@ export default function ProductForm({
 
       if (isEditing && initialData) {
         // Update existing product
-        const updateData: { name?: string; price?: number; min_order_qty?: string; image_path?: string | null } = {};
+        const updateData: {
+          name?: string;
+          price?: number;
+          hsn_code?: string | null;
+          gst_rate?: number;
+          min_order_qty?: number;
+          min_order_unit?: OrderUnit;
+          images?: ProductImage[];
+          category_ids?: string[];
+          price_tiers?: PriceTier[];
+        } = {};
         
         // Only include changed fields
         if (formData.name !== initialData.name) updateData.name = formData.name;
         if (parseFloat(formData.price) !== initialData.price) updateData.price = parseFloat(formData.price);
-        if (formData.min_order_qty !== initialData.min_order_qty) updateData.min_order_qty = formData.min_order_qty;
-        if (formData.image_path !== (initialData.image_path || '')) updateData.image_path = formData.image_path || null;
-
-        response = await fetch(`/api/products/${initialData.id}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(updateData),
-        });
+        if (formData.hsn_code.trim() !== (initialData.hsn_code || '')) updateData.hsn_code = formData.hsn_code.trim() || null;
+        if (parseFloat(formData.gst_rate) !== initialData.gst_rate) updateData.gst_rate = parseFloat(formData.gst_rate);
+        // Saving a flagged minimum order confirms it, even if it is unchanged
+        if (
+          parseFloat(formData.min_order_qty) !== initialData.min_order_qty ||
+          formData.min_order_unit !== initialData.min_order_unit ||
+          initialData.min_order_review
+        ) {
+          updateData.min_order_qty = parseFloat(formData.min_order_qty);
+          updateData.min_order_unit = formData.min_order_unit;
+        }
+        if (JSON.stringify(formData.images) !== JSON.stringify(initialData.images || [])) updateData.images = formData.images;
+        if (
+          [...formData.category_ids].sort().join() !== [...(initialData.category_ids || [])].sort().join()
+        ) updateData.category_ids = formData.category_ids;
+        if (
+          JSON.stringify(toPriceTiers(tierRows)) !== JSON.stringify(initialData.price_tiers || [])
+        ) updateData.price_tiers = toPriceTiers(tierRows);
+
+        if (Object.keys(updateData).length === 0 && variantsChanged()) {
+          // Only the variants changed
+          await saveVariants(initialData.id);
+          response = null;
+        } else {
+          response = await fetch(`/api/products/${initialData.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(updateData),
+          });
+        }
       } else {
         // Create new product
         response = await fetch('/api/products', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(formData),
+          body: JSON.stringify({
+            ...formData,
+            hsn_code: formData.hsn_code.trim() || null,
+            gst_rate: parseFloat(formData.gst_rate),
+            min_order_qty: parseFloat(formData.min_order_qty),
+            price_tiers: toPriceTiers(tierRows),
+          }),
         });
       }
 
-      try {
-        data = await response.json();
-      } catch {
-        throw new Error('Invalid response from server');
-      }
+      if (response) {
+        try {
+          data = await response.json();
+        } catch {
+          throw new Error('Invalid response from server');
+        }
 
-      if (!response.ok || !data.success) {
-        throw new Error(data.error || `Failed to ${isEditing ? 'update' : 'create'} product (${response.status})`);
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || `Failed to ${isEditing ? 'update' : 'create'} product (${response.status})`);
+        }
+
+        await saveVariants(data.data.id);
       }
 
       // Reset form only when creating (not editing)
@@ -155,9 +410,15 @@ export default function ProductForm({
         setFormData({
           name: '',
           price: '',
+          hsn_code: '',
+          gst_rate: String(TAX_CONFIG.DEFAULT_GST_RATE),
           min_order_qty: '',
-          image_path: '',
+          min_order_unit: 'pcs',
+          images: [],
+          category_ids: [],
         });
+        setVariants([]);
+        setTierRows([]);
         setErrors({});
         setUploadKey(prev => prev + 1);
       }
@@ -178,8 +439,36 @@ export default function ProductForm({
     }
   };
 
-  const handleImageUpload = (imagePath: string) => {
-    setFormData(prev => ({ ...prev, image_path: imagePath }));
+  const updateVariantRow = (index: number, field: typeof VARIANT_FIELDS[number], value: string) => {
+    setVariants(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    if (errors.variants) setErrors(prev => ({ ...prev, variants: undefined }));
+  };
+
+  const updateTierRow = (index: number, field: keyof TierRow, value: string) => {
+    setTierRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    if (errors.price_tiers) setErrors(prev => ({ ...prev, price_tiers: undefined }));
+  };
+
+  // New tiers start just above the previous one
+  const addTierRow = () => {
+    setTierRows(prev => {
+      const last = prev[prev.length - 1];
+      const start = last?.max_qty ? String(Number(last.max_qty) + 1) : '';
+      return [...prev, { min_qty: start, max_qty: '', price: '' }];
+    });
+  };
+
+  const toggleCategory = (id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      category_ids: prev.category_ids.includes(id)
+        ? prev.category_ids.filter(c => c !== id)
+        : [...prev.category_ids, id],
+    }));
+  };
+
+  const handleImagesChange = (images: ProductImage[]) => {
+    setFormData(prev => ({ ...prev, images }));
   };
 
   const handleImageError = (errorMsg: string) => {
@@ -240,7 +529,7 @@ export default function ProductForm({
       {/* Price */}
       <div>
         <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-2">
-          Price per kg (₹) <span className="text-red-500">*</span>
+          Price per {singularUnit(formData.min_order_unit)} (₹, excl. GST) <span className="text-red-500">*</span>
         </label>
         <input
           type="number"
@@ -263,37 +552,277 @@ export default function ProductForm({
         )}
       </div>
 
+      {/* GST */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="hsn_code" className="block text-sm font-medium text-gray-700 mb-2">
+            HSN/SAC Code
+          </label>
+          <input
+            type="text"
+            id="hsn_code"
+            inputMode="numeric"
+            maxLength={8}
+            value={formData.hsn_code}
+            onChange={(e) => {
+              setFormData(prev => ({ ...prev, hsn_code: e.target.value }));
+              if (errors.hsn_code) setErrors(prev => ({ ...prev, hsn_code: undefined }));
+            }}
+            className={`w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border rounded-md focus:ring-2 focus:ring-primary focus:border-transparent transition-colors ${
+              errors.hsn_code ? 'border-red-500 bg-red-50' : 'border-gray-300'
+            }`}
+            placeholder="e.g., 7208"
+          />
+        </div>
+        <div>
+          <label htmlFor="gst_rate" className="block text-sm font-medium text-gray-700 mb-2">
+            GST Rate
+          </label>
+          <select
+            id="gst_rate"
+            value={formData.gst_rate}
+            onChange={(e) => setFormData(prev => ({ ...prev, gst_rate: e.target.value }))}
+            className="w-full px-3 py-2.5 sm:py-3 text-base border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {TAX_CONFIG.GST_RATES.map((rate) => (
+              <option key={rate} value={String(rate)}>{rate}%</option>
+            ))}
+          </select>
+        </div>
+        {errors.hsn_code && (
+          <p className="col-span-2 -mt-2 text-sm text-red-600">{errors.hsn_code}</p>
+        )}
+        <p className="col-span-2 -mt-2 text-xs text-gray-500">
+          Enter prices excluding GST; the storefront shows them {TAX_CONFIG.PRICE_DISPLAY === 'inclusive' ? 'with GST added' : 'as "+ GST"'}.
+        </p>
+      </div>
+
       {/* Minimum Order Quantity */}
       <div>
         <label htmlFor="min_order_qty" className="block text-sm font-medium text-gray-700 mb-2">
           Minimum Order Quantity <span className="text-red-500">*</span>
         </label>
-        <input
-          type="text"
-          id="min_order_qty"
-          value={formData.min_order_qty}
-          onChange={(e) => {
-            setFormData(prev => ({ ...prev, min_order_qty: e.target.value }));
-            if (errors.min_order_qty) setErrors(prev => ({ ...prev, min_order_qty: undefined }));
-          }}
-          className={`w-full px-3 py-2.5 sm:px-4 sm:py-3 text-base border rounded-md focus:ring-2 focus:ring-primary focus:border-transparent transition-colors ${
-            errors.min_order_qty ? 'border-red-500 bg-red-50' : 'border-gray-300'
-          }`}
-          placeholder="e.g., 10, 1 dozen, Minimum 5 units"
-        />
+        {isEditing && initialData?.min_order_review && (
+          <p className="mb-2 rounded-md bg-yellow-50 border border-yellow-200 px-3 py-2 text-sm text-yellow-800">
+            Imported from &quot;{initialData.min_order_review}&quot; - please check the quantity and unit, then save.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="number"
+            id="min_order_qty"
+            min={PRODUCT_CONFIG.MIN_ORDER_QTY}
+            max={PRODUCT_CONFIG.MAX_ORDER_QTY}
+            step="any"
+            inputMode="decimal"
+            value={formData.min_order_qty}
+            onChange={(e) => {
+              setFormData(prev => ({ ...prev, min_order_qty: e.target.value }));
+              if (errors.min_order_qty) setErrors(prev => ({ ...prev, min_order_qty: undefined }));
+            }}
+            className={`flex-1 min-w-0 px-3 py-2.5 sm:px-4 sm:py-3 text-base border rounded-md focus:ring-2 focus:ring-primary focus:border-transparent transition-colors ${
+              errors.min_order_qty ? 'border-red-500 bg-red-50' : 'border-gray-300'
+            }`}
+            placeholder="e.g., 10"
+          />
+          <select
+            id="min_order_unit"
+            value={formData.min_order_unit}
+            onChange={(e) => {
+              setFormData(prev => ({ ...prev, min_order_unit: e.target.value as OrderUnit }));
+              if (errors.min_order_qty) setErrors(prev => ({ ...prev, min_order_qty: undefined }));
+            }}
+            aria-label="Minimum order unit"
+            className="px-3 py-2.5 sm:py-3 text-base border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-primary focus:border-transparent"
+          >
+            {PRODUCT_CONFIG.ORDER_UNITS.map((unit) => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </select>
+        </div>
         {errors.min_order_qty && (
           <p className="mt-1 text-sm text-red-600">{errors.min_order_qty}</p>
         )}
         <p className="mt-1 text-xs text-gray-500">
-          You can enter any text like "10", "1 dozen", "Minimum 5 kg", etc.
+          Between {PRODUCT_CONFIG.MIN_ORDER_QTY} and {PRODUCT_CONFIG.MAX_ORDER_QTY.toLocaleString('en-IN')}; {PRODUCT_CONFIG.WHOLE_ORDER_UNITS.join(' and ')} take whole numbers only. Variants use the same unit.
         </p>
       </div>
 
+      {/* Price Tiers */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-sm font-medium text-gray-700">Quantity Price Breaks</span>
+          <button
+            type="button"
+            onClick={addTierRow}
+            className="text-sm text-primary font-medium hover:underline touch-manipulation"
+          >
+            + Add tier
+          </button>
+        </div>
+
+        {tierRows.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Add tiers to lower the unit price for larger orders. Quantities outside every tier use the price above.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {tierRows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2 text-sm">
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  inputMode="numeric"
+                  value={row.min_qty}
+                  onChange={(e) => updateTierRow(index, 'min_qty', e.target.value)}
+                  aria-label={`Tier ${index + 1} from quantity`}
+                  placeholder="From"
+                  className="w-20 sm:w-24 px-2 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+                <span className="text-gray-500">–</span>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  inputMode="numeric"
+                  value={row.max_qty}
+                  onChange={(e) => updateTierRow(index, 'max_qty', e.target.value)}
+                  aria-label={`Tier ${index + 1} to quantity`}
+                  placeholder="and up"
+                  className="w-20 sm:w-24 px-2 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+                <span className="text-gray-500">@ ₹</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  inputMode="decimal"
+                  value={row.price}
+                  onChange={(e) => updateTierRow(index, 'price', e.target.value)}
+                  aria-label={`Tier ${index + 1} price`}
+                  placeholder="0.00"
+                  className="w-24 sm:w-28 px-2 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent"
+                />
+                <button
+                  type="button"
+                  onClick={() => setTierRows(prev => prev.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:bg-red-50 rounded px-2 py-2 touch-manipulation"
+                  aria-label={`Remove tier ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {errors.price_tiers && (
+          <p className="mt-1 text-sm text-red-600">{errors.price_tiers}</p>
+        )}
+      </div>
+
+      {/* Categories */}
+      {categories.length > 0 && (
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Categories</legend>
+          <div className="max-h-48 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+            {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => (
+              <label
+                key={category.id}
+                className="flex items-center gap-2 py-1 text-sm text-gray-700 cursor-pointer touch-manipulation"
+                style={{ paddingLeft: `${depth * 1.25}rem` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={formData.category_ids.includes(category.id)}
+                  onChange={() => toggleCategory(category.id)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                {category.name}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {/* Variants */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-sm font-medium text-gray-700">Variants</span>
+          <button
+            type="button"
+            onClick={() => setVariants(prev => [...prev, { ...EMPTY_VARIANT }])}
+            className="text-sm text-primary font-medium hover:underline touch-manipulation"
+          >
+            + Add variant
+          </button>
+        </div>
+
+        {variants.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Add variants when the product comes in several sizes, thicknesses or materials at different prices.
+          </p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-300 rounded-md">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-600">
+                <tr>
+                  <th className="px-2 py-2 font-medium">SKU *</th>
+                  <th className="px-2 py-2 font-medium">Thickness</th>
+                  <th className="px-2 py-2 font-medium">Size</th>
+                  <th className="px-2 py-2 font-medium">Material</th>
+                  <th className="px-2 py-2 font-medium">Price (₹) *</th>
+                  <th className="px-2 py-2 font-medium">Min. Order ({formData.min_order_unit}) *</th>
+                  <th className="px-2 py-2"><span className="sr-only">Remove</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {variants.map((row, index) => (
+                  <tr key={row.id || `new-${index}`}>
+                    {(['sku', 'thickness', 'size', 'material', 'price', 'min_order_qty'] as const).map((field) => (
+                      <td key={field} className="px-1 py-1">
+                        <input
+                          type={field === 'price' || field === 'min_order_qty' ? 'number' : 'text'}
+                          min={field === 'price' ? '0' : field === 'min_order_qty' ? PRODUCT_CONFIG.MIN_ORDER_QTY : undefined}
+                          step={field === 'price' ? '0.01' : field === 'min_order_qty' ? 'any' : undefined}
+                          inputMode={field === 'price' || field === 'min_order_qty' ? 'decimal' : undefined}
+                          value={row[field]}
+                          onChange={(e) => updateVariantRow(index, field, e.target.value)}
+                          aria-label={`Variant ${index + 1} ${field.replace(/_/g, ' ')}`}
+                          className="w-full min-w-[6rem] px-2 py-1.5 border border-gray-300 rounded focus:ring-2 focus:ring-primary focus:border-transparent"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-1 py-1 text-center">
+                      {(!row.id || canDeleteVariants) && (
+                        <button
+                          type="button"
+                          onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:bg-red-50 rounded px-2 py-1.5 touch-manipulation"
+                          aria-label={`Remove variant ${index + 1}`}
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {errors.variants && (
+          <p className="mt-1 text-sm text-red-600">{errors.variants}</p>
+        )}
+      </div>
+
       {/* Image Upload */}
-      <ImageUpload 
-        key={uploadKey} 
-        onUploadSuccess={handleImageUpload}
+      <ImageUpload
+        key={uploadKey}
+        images={formData.images}
+        onChange={handleImagesChange}
         onUploadError={handleImageError}
+        productName={formData.name.trim()}
       />
 
       {/* Submit and Cancel Buttons */}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import ResponsiveImage from './ResponsiveImage';
+import type { ProductImage } from '@/types/product';
+
+interface ProductGalleryProps {
+  images: ProductImage[];
+  /** Alt text for images that have none */
+  productName: string;
+}
+
+/**
+ * Swipeable image gallery
+ * Slides use CSS scroll snapping, so touch swiping and trackpads work
+ * natively; arrows and thumbnails move between images on desktop.
+ */
+export default function ProductGallery({ images, productName }: ProductGalleryProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState(0);
+  const [failed, setFailed] = useState<Record<string, boolean>>({});
+
+  const shown = images.filter(image => !failed[image.image_path]);
+
+  const goTo = (index: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    track.scrollTo({ left: index * track.clientWidth, behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+    setActive(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  if (shown.length === 0) {
+    return (
+      <div className="w-full aspect-square bg-gray-100 rounded-lg flex items-center justify-center text-gray-400">
+        <svg className="w-20 h-20" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" aria-roledescription="carousel" aria-label={`${productName} images`}>
+      <div className="relative">
+        <div
+          ref={trackRef}
+          onScroll={handleScroll}
+          className="flex overflow-x-auto snap-x snap-mandatory scroll-smooth rounded-lg bg-gray-100 [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+        >
+          {shown.map((image, index) => (
+            <div
+              key={image.image_path}
+              className="w-full flex-shrink-0 snap-center aspect-square"
+              aria-roledescription="slide"
+              aria-label={`${index + 1} of ${shown.length}`}
+            >
+              <ResponsiveImage
+                image={image}
+                alt={image.alt_text || productName}
+                sizes="(min-width: 768px) 50vw, 100vw"
+                fit="contain"
+                loading={index === 0 ? 'eager' : 'lazy'}
+                onError={() => setFailed(prev => ({ ...prev, [image.image_path]: true }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        {shown.length > 1 && (
+          <>
+            <button
+              type="button"
+              onClick={() => goTo(active - 1)}
+              disabled={active === 0}
+              aria-label="Previous image"
+              className="hidden sm:flex absolute left-2 top-1/2 -translate-y-1/2 w-9 h-9 items-center justify-center rounded-full bg-white/90 shadow text-gray-700 hover:bg-white disabled:opacity-0 transition-opacity"
+            >
+              ‹
+            </button>
+            <button
+              type="button"
+              onClick={() => goTo(active + 1)}
+              disabled={active === shown.length - 1}
+              aria-label="Next image"
+              className="hidden sm:flex absolute right-2 top-1/2 -translate-y-1/2 w-9 h-9 items-center justify-center rounded-full bg-white/90 shadow text-gray-700 hover:bg-white disabled:opacity-0 transition-opacity"
+            >
+              ›
+            </button>
+            <span className="absolute bottom-2 right-2 bg-black/60 text-white text-xs px-2 py-0.5 rounded">
+              {active + 1} / {shown.length}
+            </span>
+          </>
+        )}
+      </div>
+
+      {shown.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {shown.map((image, index) => (
+            <button
+              key={image.image_path}
+              type="button"
+              onClick={() => goTo(index)}
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === active}
+              className={`flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border-2 touch-manipulation ${
+                index === active ? 'border-primary' : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+            >
+              <ResponsiveImage image={image} alt="" sizes="64px" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
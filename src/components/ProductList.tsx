@@ -1,15 +1,37 @@
 'use client';
 
 import { useState } from 'react';
-import type { Product } from '@/types/product';
+import { formatOrderQuantity, singularUnit } from '@/lib/units';
+import { getCoverImage, type Product, type ProductImage } from '@/types/product';
+import ResponsiveImage from './ResponsiveImage';
 
 interface ProductListProps {
   products: Product[];
   onDelete?: () => void;
   onEdit?: (product: Product) => void;
+  /** Show delete actions (owners only) */
+  canDelete?: boolean;
+  /** Shown when there are no products */
+  emptyMessage?: string;
+  /** Pagination: products matching across all pages, and where this page starts */
+  total?: number;
+  offset?: number;
+  pageSize?: number;
+  /** Called with the offset of the page to show */
+  onPageChange?: (offset: number) => void;
 }
 
-export default function ProductList({ products, onDelete, onEdit }: ProductListProps) {
+export default function ProductList({
+  products,
+  onDelete,
+  onEdit,
+  canDelete = true,
+  emptyMessage = 'No products yet. Add your first product above.',
+  total = products.length,
+  offset = 0,
+  pageSize = products.length,
+  onPageChange,
+}: ProductListProps) {
   const [deleting, setDeleting] = useState<string | null>(null);
   const [imageErrors, setImageErrors] = useState<Record<string, boolean>>({});
 
@@ -18,7 +40,7 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this product?')) {
+    if (!confirm('Move this product to the trash? You can restore it from the Trash page.')) {
       return;
     }
 
@@ -43,14 +65,16 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
     }
   };
 
-  const hasValidImage = (product: Product): boolean => {
-    return !!(product.image_path && !imageErrors[product.id]);
+  // Cover image to show, or null if there is none or it failed to load
+  const shownImage = (product: Product): Pick<ProductImage, 'image_path' | 'width' | 'height' | 'placeholder'> | null => {
+    if (imageErrors[product.id]) return null;
+    return getCoverImage(product.images || []) || (product.image_path ? { image_path: product.image_path } : null);
   };
 
   if (products.length === 0) {
     return (
       <div className="bg-white p-6 sm:p-8 rounded-lg shadow-md text-center text-gray-500">
-        <p className="text-base sm:text-lg">No products yet. Add your first product above.</p>
+        <p className="text-base sm:text-lg">{emptyMessage}</p>
       </div>
     );
   }
@@ -70,7 +94,7 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
                   Name
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Price per kg
+                  Price
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Min. Order
@@ -85,11 +109,11 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
                 <tr key={product.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4">
                     <div className="w-16 h-16 bg-gray-100 rounded overflow-hidden">
-                      {hasValidImage(product) ? (
-                        <img
-                          src={product.image_path!}
+                      {shownImage(product) ? (
+                        <ResponsiveImage
+                          image={shownImage(product)!}
                           alt={product.name}
-                          className="w-full h-full object-cover"
+                          sizes="64px"
                           onError={() => handleImageError(product.id)}
                         />
                       ) : (
@@ -103,9 +127,19 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
                   </td>
                   <td className="px-6 py-4 text-sm text-gray-900">{product.name}</td>
                   <td className="px-6 py-4 text-sm text-gray-900">
-                    ₹{Number(product.price).toLocaleString('en-IN')} <span className="text-gray-500">/kg</span>
+                    ₹{Number(product.price).toLocaleString('en-IN')} <span className="text-gray-500">/{singularUnit(product.min_order_unit)} + {product.gst_rate}% GST</span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {formatOrderQuantity(product.min_order_qty, product.min_order_unit)}
+                    {product.min_order_review && (
+                      <span
+                        className="ml-2 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs"
+                        title={`Imported from "${product.min_order_review}"`}
+                      >
+                        Needs review
+                      </span>
+                    )}
                   </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">{product.min_order_qty}</td>
                   <td className="px-6 py-4">
                     <div className="flex items-center gap-3">
                       {onEdit && (
@@ -119,16 +153,18 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
                           Edit
                         </button>
                       )}
-                      <button
-                        onClick={() => handleDelete(product.id)}
-                        disabled={deleting === product.id}
-                        className="text-red-600 hover:text-red-800 disabled:text-gray-400 font-medium flex items-center gap-1"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                        {deleting === product.id ? 'Deleting...' : 'Delete'}
-                      </button>
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDelete(product.id)}
+                          disabled={deleting === product.id}
+                          className="text-red-600 hover:text-red-800 disabled:text-gray-400 font-medium flex items-center gap-1"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                          {deleting === product.id ? 'Deleting...' : 'Delete'}
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -144,11 +180,11 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
           <div key={product.id} className="bg-white rounded-lg shadow-md overflow-hidden">
             <div className="flex gap-4 p-4">
               <div className="w-20 h-20 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
-                {hasValidImage(product) ? (
-                  <img
-                    src={product.image_path!}
+                {shownImage(product) ? (
+                  <ResponsiveImage
+                    image={shownImage(product)!}
                     alt={product.name}
-                    className="w-full h-full object-cover"
+                    sizes="80px"
                     onError={() => handleImageError(product.id)}
                   />
                 ) : (
@@ -163,40 +199,74 @@ export default function ProductList({ products, onDelete, onEdit }: ProductListP
               <div className="flex-grow min-w-0">
                 <h3 className="font-semibold text-gray-900 truncate">{product.name}</h3>
                 <p className="text-lg font-bold text-primary mt-1">
-                  ₹{Number(product.price).toLocaleString('en-IN')} <span className="text-sm text-gray-500">/kg</span>
+                  ₹{Number(product.price).toLocaleString('en-IN')} <span className="text-sm text-gray-500">/{singularUnit(product.min_order_unit)} + {product.gst_rate}% GST</span>
                 </p>
                 <p className="text-sm text-gray-600 mt-1">
-                  Min. Order: {product.min_order_qty}
+                  Min. Order: {formatOrderQuantity(product.min_order_qty, product.min_order_unit)}
+                  {product.min_order_review && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs">
+                      Needs review
+                    </span>
+                  )}
                 </p>
               </div>
             </div>
 
-            <div className="border-t border-gray-100 px-4 py-3 flex gap-3">
-              {onEdit && (
-                <button
-                  onClick={() => onEdit(product)}
-                  className="flex-1 bg-blue-50 text-blue-600 py-2 px-4 rounded-md font-medium hover:bg-blue-100 active:scale-95 touch-manipulation transition-all flex items-center justify-center gap-2"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                  </svg>
-                  Edit
-                </button>
-              )}
-              <button
-                onClick={() => handleDelete(product.id)}
-                disabled={deleting === product.id}
-                className="flex-1 bg-red-50 text-red-600 py-2 px-4 rounded-md font-medium hover:bg-red-100 disabled:bg-gray-100 disabled:text-gray-400 active:scale-95 touch-manipulation transition-all flex items-center justify-center gap-2"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-                {deleting === product.id ? 'Deleting...' : 'Delete'}
-              </button>
-            </div>
+            {(onEdit || canDelete) && (
+              <div className="border-t border-gray-100 px-4 py-3 flex gap-3">
+                {onEdit && (
+                  <button
+                    onClick={() => onEdit(product)}
+                    className="flex-1 bg-blue-50 text-blue-600 py-2 px-4 rounded-md font-medium hover:bg-blue-100 active:scale-95 touch-manipulation transition-all flex items-center justify-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                    Edit
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => handleDelete(product.id)}
+                    disabled={deleting === product.id}
+                    className="flex-1 bg-red-50 text-red-600 py-2 px-4 rounded-md font-medium hover:bg-red-100 disabled:bg-gray-100 disabled:text-gray-400 active:scale-95 touch-manipulation transition-all flex items-center justify-center gap-2"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                    {deleting === product.id ? 'Deleting...' : 'Delete'}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         ))}
       </div>
+
+      {/* Pagination */}
+      {onPageChange && total > products.length && (
+        <div className="mt-4 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+          <p className="text-sm text-gray-600">
+            Showing {offset + 1}–{offset + products.length} of {total}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onPageChange(Math.max(offset - pageSize, 0))}
+              disabled={offset === 0}
+              className="flex-1 sm:flex-none bg-white border border-gray-300 text-gray-700 py-2 px-4 rounded-md text-sm font-medium hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => onPageChange(offset + pageSize)}
+              disabled={offset + products.length >= total}
+              className="flex-1 sm:flex-none bg-white border border-gray-300 text-gray-700 py-2 px-4 rounded-md text-sm font-medium hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
     </>
   );
 }
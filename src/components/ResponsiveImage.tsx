@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { IMAGE_FORMATS, buildSrcSet, renditionUrls } from '@/lib/renditions';
+import type { ProductImage } from '@/types/product';
+
+interface ResponsiveImageProps {
+  image: Pick<ProductImage, 'image_path' | 'width' | 'height' | 'placeholder'>;
+  alt: string;
+  /** Rendered width for each breakpoint (the img sizes attribute) */
+  sizes: string;
+  fit?: 'cover' | 'contain';
+  loading?: 'lazy' | 'eager';
+  /** Classes for the wrapper, which fills its parent by default */
+  className?: string;
+  onError?: () => void;
+}
+
+const FIT_CLASSES = {
+  cover: 'object-cover',
+  contain: 'object-contain',
+};
+
+/**
+ * Image picked from an upload's renditions
+ * The browser chooses the smallest size and most compact format that
+ * fits, while the blurred placeholder stands in until the image fades
+ * in. Width and height are set so the box keeps its aspect ratio before
+ * anything loads. Images uploaded before processing existed are shown
+ * as they are.
+ */
+export default function ResponsiveImage({
+  image,
+  alt,
+  sizes,
+  fit = 'cover',
+  loading = 'lazy',
+  className = '',
+  onError,
+}: ResponsiveImageProps) {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  const renditions = renditionUrls(image.image_path);
+  const fitClass = FIT_CLASSES[fit];
+
+  // Cached images can finish loading before React attaches onLoad
+  useEffect(() => {
+    const img = imgRef.current;
+    if (img?.complete && img.naturalWidth > 0) {
+      setLoaded(true);
+    }
+  }, [image.image_path]);
+
+  return (
+    <span className={`relative block w-full h-full overflow-hidden ${className}`}>
+      {image.placeholder && !loaded && (
+        <img
+          src={image.placeholder}
+          alt=""
+          aria-hidden="true"
+          className={`absolute inset-0 w-full h-full ${fitClass} blur-lg scale-110`}
+        />
+      )}
+      <picture>
+        {renditions && IMAGE_FORMATS.filter(format => format !== 'jpeg').map(format => (
+          <source
+            key={format}
+            type={`image/${format}`}
+            srcSet={buildSrcSet(renditions, format, image.width)}
+            sizes={sizes}
+          />
+        ))}
+        <img
+          ref={imgRef}
+          src={image.image_path}
+          srcSet={renditions ? buildSrcSet(renditions, 'jpeg', image.width) : undefined}
+          sizes={renditions ? sizes : undefined}
+          width={image.width ?? undefined}
+          height={image.height ?? undefined}
+          alt={alt}
+          loading={loading}
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+          onError={onError}
+          className={`relative w-full h-full ${fitClass} transition-opacity duration-300 ${
+            loaded ? 'opacity-100' : 'opacity-0'
+          }`}
+        />
+      </picture>
+    </span>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Product, ProductRevision } from '@/types/product';
+
+interface RevisionHistoryProps {
+  product: Product;
+  canRestore?: boolean;
+  onRestore?: (product: Product) => void;
+}
+
+interface Version {
+  key: string;
+  label: string;
+  revision: number | null;
+  product: Product;
+}
+
+const COMPARED_FIELDS: { field: keyof Product; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'price', label: 'Price (₹)' },
+  { field: 'hsn_code', label: 'HSN/SAC' },
+  { field: 'gst_rate', label: 'GST (%)' },
+  { field: 'min_order_qty', label: 'Min. Order' },
+  { field: 'min_order_unit', label: 'Order Unit' },
+  { field: 'image_path', label: 'Cover image' },
+];
+
+/**
+ * Format a SQLite timestamp (UTC) for display
+ */
+function formatTimestamp(value: string): string {
+  if (!value) return '';
+  return new Date(value.replace(' ', 'T') + 'Z').toLocaleString('en-IN');
+}
+
+export default function RevisionHistory({ product, canRestore = false, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ProductRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [leftKey, setLeftKey] = useState('');
+  const [rightKey, setRightKey] = useState('current');
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      setLoading(true);
+      setError('');
+
+      try {
+        const response = await fetch(`/api/products/${product.id}/revisions`);
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load history');
+        }
+
+        setRevisions(data.data);
+        setLeftKey(data.data.length > 0 ? `rev-${data.data[0].revision}` : '');
+        setRightKey('current');
+      } catch (err) {
+        console.error('Failed to load revisions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [product]);
+
+  const versions: Version[] = [
+    { key: 'current', label: 'Current', revision: null, product },
+    ...revisions.map(rev => ({
+      key: `rev-${rev.revision}`,
+      label: `Revision ${rev.revision}`,
+      revision: rev.revision,
+      product: rev.snapshot,
+    })),
+  ];
+
+  const left = versions.find(v => v.key === leftKey);
+  const right = versions.find(v => v.key === rightKey);
+
+  const handleRestore = async (revision: number) => {
+    if (!confirm(`Restore "${product.name}" to revision ${revision}? The current version stays in the history.`)) {
+      return;
+    }
+
+    setRestoring(revision);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/products/${product.id}/revisions/${revision}/restore`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+
+      onRestore?.(data.data);
+    } catch (err) {
+      console.error('Restore error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderRestoreButton = (version?: Version) => {
+    if (!canRestore || !version || version.revision === null) return null;
+    const revision = version.revision;
+
+    return (
+      <button
+        type="button"
+        onClick={() => handleRestore(revision)}
+        disabled={restoring !== null}
+        className="mt-2 w-full bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-md text-sm font-medium disabled:opacity-50 touch-manipulation"
+      >
+        {restoring === revision ? 'Restoring...' : `Restore ${version.label}`}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-4 bg-white p-4 sm:p-6 rounded-lg border border-gray-200">
+      <h3 className="text-lg sm:text-xl font-bold text-gray-800">History</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-spin rounded-full h-8 w-8 border-4 border-primary border-t-transparent mx-auto"></div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">No earlier versions yet. Each update saves the previous version here.</p>
+      ) : (
+        <>
+          {/* Timeline */}
+          <ol className="border-l-2 border-gray-200 pl-4 space-y-3">
+            {revisions.map((rev) => (
+              <li key={rev.revision} className="relative">
+                <span className="absolute -left-[1.4rem] top-1.5 h-3 w-3 rounded-full bg-primary"></span>
+                <div className="flex flex-wrap items-center gap-x-2 text-sm">
+                  <span className="font-medium text-gray-900">Revision {rev.revision}</span>
+                  <span className="text-gray-600 truncate">{rev.snapshot.name} · ₹{rev.snapshot.price.toFixed(2)}</span>
+                  <button
+                    type="button"
+                    onClick={() => setLeftKey(`rev-${rev.revision}`)}
+                    className="ml-auto text-xs text-primary hover:underline"
+                  >
+                    Compare
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Replaced by {rev.actor_name} on {formatTimestamp(rev.created_at)}
+                </p>
+              </li>
+            ))}
+          </ol>
+
+          {/* Compare */}
+          <div className="border-t border-gray-100 pt-4">
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              {[
+                { value: leftKey, onChange: setLeftKey, label: 'Compare' },
+                { value: rightKey, onChange: setRightKey, label: 'With' },
+              ].map(({ value, onChange, label }) => (
+                <label key={label} className="block text-xs font-medium text-gray-600">
+                  {label}
+                  <select
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white"
+                  >
+                    {versions.map(v => (
+                      <option key={v.key} value={v.key}>{v.label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {left && right && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs sm:text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {COMPARED_FIELDS.map(({ field, label }) => {
+                      const leftValue = String(left.product[field] ?? '—');
+                      const rightValue = String(right.product[field] ?? '—');
+                      const changed = leftValue !== rightValue;
+
+                      return (
+                        <tr key={field} className={changed ? 'bg-yellow-50' : ''}>
+                          <td className="py-1.5 pr-3 font-medium text-gray-600 whitespace-nowrap">{label}</td>
+                          <td className="py-1.5 pr-3 text-gray-800 break-all">{leftValue}</td>
+                          <td className="py-1.5 text-gray-800 break-all">{rightValue}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>{renderRestoreButton(left)}</div>
+              <div>{renderRestoreButton(right)}</div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
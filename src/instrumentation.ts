@@ -0,0 +1,38 @@
+/**
+ * Server Startup Hook
+ *
+ * Refuses to start the production server while schema migrations
+ * are pending, so code never runs against an outdated database.
+ * In development a local database is migrated automatically (a
+ * :memory: database starts empty every time); a remote one only
+ * gets a warning, so GET /api/products?init=true can apply them.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { getDatabaseUrl, getDb, isLocalDatabaseUrl } = await import('./lib/db');
+  const { assertNoPendingMigrations, migrateUp } = await import('./lib/migrations');
+
+  // Without a database the app reports the missing configuration itself
+  const url = getDatabaseUrl();
+  if (!url || (!isLocalDatabaseUrl(url) && !process.env.TURSO_AUTH_TOKEN)) {
+    return;
+  }
+
+  if (isLocalDatabaseUrl(url) && process.env.NODE_ENV !== 'production') {
+    await migrateUp(getDb());
+    return;
+  }
+
+  try {
+    await assertNoPendingMigrations(getDb());
+  } catch (error) {
+    if (process.env.NODE_ENV === 'production') {
+      throw error;
+    }
+    console.warn(error instanceof Error ? error.message : error);
+  }
+}
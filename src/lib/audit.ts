@@ -0,0 +1,193 @@
+/**
+ * Audit Log Module
+ *
+ * Records every product and image change with:
+ * - Actor (who made the change)
+ * - Action and affected product
+ * - Before/after JSON snapshots
+ *
+ * Recording never throws - a failed audit write is logged
+ * but does not undo or block the change itself.
+ */
+
+import type { InArgs, Row } from '@libsql/client';
+import { getDb } from './db';
+import { AUDIT_CONFIG } from './constants';
+import type {
+  AuditAction,
+  AuditActor,
+  AuditEntry,
+  AuditFieldChange,
+  AuditFilters,
+} from '@/types/audit';
+
+/**
+ * Input for recording an audit entry
+ */
+export interface AuditRecordInput {
+  actor?: AuditActor | null;
+  action: AuditAction;
+  productId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+/**
+ * Compare two snapshots field by field
+ * @returns Changed fields (added, removed or modified)
+ */
+export function diffSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    if ((AUDIT_CONFIG.IGNORED_DIFF_FIELDS as readonly string[]).includes(field)) {
+      continue;
+    }
+
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Parse a stored JSON snapshot
+ */
+function parseSnapshot(value: unknown): Record<string, unknown> | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(String(value));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a database row to an AuditEntry
+ */
+function rowToEntry(row: Row): AuditEntry {
+  const before = parseSnapshot(row.before_json);
+  const after = parseSnapshot(row.after_json);
+
+  return {
+    id: Number(row.id),
+    actor_id: row.actor_id ? String(row.actor_id) : null,
+    actor_name: String(row.actor_name || 'system'),
+    action: String(row.action) as AuditAction,
+    product_id: row.product_id ? String(row.product_id) : null,
+    before,
+    after,
+    changes: diffSnapshots(before, after),
+    created_at: String(row.created_at || ''),
+  };
+}
+
+/**
+ * Record an audit entry
+ * Errors are logged and swallowed so auditing never breaks a write.
+ */
+export async function recordAudit(input: AuditRecordInput): Promise<void> {
+  try {
+    const database = getDb();
+
+    await database.execute({
+      sql: `
+        INSERT INTO audit_log (actor_id, actor_name, action, product_id, before_json, after_json)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        input.actor?.id ?? null,
+        input.actor?.username ?? 'system',
+        input.action,
+        input.productId ?? null,
+        input.before ? JSON.stringify(input.before) : null,
+        input.after ? JSON.stringify(input.after) : null,
+      ],
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry (${input.action}):`, error);
+  }
+}
+
+/**
+ * Query the audit log, newest first
+ * @returns Matching entries for the requested page and the total count
+ */
+export async function getAuditEntries(
+  filters: AuditFilters = {}
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const conditions: string[] = [];
+  const args: InArgs = [];
+
+  if (filters.productId) {
+    conditions.push('product_id = ?');
+    args.push(filters.productId);
+  }
+
+  if (filters.actor) {
+    conditions.push('(actor_id = ? OR actor_name = ? COLLATE NOCASE)');
+    args.push(filters.actor, filters.actor);
+  }
+
+  if (filters.action) {
+    conditions.push('action = ?');
+    args.push(filters.action);
+  }
+
+  if (filters.from) {
+    conditions.push('created_at >= datetime(?)');
+    args.push(filters.from);
+  }
+
+  if (filters.to) {
+    // A bare date includes the whole day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(filters.to)) {
+      conditions.push("created_at < datetime(?, '+1 day')");
+    } else {
+      conditions.push('created_at <= datetime(?)');
+    }
+    args.push(filters.to);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limit = Math.min(
+    Math.max(filters.limit || AUDIT_CONFIG.DEFAULT_PAGE_SIZE, 1),
+    AUDIT_CONFIG.MAX_PAGE_SIZE
+  );
+  const offset = Math.max(filters.offset || 0, 0);
+
+  try {
+    const database = getDb();
+
+    const [rows, count] = await Promise.all([
+      database.execute({
+        sql: `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+        args: [...args, limit, offset],
+      }),
+      database.execute({
+        sql: `SELECT COUNT(*) as count FROM audit_log ${where}`,
+        args,
+      }),
+    ]);
+
+    return {
+      entries: rows.rows.map(rowToEntry),
+      total: Number(count.rows[0]?.count) || 0,
+    };
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    throw new Error('Failed to fetch audit log');
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Authentication Module
+ *
+ * Server-side admin sessions:
+ * - Signed, httpOnly session cookie with expiry
+ * - Session records stored in the database so logout invalidates them
+ * - Route wrapper that rejects unauthenticated requests with 401
+ *   and requests from users without the required role with 403
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from './db';
+import { AUTH_CONFIG } from './constants';
+import type { ApiError } from '@/types/api';
+import { hasRole } from '@/types/user';
+import type { User, UserRole } from '@/types/user';
+
+/**
+ * Active admin session
+ */
+export interface Session {
+  id: string;
+  expiresAt: number;
+  user: Pick<User, 'id' | 'username' | 'role'>;
+}
+
+/**
+ * Signed cookie contents
+ */
+type SessionToken = Pick<Session, 'id' | 'expiresAt'>;
+
+/**
+ * Get the secret used to sign session cookies and login challenges
+ * It must be set on its own: the shared bootstrap password or the
+ * example value would let anyone who knows them sign tokens.
+ * @throws Error if SESSION_SECRET is missing, short, the example value or ADMIN_PASSWORD
+ */
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET || '';
+
+  if (
+    secret.length < AUTH_CONFIG.MIN_SESSION_SECRET_LENGTH ||
+    (AUTH_CONFIG.PLACEHOLDER_SESSION_SECRETS as readonly string[]).includes(secret) ||
+    secret === process.env.ADMIN_PASSWORD
+  ) {
+    throw new Error(
+      `SESSION_SECRET must be set to a random value of at least ${AUTH_CONFIG.MIN_SESSION_SECRET_LENGTH} characters, different from ADMIN_PASSWORD`
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Sign a session payload with HMAC-SHA256
+ */
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Compare two secrets in constant time
+ * Both values are hashed first so differing lengths don't leak timing
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const digestA = createHmac('sha256', 'compare').update(a).digest();
+  const digestB = createHmac('sha256', 'compare').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Build the cookie value: <sessionId>.<expiresAt>.<signature>
+ */
+function encodeToken(session: SessionToken): string {
+  const payload = `${session.id}.${session.expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Parse and verify a cookie value
+ * @returns Session data or null if the signature is invalid or expired
+ */
+function decodeToken(token: string): SessionToken | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [id, expiresAtRaw, signature] = parts;
+  const expected = Buffer.from(sign(`${id}.${expiresAtRaw}`));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const expiresAt = Number(expiresAtRaw);
+  if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    return null;
+  }
+
+  return { id, expiresAt };
+}
+
+/**
+ * Read the challenge ID from a signed challenge token
+ * @returns Challenge ID or null if the signature is invalid
+ */
+function decodeChallenge(token: string): string | null {
+  const parts = token.split('.');
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const [id, signature] = parts;
+  const expected = Buffer.from(sign(`2fa:${id}`));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return id;
+}
+
+/**
+ * Create a short-lived token proving the password step passed
+ * Used as the first half of a two-step login when 2FA is enabled.
+ * The challenge is recorded in the database and can be used once.
+ */
+export async function createLoginChallenge(userId: string): Promise<string> {
+  const id = randomBytes(32).toString('base64url');
+  const expiresAt = Date.now() + AUTH_CONFIG.LOGIN_CHALLENGE_TTL_SECONDS * 1000;
+
+  const database = getDb();
+  await database.execute({
+    sql: 'INSERT INTO login_challenges (id, user_id, expires_at) VALUES (?, ?, ?)',
+    args: [id, userId, expiresAt],
+  });
+
+  // Opportunistically clear out expired challenges
+  await database.execute({
+    sql: 'DELETE FROM login_challenges WHERE expires_at <= ?',
+    args: [Date.now()],
+  });
+
+  return `${id}.${sign(`2fa:${id}`)}`;
+}
+
+/**
+ * Verify a login challenge token without using it up
+ * (a mistyped code can be tried again with the same challenge)
+ * @returns User ID or null if invalid, expired or already used
+ */
+export async function verifyLoginChallenge(token: string): Promise<string | null> {
+  const id = decodeChallenge(token);
+  if (!id) {
+    return null;
+  }
+
+  const database = getDb();
+  const result = await database.execute({
+    sql: 'SELECT user_id FROM login_challenges WHERE id = ? AND expires_at > ?',
+    args: [id, Date.now()],
+  });
+
+  return result.rows.length > 0 ? String(result.rows[0].user_id) : null;
+}
+
+/**
+ * Use up a login challenge once its second factor has passed
+ * @returns User ID, or null if it was expired or already used (e.g. by a parallel request)
+ */
+export async function consumeLoginChallenge(token: string): Promise<string | null> {
+  const id = decodeChallenge(token);
+  if (!id) {
+    return null;
+  }
+
+  const database = getDb();
+  const result = await database.execute({
+    sql: 'DELETE FROM login_challenges WHERE id = ? AND expires_at > ? RETURNING user_id',
+    args: [id, Date.now()],
+  });
+
+  return result.rows.length > 0 ? String(result.rows[0].user_id) : null;
+}
+
+/**
+ * Create a new session record for a user
+ * @returns Signed token to store in the session cookie
+ */
+export async function createSession(user: User): Promise<{ token: string; session: Session }> {
+  const session: Session = {
+    id: randomBytes(32).toString('base64url'),
+    expiresAt: Date.now() + AUTH_CONFIG.SESSION_TTL_SECONDS * 1000,
+    user: { id: user.id, username: user.username, role: user.role },
+  };
+
+  const database = getDb();
+  await database.execute({
+    sql: 'INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)',
+    args: [session.id, user.id, session.expiresAt],
+  });
+
+  // Opportunistically clear out expired sessions
+  await database.execute({
+    sql: 'DELETE FROM sessions WHERE expires_at <= ?',
+    args: [Date.now()],
+  });
+
+  return { token: encodeToken(session), session };
+}
+
+/**
+ * Verify a session token against its signature and the database
+ * @returns Session or null if invalid, expired or revoked
+ */
+export async function verifySession(token: string | undefined): Promise<Session | null> {
+  if (!token) {
+    return null;
+  }
+
+  const decoded = decodeToken(token);
+  if (!decoded) {
+    return null;
+  }
+
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: `
+        SELECT s.id, s.expires_at, u.id AS user_id, u.username, u.role
+        FROM sessions s
+        JOIN users u ON u.id = s.user_id
+        WHERE s.id = ? AND s.expires_at > ?
+      `,
+      args: [decoded.id, Date.now()],
+    });
+
+    if (!result.rows || result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      id: String(row.id),
+      expiresAt: Number(row.expires_at),
+      user: {
+        id: String(row.user_id),
+        username: String(row.username),
+        role: String(row.role) as UserRole,
+      },
+    };
+  } catch (error) {
+    console.error('Error verifying session:', error);
+    return null;
+  }
+}
+
+/**
+ * Invalidate a session so its cookie can no longer be used
+ */
+export async function destroySession(token: string | undefined): Promise<void> {
+  const decoded = token ? decodeToken(token) : null;
+  if (!decoded) {
+    return;
+  }
+
+  const database = getDb();
+  await database.execute({
+    sql: 'DELETE FROM sessions WHERE id = ?',
+    args: [decoded.id],
+  });
+}
+
+/**
+ * Read and verify the session attached to a request
+ */
+export async function getSession(request: NextRequest): Promise<Session | null> {
+  return verifySession(request.cookies.get(AUTH_CONFIG.SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, token: string, session: Session): void {
+  response.cookies.set(AUTH_CONFIG.SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(session.expiresAt),
+  });
+}
+
+/**
+ * Remove the session cookie from the browser
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(AUTH_CONFIG.SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
+
+/**
+ * Standard 401 response for unauthenticated requests
+ */
+export function unauthorizedResponse(): NextResponse<ApiError> {
+  return NextResponse.json<ApiError>(
+    {
+      success: false,
+      error: 'Authentication required',
+    },
+    { status: 401 }
+  );
+}
+
+/**
+ * Standard 403 response for users without the required role
+ */
+export function forbiddenResponse(required: UserRole): NextResponse<ApiError> {
+  return NextResponse.json<ApiError>(
+    {
+      success: false,
+      error: `This action requires the ${required} role`,
+    },
+    { status: 403 }
+  );
+}
+
+/**
+ * Wrap a route handler so it only runs for authenticated admins
+ * with at least the given role (any signed-in user by default)
+ *
+ * Usage:
+ *   export const POST = withAuth(async (request, context, session) => { ... }, 'editor');
+ */
+export function withAuth<C>(
+  handler: (request: NextRequest, context: C, session: Session) => Promise<Response>,
+  requiredRole: UserRole = 'viewer'
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request: NextRequest, context: C) => {
+    const session = await getSession(request);
+    if (!session) {
+      return unauthorizedResponse();
+    }
+    if (!hasRole(session.user.role, requiredRole)) {
+      return forbiddenResponse(requiredRole);
+    }
+    return handler(request, context, session);
+  };
+}
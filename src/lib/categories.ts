@@ -0,0 +1,314 @@
+/**
+ * Categories Module
+ *
+ * Handles product categories:
+ * - Nested categories (any depth) with unique URL slugs
+ * - CRUD operations, with cycle checks when moving a category
+ * - Product counts per category
+ *
+ * Deleting a category moves its subcategories up to its parent
+ * and removes it from products; the products themselves stay.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Row } from '@libsql/client';
+import { getDb } from './db';
+import { CATEGORY_CONFIG } from './constants';
+import type { Category, CategoryInput, CategoryUpdate } from '@/types/category';
+
+// Categories with the number of active products directly in each
+const CATEGORY_SELECT = `
+  SELECT categories.*, (
+    SELECT COUNT(*) FROM product_categories
+    JOIN products ON products.id = product_categories.product_id
+    WHERE product_categories.category_id = categories.id AND products.deleted_at IS NULL
+  ) AS product_count
+  FROM categories
+`;
+
+/**
+ * Map a database row to a Category
+ */
+function rowToCategory(row: Row): Category {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    slug: String(row.slug),
+    description: row.description ? String(row.description) : null,
+    parent_id: row.parent_id ? String(row.parent_id) : null,
+    product_count: Number(row.product_count) || 0,
+    created_at: String(row.created_at || ''),
+    updated_at: String(row.updated_at || row.created_at || ''),
+  };
+}
+
+/**
+ * Turn a name into a URL slug (e.g. "Sheet Cutting & Bending" -> "sheet-cutting-bending")
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, CATEGORY_CONFIG.MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Get all categories
+ * @returns Flat list sorted by name (see buildCategoryTree for nesting)
+ */
+export async function getAllCategories(): Promise<Category[]> {
+  try {
+    const database = getDb();
+    const result = await database.execute(`${CATEGORY_SELECT} ORDER BY name COLLATE NOCASE`);
+
+    return result.rows.map(rowToCategory);
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    throw new Error('Failed to fetch categories from database');
+  }
+}
+
+/**
+ * Get single category by ID
+ * @returns Category or null if not found
+ */
+export async function getCategoryById(id: string): Promise<Category | null> {
+  if (!id || typeof id !== 'string') {
+    return null;
+  }
+
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: `${CATEGORY_SELECT} WHERE id = ?`,
+      args: [id],
+    });
+
+    return result.rows.length > 0 ? rowToCategory(result.rows[0]) : null;
+  } catch (error) {
+    console.error(`Error fetching category ${id}:`, error);
+    throw new Error(`Failed to fetch category ${id}`);
+  }
+}
+
+/**
+ * Get single category by slug
+ * @returns Category or null if not found
+ */
+export async function getCategoryBySlug(slug: string): Promise<Category | null> {
+  if (!slug || typeof slug !== 'string') {
+    return null;
+  }
+
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: `${CATEGORY_SELECT} WHERE slug = ?`,
+      args: [slug],
+    });
+
+    return result.rows.length > 0 ? rowToCategory(result.rows[0]) : null;
+  } catch (error) {
+    console.error(`Error fetching category ${slug}:`, error);
+    throw new Error(`Failed to fetch category ${slug}`);
+  }
+}
+
+/**
+ * Get a category's ancestors, top-level first (for breadcrumbs)
+ */
+export async function getCategoryPath(category: Category): Promise<Category[]> {
+  const all = await getAllCategories();
+  const byId = new Map(all.map(c => [c.id, c]));
+  const path: Category[] = [];
+
+  let parentId = category.parent_id;
+  while (parentId && byId.has(parentId) && path.length < all.length) {
+    const parent = byId.get(parentId)!;
+    path.unshift(parent);
+    parentId = parent.parent_id;
+  }
+
+  return path;
+}
+
+/**
+ * Find which of the given category IDs don't exist
+ */
+export async function findMissingCategoryIds(ids: string[]): Promise<string[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const database = getDb();
+  const result = await database.execute({
+    sql: `SELECT id FROM categories WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    args: ids,
+  });
+  const found = new Set(result.rows.map(row => String(row.id)));
+
+  return ids.filter(id => !found.has(id));
+}
+
+/**
+ * Check a slug is free (optionally ignoring one category)
+ * @throws Error if the slug is already taken
+ */
+async function assertSlugAvailable(slug: string, exceptId?: string): Promise<void> {
+  const existing = await getCategoryBySlug(slug);
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`Slug "${slug}" is already taken`);
+  }
+}
+
+/**
+ * Check a parent exists and would not create a cycle
+ * @throws Error if the parent is missing, the category itself or one of its descendants
+ */
+async function assertValidParent(parentId: string, categoryId?: string): Promise<void> {
+  const all = await getAllCategories();
+  const byId = new Map(all.map(c => [c.id, c]));
+
+  if (!byId.has(parentId)) {
+    throw new Error('Parent category not found');
+  }
+
+  // Walk up from the new parent - reaching the category means a cycle
+  let current: string | null = parentId;
+  for (let steps = 0; current && steps <= all.length; steps++) {
+    if (current === categoryId) {
+      throw new Error('A category cannot be moved inside itself or one of its subcategories');
+    }
+    current = byId.get(current)?.parent_id ?? null;
+  }
+}
+
+/**
+ * Create new category
+ * @throws Error if the slug is taken or the parent doesn't exist
+ */
+export async function createCategory(input: CategoryInput): Promise<Category> {
+  const slug = input.slug || slugify(input.name);
+  if (!slug) {
+    throw new Error('Could not generate a slug from the name - please provide one');
+  }
+
+  await assertSlugAvailable(slug);
+  if (input.parent_id) {
+    await assertValidParent(input.parent_id);
+  }
+
+  const id = `${CATEGORY_CONFIG.CATEGORY_ID_PREFIX}${randomBytes(8).toString('hex')}`;
+
+  try {
+    const database = getDb();
+    await database.execute({
+      sql: `
+        INSERT INTO categories (id, name, slug, description, parent_id)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+      args: [id, input.name.trim(), slug, input.description?.trim() || null, input.parent_id || null],
+    });
+  } catch (error) {
+    console.error('Error creating category:', error);
+    throw new Error('Failed to create category in database');
+  }
+
+  const category = await getCategoryById(id);
+  if (!category) {
+    throw new Error('Category was created but could not be retrieved');
+  }
+
+  console.log('Category created successfully:', category.id);
+  return category;
+}
+
+/**
+ * Update category
+ * @returns Updated category or null if not found
+ * @throws Error if the new slug is taken or the new parent is invalid
+ */
+export async function updateCategory(id: string, input: CategoryUpdate): Promise<Category | null> {
+  const existing = await getCategoryById(id);
+  if (!existing) return null;
+
+  const fields: string[] = [];
+  const values: (string | null)[] = [];
+
+  if (input.name !== undefined) {
+    fields.push('name = ?');
+    values.push(input.name.trim());
+  }
+
+  if (input.slug !== undefined && input.slug !== existing.slug) {
+    await assertSlugAvailable(input.slug, id);
+    fields.push('slug = ?');
+    values.push(input.slug);
+  }
+
+  if (input.description !== undefined) {
+    fields.push('description = ?');
+    values.push(input.description?.trim() || null);
+  }
+
+  if (input.parent_id !== undefined && input.parent_id !== existing.parent_id) {
+    if (input.parent_id) {
+      await assertValidParent(input.parent_id, id);
+    }
+    fields.push('parent_id = ?');
+    values.push(input.parent_id || null);
+  }
+
+  if (fields.length === 0) {
+    return existing;
+  }
+
+  fields.push('updated_at = CURRENT_TIMESTAMP');
+  values.push(id);
+
+  try {
+    const database = getDb();
+    await database.execute({
+      sql: `UPDATE categories SET ${fields.join(', ')} WHERE id = ?`,
+      args: values,
+    });
+  } catch (error) {
+    console.error(`Error updating category ${id}:`, error);
+    throw new Error(`Failed to update category ${id}`);
+  }
+
+  console.log('Category updated successfully:', id);
+  return getCategoryById(id);
+}
+
+/**
+ * Delete category
+ * Subcategories move up to the deleted category's parent.
+ * @returns true if deleted, false if not found
+ */
+export async function deleteCategory(id: string): Promise<boolean> {
+  const existing = await getCategoryById(id);
+  if (!existing) return false;
+
+  try {
+    const database = getDb();
+    await database.batch([
+      {
+        sql: 'UPDATE categories SET parent_id = ?, updated_at = CURRENT_TIMESTAMP WHERE parent_id = ?',
+        args: [existing.parent_id, id],
+      },
+      { sql: 'DELETE FROM product_categories WHERE category_id = ?', args: [id] },
+      { sql: 'DELETE FROM categories WHERE id = ?', args: [id] },
+    ], 'write');
+  } catch (error) {
+    console.error(`Error deleting category ${id}:`, error);
+    throw new Error(`Failed to delete category ${id}`);
+  }
+
+  console.log('Category deleted successfully:', id);
+  return true;
+}
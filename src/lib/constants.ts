@@ -12,6 +12,12 @@ export const IMAGE_CONFIG = {
   /** Maximum file size in bytes (5MB) */
   MAX_FILE_SIZE: 5 * 1024 * 1024,
 
+  /** Longest side an upload may have, in pixels */
+  MAX_INPUT_DIMENSION: 10000,
+
+  /** Most pixels an upload may have (guards against decompression bombs) */
+  MAX_INPUT_PIXELS: 40_000_000,
+
   /** Allowed MIME types */
   ALLOWED_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
 
@@ -26,6 +32,49 @@ export const IMAGE_CONFIG = {
 
   /** Thumbnail width */
   THUMBNAIL_WIDTH: 300,
+
+  /** Medium rendition width (product cards) */
+  MEDIUM_WIDTH: 600,
+
+  /** Longest side of the blurred loading placeholder */
+  PLACEHOLDER_WIDTH: 16,
+
+  /** Maximum gallery images per product */
+  MAX_IMAGES_PER_PRODUCT: 10,
+
+  /** Maximum alt text length */
+  MAX_ALT_TEXT_LENGTH: 200,
+
+  /** Most bits (of 64) two image hashes may differ by to count as duplicates */
+  DUPLICATE_MAX_DISTANCE: 6,
+
+  /** Most duplicates reported for one upload */
+  MAX_DUPLICATES: 5,
+
+  /**
+   * Crop shapes offered before upload (width / height; null keeps the
+   * photo's shape). The first is selected by default.
+   */
+  CROP_ASPECT_RATIOS: [
+    { label: 'Square', value: 1 },
+    { label: '4:3', value: 4 / 3 },
+    { label: '3:4', value: 3 / 4 },
+    { label: 'Original', value: null },
+  ],
+
+  /** Most zoom allowed when cropping */
+  MAX_CROP_ZOOM: 4,
+} as const;
+
+/**
+ * File storage settings
+ */
+export const STORAGE_CONFIG = {
+  /** Where uploads are stored: blob (Vercel Blob), local (public/images) or s3 */
+  BACKEND: process.env.STORAGE_BACKEND || 'blob',
+
+  /** Folder product images are kept in, in every backend */
+  FOLDER: 'products',
 } as const;
 
 /**
@@ -46,15 +95,24 @@ export const PRODUCT_CONFIG = {
 
   /** Maximum order quantity */
   MAX_ORDER_QTY: 10000,
+
+  /** Units a minimum order can be given in */
+  ORDER_UNITS: ['pcs', 'kg', 'sheets', 'metres', 'sq ft'],
+
+  /** Units that can only be ordered in whole numbers */
+  WHOLE_ORDER_UNITS: ['pcs', 'sheets'],
 } as const;
 
 /**
  * UI settings
  */
 export const UI_CONFIG = {
-  /** Products per page (for future pagination) */
+  /** Products per page (default page size of the product list) */
   PRODUCTS_PER_PAGE: 12,
 
+  /** Largest page size the product list API accepts */
+  MAX_PRODUCTS_PER_PAGE: 100,
+
   /** Grid columns on different screens */
   GRID_COLUMNS: {
     mobile: 1,
@@ -73,4 +131,188 @@ export const DB_CONFIG = {
 
   /** Product ID prefix */
   PRODUCT_ID_PREFIX: 'prod_',
+
+  /** How long a local SQLite write waits for another writer's lock (ms) */
+  BUSY_TIMEOUT_MS: 5000,
+} as const;
+
+/**
+ * Authentication settings
+ */
+export const AUTH_CONFIG = {
+  /** Name of the httpOnly session cookie */
+  SESSION_COOKIE_NAME: 'ssrs_session',
+
+  /** Session lifetime in seconds (30 minutes) */
+  SESSION_TTL_SECONDS: 30 * 60,
+
+  /** Failed logins are forgotten after this many seconds without a new failure */
+  FAILURE_WINDOW_SECONDS: 15 * 60,
+
+  /** Failures allowed before exponential backoff starts */
+  BACKOFF_AFTER_FAILURES: 3,
+
+  /** First backoff delay in seconds (doubles with each further failure) */
+  BACKOFF_BASE_SECONDS: 2,
+
+  /** Longest backoff delay in seconds */
+  BACKOFF_MAX_SECONDS: 5 * 60,
+
+  /** Failures per account before a full lockout */
+  ACCOUNT_LOCKOUT_AFTER_FAILURES: 10,
+
+  /** Failures per IP address before a full lockout (higher, as offices share IPs) */
+  IP_LOCKOUT_AFTER_FAILURES: 30,
+
+  /** Lockout duration in seconds */
+  LOCKOUT_SECONDS: 15 * 60,
+
+  /** Issuer name shown in authenticator apps */
+  TOTP_ISSUER: 'SSRS Admin',
+
+  /** Number of one-time recovery codes issued when enabling 2FA */
+  RECOVERY_CODE_COUNT: 10,
+
+  /** Shortest SESSION_SECRET accepted */
+  MIN_SESSION_SECRET_LENGTH: 32,
+
+  /** Example SESSION_SECRET values that must never sign real sessions */
+  PLACEHOLDER_SESSION_SECRETS: ['change-me-to-a-long-random-string-0123'],
+
+  /** Seconds allowed between password check and 2FA code entry */
+  LOGIN_CHALLENGE_TTL_SECONDS: 5 * 60,
+
+  /**
+   * Proxies in front of the app that append to X-Forwarded-For (e.g. 1
+   * behind nginx). 0 trusts no forwarding headers and uses the platform IP.
+   */
+  TRUSTED_PROXY_HOPS: parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10),
+} as const;
+
+/**
+ * User account settings
+ */
+export const USER_CONFIG = {
+  /** Available roles, lowest privilege first */
+  ROLES: ['viewer', 'editor', 'owner'],
+
+  /** Minimum password length */
+  MIN_PASSWORD_LENGTH: 8,
+
+  /** Maximum username length */
+  MAX_USERNAME_LENGTH: 50,
+
+  /** User ID prefix */
+  USER_ID_PREFIX: 'usr_',
+} as const;
+
+/**
+ * Category settings
+ */
+export const CATEGORY_CONFIG = {
+  /** Maximum category name length */
+  MAX_NAME_LENGTH: 60,
+
+  /** Maximum category description length */
+  MAX_DESCRIPTION_LENGTH: 500,
+
+  /** Maximum slug length */
+  MAX_SLUG_LENGTH: 80,
+
+  /** Category ID prefix */
+  CATEGORY_ID_PREFIX: 'cat_',
+} as const;
+
+/**
+ * Product variant settings
+ */
+export const VARIANT_CONFIG = {
+  /** Maximum variants per product */
+  MAX_VARIANTS_PER_PRODUCT: 50,
+
+  /** Maximum SKU length */
+  MAX_SKU_LENGTH: 40,
+
+  /** Maximum length of size, thickness and material */
+  MAX_ATTRIBUTE_LENGTH: 50,
+
+  /** Variant ID prefix */
+  VARIANT_ID_PREFIX: 'var_',
+} as const;
+
+/**
+ * Tiered pricing settings
+ */
+export const PRICING_CONFIG = {
+  /** Maximum price tiers per product */
+  MAX_TIERS: 10,
+} as const;
+
+/**
+ * GST settings
+ */
+export const TAX_CONFIG = {
+  /** GST rates (percent) a product can be given */
+  GST_RATES: [0, 0.25, 3, 5, 12, 18, 28, 40],
+
+  /** GST rate for products that don't set one */
+  DEFAULT_GST_RATE: 18,
+
+  /** Show storefront prices with GST added ("incl. GST") or as "+ GST" */
+  PRICE_DISPLAY: process.env.NEXT_PUBLIC_GST_DISPLAY === 'inclusive' ? 'inclusive' : 'exclusive',
+} as const;
+
+/**
+ * Trash settings
+ */
+export const TRASH_CONFIG = {
+  /** Days a deleted product stays in the trash before it is purged */
+  RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+} as const;
+
+/**
+ * Product history settings
+ */
+export const REVISION_CONFIG = {
+  /** Days a product revision (and the images it shows) is kept */
+  RETENTION_DAYS: parseInt(process.env.REVISION_RETENTION_DAYS || '30', 10),
+} as const;
+
+/**
+ * Unused upload cleanup settings
+ */
+export const UPLOAD_CONFIG = {
+  /** Hours an unused upload is kept before the sweeper deletes it */
+  GRACE_HOURS: parseInt(process.env.UPLOAD_GRACE_HOURS || '24', 10),
+} as const;
+
+/**
+ * Product search settings
+ */
+export const SEARCH_CONFIG = {
+  /** Longest accepted search query */
+  MAX_QUERY_LENGTH: 100,
+
+  /** Results returned when no limit is given */
+  DEFAULT_RESULTS: 20,
+
+  /** Largest number of results the API will return */
+  MAX_RESULTS: 50,
+
+  /** Word similarity (0-1, by edit distance) a typo must reach to count as a match */
+  MIN_FUZZY_SIMILARITY: 0.6,
+} as const;
+
+/**
+ * Audit log settings
+ */
+export const AUDIT_CONFIG = {
+  /** Entries per page when no limit is given */
+  DEFAULT_PAGE_SIZE: 50,
+
+  /** Largest page size the API will return */
+  MAX_PAGE_SIZE: 200,
+
+  /** Fields left out of field-level diffs (they change on every write) */
+  IGNORED_DIFF_FIELDS: ['updated_at'],
 } as const;
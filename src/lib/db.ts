@@ -3,32 +3,104 @@
  *
  * Handles all database operations including:
  * - Connection management with retry logic
- * - CRUD operations for products
- * - Schema initialization
+ * - CRUD operations for products (audited when an actor is given)
+ * - Revision snapshots on every product update
+ * - Soft delete with trash and permanent purge
+ * - Category membership and gallery images (stored with the product in one batch)
+ * - Schema initialization (via versioned migrations)
  * - Error recovery
  *
- * Uses Turso (@libsql/client) for serverless SQLite operations.
+ * Uses Turso (@libsql/client) for serverless SQLite operations, or a
+ * local SQLite file / in-memory database for offline development and tests.
  */
 
-import { createClient, Client } from '@libsql/client';
-import { Product, ProductInput } from '@/types/product';
-import { DB_CONFIG } from './constants';
+import { createClient, Client, InStatement, InValue, Row } from '@libsql/client';
+import {
+  Product,
+  ProductImage,
+  ProductInput,
+  ProductQuery,
+  ProductSortField,
+  ProductStats,
+  ProductVariant,
+  PriceTier,
+  SortOrder,
+  getCoverImage,
+} from '@/types/product';
+import { DB_CONFIG, TAX_CONFIG, UI_CONFIG } from './constants';
+import { sortPriceTiers } from './pricing';
+import { isOrderUnit } from './units';
+import { recordAudit } from './audit';
+import { buildRevisionInsert } from './revisions';
+import { buildUploadLinks } from './uploads';
+import { migrateUp } from './migrations';
+import type { AuditActor } from '@/types/audit';
+import type { ProductListResponse } from '@/types/api';
 
-// Singleton database instance
-let db: Client | null = null;
+// Singleton database instance, kept on globalThis so every route bundle
+// (and dev hot reloads) share one client - required for :memory: databases
+const globalForDb = globalThis as typeof globalThis & { ssrsDb?: Client | null };
 let connectionAttempts = 0;
 const MAX_CONNECTION_ATTEMPTS = 3;
 
+// Product columns plus its category IDs (comma-separated), variants,
+// price tiers and images with their upload details (JSON arrays) - see rowToProduct
+export const PRODUCT_COLUMNS = `products.*, (
+  SELECT group_concat(category_id) FROM product_categories WHERE product_id = products.id
+) AS category_ids, (
+  SELECT json_group_array(json_object(
+    'id', id, 'product_id', product_id, 'sku', sku,
+    'size', size, 'thickness', thickness, 'material', material,
+    'price', price, 'min_order_qty', min_order_qty,
+    'created_at', created_at, 'updated_at', updated_at
+  )) FROM product_variants WHERE product_id = products.id
+) AS variants, (
+  SELECT json_group_array(json_object('min_qty', min_qty, 'max_qty', max_qty, 'price', price))
+  FROM product_price_tiers WHERE product_id = products.id
+) AS price_tiers, (
+  SELECT json_group_array(json_object(
+    'image_path', product_images.image_path, 'alt_text', alt_text, 'position', position, 'is_cover', is_cover,
+    'width', uploads.width, 'height', uploads.height, 'placeholder', uploads.placeholder
+  )) FROM product_images LEFT JOIN uploads ON uploads.image_path = product_images.image_path
+  WHERE product_images.product_id = products.id
+) AS images`;
+
+// Product IDs come from an atomic counter in id_sequences
+const PRODUCT_ID_SEQUENCE = 'products';
+const MAX_CREATE_ATTEMPTS = 10;
+
+/**
+ * Check if a database URL points at a local SQLite database
+ * (file: path or :memory:), which needs no auth token
+ */
+export function isLocalDatabaseUrl(url: string): boolean {
+  return url.startsWith('file:') || url === ':memory:';
+}
+
+/**
+ * Resolve the database URL
+ * Uses TURSO_DATABASE_URL, falling back to the local DB_CONFIG.DB_PATH
+ * file outside production so the app runs offline.
+ */
+export function getDatabaseUrl(): string | null {
+  if (process.env.TURSO_DATABASE_URL) {
+    return process.env.TURSO_DATABASE_URL;
+  }
+
+  return process.env.NODE_ENV === 'production' ? null : `file:${DB_CONFIG.DB_PATH}`;
+}
+
 /**
  * Check if required environment variables are set
  */
 function checkEnvironmentVariables(): { valid: boolean; missing: string[] } {
   const missing: string[] = [];
+  const url = getDatabaseUrl();
   
-  if (!process.env.TURSO_DATABASE_URL) {
+  if (!url) {
     missing.push('TURSO_DATABASE_URL');
   }
-  if (!process.env.TURSO_AUTH_TOKEN) {
+  if (url && !isLocalDatabaseUrl(url) && !process.env.TURSO_AUTH_TOKEN) {
     missing.push('TURSO_AUTH_TOKEN');
   }
   
@@ -43,8 +115,8 @@ function checkEnvironmentVariables(): { valid: boolean; missing: string[] } {
  * Creates connection on first call, reuses thereafter
  */
 export function getDb(): Client {
-  if (db) {
-    return db;
+  if (globalForDb.ssrsDb) {
+    return globalForDb.ssrsDb;
   }
 
   const envCheck = checkEnvironmentVariables();
@@ -59,12 +131,26 @@ export function getDb(): Client {
   try {
     connectionAttempts++;
     
-    db = createClient({
-      url: process.env.TURSO_DATABASE_URL!,
-      authToken: process.env.TURSO_AUTH_TOKEN!,
+    const url = getDatabaseUrl()!;
+    const db = createClient({
+      url,
+      authToken: isLocalDatabaseUrl(url) ? undefined : process.env.TURSO_AUTH_TOKEN,
     });
+    globalForDb.ssrsDb = db;
 
-    console.log('Database connection established successfully');
+    // Local files are shared between processes (dev server, db:init) -
+    // wait for the lock instead of failing writes with SQLITE_BUSY
+    if (url.startsWith('file:')) {
+      db.execute(`PRAGMA busy_timeout = ${DB_CONFIG.BUSY_TIMEOUT_MS}`).catch(error => {
+        console.error('Failed to set database busy timeout:', error);
+      });
+    }
+
+    console.log(
+      isLocalDatabaseUrl(url)
+        ? `Database connection established successfully (local: ${url})`
+        : 'Database connection established successfully'
+    );
     connectionAttempts = 0; // Reset on success
     
     return db;
@@ -91,7 +177,8 @@ export function getDb(): Client {
  * Reset database connection (useful for error recovery)
  */
 export function resetDbConnection(): void {
-  db = null;
+  globalForDb.ssrsDb?.close();
+  globalForDb.ssrsDb = null;
   connectionAttempts = 0;
   console.log('Database connection reset');
 }
@@ -111,26 +198,98 @@ export async function testConnection(): Promise<boolean> {
   }
 }
 
+/**
+ * Parse the variants JSON built by PRODUCT_COLUMNS, cheapest first
+ */
+function parseVariants(value: unknown): ProductVariant[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const variants = JSON.parse(String(value)) as ProductVariant[];
+    return variants
+      .map(variant => ({ ...variant, price: Number(variant.price), min_order_qty: Number(variant.min_order_qty) }))
+      .sort((a, b) => a.price - b.price || a.sku.localeCompare(b.sku));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the price tiers JSON built by PRODUCT_COLUMNS, lowest quantity first
+ */
+function parsePriceTiers(value: unknown): PriceTier[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    return sortPriceTiers(JSON.parse(String(value)) as PriceTier[]);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the images JSON built by PRODUCT_COLUMNS, in display order
+ */
+function parseImages(value: unknown): ProductImage[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const images = JSON.parse(String(value)) as (ProductImage & { position: number })[];
+    return images
+      .sort((a, b) => a.position - b.position)
+      .map(({ image_path, alt_text, is_cover, width, height, placeholder }) => ({
+        image_path,
+        alt_text,
+        is_cover: !!is_cover,
+        width: width ?? null,
+        height: height ?? null,
+        placeholder: placeholder ?? null,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Map a database row to a Product
+ */
+export function rowToProduct(row: Row): Product {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    price: Number(row.price),
+    hsn_code: row.hsn_code ? String(row.hsn_code) : null,
+    gst_rate: row.gst_rate === null || row.gst_rate === undefined ? TAX_CONFIG.DEFAULT_GST_RATE : Number(row.gst_rate),
+    min_order_qty: Number(row.min_order_qty) || 0,
+    min_order_unit: isOrderUnit(row.min_order_unit) ? row.min_order_unit : 'pcs',
+    min_order_review: row.min_order_review ? String(row.min_order_review) : null,
+    image_path: row.image_path ? String(row.image_path) : null,
+    images: parseImages(row.images),
+    created_at: String(row.created_at || ''),
+    updated_at: String(row.updated_at || row.created_at || ''),
+    deleted_at: row.deleted_at ? String(row.deleted_at) : null,
+    category_ids: row.category_ids ? String(row.category_ids).split(',') : [],
+    variants: parseVariants(row.variants),
+    price_tiers: parsePriceTiers(row.price_tiers),
+  };
+}
+
 /**
  * Initialize database schema
- * Creates products table if it doesn't exist
+ * Applies any pending migrations from database/migrations
+ * @returns Names of migrations applied by this call
  */
-export async function initializeSchema(): Promise<void> {
+export async function initializeSchema(): Promise<string[]> {
   try {
-    const database = getDb();
-    
-    await database.execute(`
-      CREATE TABLE IF NOT EXISTS products (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        price REAL NOT NULL,
-        min_order_qty TEXT NOT NULL,
-        image_path TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    
+    const applied = await migrateUp(getDb());
     console.log('Database schema initialized successfully');
+    return applied;
   } catch (error) {
     console.error('Failed to initialize database schema:', error);
     throw new Error('Failed to initialize database schema');
@@ -138,68 +297,277 @@ export async function initializeSchema(): Promise<void> {
 }
 
 /**
- * Generate unique product ID
- * Format: prod_001, prod_002, etc.
+ * Format a sequence number as a product ID
+ * Format: prod_001, prod_002, ..., prod_999, prod_1000
+ */
+export function formatProductId(sequence: number): string {
+  return `${DB_CONFIG.PRODUCT_ID_PREFIX}${sequence.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Check if a database error is a product ID collision
+ */
+function isProductIdConflict(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : '';
+  return message.includes('UNIQUE constraint failed: products.id');
+}
+
+/**
+ * Check if a database error means another writer holds the lock
+ */
+function isBusyError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'SQLITE_BUSY' || code === 'SQLITE_LOCKED';
+}
+
+/**
+ * Move the product ID sequence past the highest existing ID
+ * Repairs the counter if IDs were inserted without it (e.g. imports).
  */
-export async function generateProductId(): Promise<string> {
+async function syncProductIdSequence(): Promise<void> {
+  const database = getDb();
+  const prefix = DB_CONFIG.PRODUCT_ID_PREFIX;
+
+  await database.execute({
+    sql: `
+      UPDATE id_sequences
+      SET value = MAX(value, (
+        SELECT COALESCE(MAX(CAST(SUBSTR(id, ?) AS INTEGER)), 0)
+        FROM products
+        WHERE id GLOB ?
+      ))
+      WHERE name = ?
+    `,
+    args: [prefix.length + 1, `${prefix}[0-9]*`, PRODUCT_ID_SEQUENCE],
+  });
+}
+
+/**
+ * Get all products
+ * @returns Array of all products not in the trash, sorted by newest first
+ */
+export async function getAllProducts(): Promise<Product[]> {
   try {
     const database = getDb();
 
-    // Get the highest existing ID number
     const result = await database.execute(`
-      SELECT id FROM products
-      ORDER BY id DESC
-      LIMIT 1
+      SELECT ${PRODUCT_COLUMNS} FROM products
+      WHERE deleted_at IS NULL
+      ORDER BY created_at DESC
     `);
 
-    if (!result.rows || result.rows.length === 0) {
-      return `${DB_CONFIG.PRODUCT_ID_PREFIX}001`;
-    }
+    return result.rows.map(rowToProduct);
+  } catch (error) {
+    console.error('Error fetching all products:', error);
+    throw new Error('Failed to fetch products from database');
+  }
+}
+
+// Sortable columns; name sorts case-insensitively
+const SORT_COLUMNS: Record<ProductSortField, string> = {
+  price: 'price',
+  name: 'name COLLATE NOCASE',
+  created_at: 'created_at',
+  updated_at: 'updated_at',
+};
 
-    const lastId = result.rows[0].id as string;
+/**
+ * Position in a sorted product list
+ * Encoded into the opaque cursors returned with each page.
+ */
+interface ProductCursor {
+  sort: ProductSortField;
+  order: SortOrder;
+  /** Sort value and ID of the row the page starts after */
+  value: string | number;
+  id: string;
+  /** Page forwards (next) or backwards (prev) from that row */
+  direction: 'next' | 'prev';
+}
 
-    // Extract number from last ID and increment
-    const match = lastId.match(/\d+/);
-    if (!match) {
-      return `${DB_CONFIG.PRODUCT_ID_PREFIX}001`;
+/**
+ * Encode a cursor as a URL-safe string
+ */
+function encodeCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor string
+ * @returns Cursor, or null if it is malformed
+ */
+export function decodeProductCursor(value: string): ProductCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+    if (
+      !cursor ||
+      !(cursor.sort in SORT_COLUMNS) ||
+      !['asc', 'desc'].includes(cursor.order) ||
+      !['string', 'number'].includes(typeof cursor.value) ||
+      typeof cursor.id !== 'string' ||
+      !['next', 'prev'].includes(cursor.direction)
+    ) {
+      return null;
     }
-    
-    const lastNumber = parseInt(match[0]);
-    const nextNumber = lastNumber + 1;
 
-    // Pad with zeros (e.g., 001, 002, 010, 100)
-    return `${DB_CONFIG.PRODUCT_ID_PREFIX}${nextNumber.toString().padStart(3, '0')}`;
-  } catch (error) {
-    console.error('Error generating product ID:', error);
-    // Fallback to timestamp-based ID
-    return `${DB_CONFIG.PRODUCT_ID_PREFIX}${Date.now()}`;
+    return cursor as ProductCursor;
+  } catch {
+    return null;
   }
 }
 
 /**
- * Get all products
- * @returns Array of all products, sorted by newest first
+ * Value of the sort column for a product
  */
-export async function getAllProducts(): Promise<Product[]> {
+function sortValue(product: Product, sort: ProductSortField): string | number {
+  return sort === 'price' ? product.price : product[sort];
+}
+
+/**
+ * Add a date window condition (a bare "to" date includes the whole day)
+ */
+function addDateWindow(
+  conditions: string[],
+  args: InValue[],
+  column: string,
+  from?: string,
+  to?: string
+): void {
+  if (from) {
+    conditions.push(`${column} >= datetime(?)`);
+    args.push(from);
+  }
+
+  if (to) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      conditions.push(`${column} < datetime(?, '+1 day')`);
+    } else {
+      conditions.push(`${column} <= datetime(?)`);
+    }
+    args.push(to);
+  }
+}
+
+/**
+ * Get one page of products
+ * Sorted by the requested field (ties broken by ID) and filtered by
+ * price, image and date windows. Pages by cursor when one is given,
+ * otherwise by offset.
+ * @returns Products on the page, total matches and cursors for the neighbouring pages
+ */
+export async function getProducts(query: ProductQuery = {}): Promise<ProductListResponse['data']> {
+  const cursor = query.cursor ? decodeProductCursor(query.cursor) : null;
+  if (query.cursor && !cursor) {
+    throw new Error('Invalid cursor');
+  }
+
+  // A cursor keeps the sort of the page it came from
+  const sort = cursor?.sort ?? query.sort ?? 'created_at';
+  const order = cursor?.order ?? query.order ?? 'desc';
+  const limit = Math.min(
+    Math.max(query.limit || UI_CONFIG.PRODUCTS_PER_PAGE, 1),
+    UI_CONFIG.MAX_PRODUCTS_PER_PAGE
+  );
+  const offset = cursor ? 0 : Math.max(query.offset || 0, 0);
+
+  const conditions = ['deleted_at IS NULL'];
+  const args: InValue[] = [];
+
+  if (query.minPrice !== undefined) {
+    conditions.push('price >= ?');
+    args.push(query.minPrice);
+  }
+
+  if (query.maxPrice !== undefined) {
+    conditions.push('price <= ?');
+    args.push(query.maxPrice);
+  }
+
+  if (query.hasImage !== undefined) {
+    conditions.push(query.hasImage ? "COALESCE(image_path, '') != ''" : "COALESCE(image_path, '') = ''");
+  }
+
+  if (query.category) {
+    // The category and every category nested below it
+    conditions.push(`id IN (
+      SELECT product_id FROM product_categories
+      WHERE category_id IN (
+        WITH RECURSIVE tree(id) AS (
+          SELECT id FROM categories WHERE slug = ?
+          UNION
+          SELECT categories.id FROM categories JOIN tree ON categories.parent_id = tree.id
+        )
+        SELECT id FROM tree
+      )
+    )`);
+    args.push(query.category);
+  }
+
+  addDateWindow(conditions, args, 'created_at', query.createdFrom, query.createdTo);
+  addDateWindow(conditions, args, 'updated_at', query.updatedFrom, query.updatedTo);
+
+  const filterWhere = conditions.join(' AND ');
+  const filterArgs = [...args];
+  const column = SORT_COLUMNS[sort];
+
+  // Paging backwards reads the rows before the cursor in reverse, then flips them
+  const backwards = cursor?.direction === 'prev';
+  const ascending = (order === 'asc') !== backwards;
+
+  // Ties are broken by ID in numeric order (prod_999 before prod_1000):
+  // IDs share a prefix, so shorter IDs have smaller numbers
+  if (cursor) {
+    const comparison = ascending ? '>' : '<';
+    conditions.push(`(${column}, length(id), id) ${comparison} (?, ?, ?)`);
+    args.push(cursor.value, cursor.id.length, cursor.id);
+  }
+
+  const direction = ascending ? 'ASC' : 'DESC';
+
   try {
     const database = getDb();
 
-    const result = await database.execute(`
-      SELECT * FROM products
-      ORDER BY created_at DESC
-    `);
+    // Fetch one extra row to find out if there is another page
+    const [rows, count] = await Promise.all([
+      database.execute({
+        sql: `
+          SELECT ${PRODUCT_COLUMNS} FROM products
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY ${column} ${direction}, length(id) ${direction}, id ${direction}
+          LIMIT ? OFFSET ?
+        `,
+        args: [...args, limit + 1, offset],
+      }),
+      database.execute({
+        sql: `SELECT COUNT(*) as count FROM products WHERE ${filterWhere}`,
+        args: filterArgs,
+      }),
+    ]);
 
-    return result.rows.map(row => ({
-      id: String(row.id),
-      name: String(row.name),
-      price: Number(row.price),
-      min_order_qty: String(row.min_order_qty),
-      image_path: row.image_path ? String(row.image_path) : null,
-      created_at: String(row.created_at || ''),
-      updated_at: String(row.updated_at || row.created_at || ''),
-    })) as Product[];
+    const products = rows.rows.slice(0, limit).map(rowToProduct);
+    const hasMore = rows.rows.length > limit;
+    if (backwards) {
+      products.reverse();
+    }
+
+    const hasNext = backwards ? true : hasMore;
+    const hasPrev = backwards ? hasMore : !!cursor || offset > 0;
+    const first = products[0];
+    const last = products[products.length - 1];
+
+    return {
+      products,
+      total: Number(count.rows[0]?.count) || 0,
+      nextCursor: hasNext && last
+        ? encodeCursor({ sort, order, value: sortValue(last, sort), id: last.id, direction: 'next' })
+        : null,
+      prevCursor: hasPrev && first
+        ? encodeCursor({ sort, order, value: sortValue(first, sort), id: first.id, direction: 'prev' })
+        : null,
+    };
   } catch (error) {
-    console.error('Error fetching all products:', error);
+    console.error('Error fetching products:', error);
     throw new Error('Failed to fetch products from database');
   }
 }
@@ -207,9 +575,13 @@ export async function getAllProducts(): Promise<Product[]> {
 /**
  * Get single product by ID
  * @param id - Product ID
+ * @param options.includeDeleted - Also return products in the trash
  * @returns Product or null if not found
  */
-export async function getProductById(id: string): Promise<Product | null> {
+export async function getProductById(
+  id: string,
+  options: { includeDeleted?: boolean } = {}
+): Promise<Product | null> {
   if (!id || typeof id !== 'string') {
     return null;
   }
@@ -218,7 +590,9 @@ export async function getProductById(id: string): Promise<Product | null> {
     const database = getDb();
 
     const result = await database.execute({
-      sql: 'SELECT * FROM products WHERE id = ?',
+      sql: options.includeDeleted
+        ? `SELECT ${PRODUCT_COLUMNS} FROM products WHERE id = ?`
+        : `SELECT ${PRODUCT_COLUMNS} FROM products WHERE id = ? AND deleted_at IS NULL`,
       args: [id],
     });
 
@@ -226,28 +600,98 @@ export async function getProductById(id: string): Promise<Product | null> {
       return null;
     }
 
-    const row = result.rows[0];
-    return {
-      id: String(row.id),
-      name: String(row.name),
-      price: Number(row.price),
-      min_order_qty: String(row.min_order_qty),
-      image_path: row.image_path ? String(row.image_path) : null,
-      created_at: String(row.created_at || ''),
-      updated_at: String(row.updated_at || row.created_at || ''),
-    } as Product;
+    return rowToProduct(result.rows[0]);
   } catch (error) {
     console.error(`Error fetching product ${id}:`, error);
     throw new Error(`Failed to fetch product ${id}`);
   }
 }
 
+/**
+ * Remove duplicates from a list of IDs
+ */
+function uniqueIds(ids: string[] = []): string[] {
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Build the statements that replace a product's categories
+ * Unknown category IDs are skipped.
+ */
+function buildCategoryLinks(productId: string, categoryIds: string[]): InStatement[] {
+  return [
+    { sql: 'DELETE FROM product_categories WHERE product_id = ?', args: [productId] },
+    ...categoryIds.map(categoryId => ({
+      sql: `
+        INSERT OR IGNORE INTO product_categories (product_id, category_id)
+        SELECT ?, id FROM categories WHERE id = ?
+      `,
+      args: [productId, categoryId],
+    })),
+  ];
+}
+
+/**
+ * Build the statements that replace a product's price tiers
+ */
+function buildPriceTierRows(productId: string, tiers: PriceTier[]): InStatement[] {
+  return [
+    { sql: 'DELETE FROM product_price_tiers WHERE product_id = ?', args: [productId] },
+    ...tiers.map(tier => ({
+      sql: 'INSERT INTO product_price_tiers (product_id, min_qty, max_qty, price) VALUES (?, ?, ?, ?)',
+      args: [productId, tier.min_qty, tier.max_qty, tier.price],
+    })),
+  ];
+}
+
+/**
+ * Tidy gallery images for saving
+ * Keeps only the stored fields (sizes and placeholders come from the
+ * uploads ledger), trims alt text and makes sure exactly one image is
+ * the cover (the first, if none is chosen).
+ */
+function normalizeImages(images: ProductImage[]): ProductImage[] {
+  const coverIndex = Math.max(images.findIndex(image => image.is_cover), 0);
+
+  return images.map((image, index) => ({
+    image_path: image.image_path,
+    alt_text: image.alt_text?.trim() || null,
+    is_cover: index === coverIndex,
+  }));
+}
+
+/**
+ * Gallery images from product input
+ * Without an images list, image_path (if set) is the only image.
+ */
+function imagesFromInput(input: Pick<ProductInput, 'image_path' | 'images'>): ProductImage[] {
+  if (input.images) {
+    return normalizeImages(input.images);
+  }
+
+  return input.image_path ? [{ image_path: input.image_path, alt_text: null, is_cover: true }] : [];
+}
+
+/**
+ * Build the statements that replace a product's images
+ */
+function buildImageRows(productId: string, images: ProductImage[]): InStatement[] {
+  return [
+    { sql: 'DELETE FROM product_images WHERE product_id = ?', args: [productId] },
+    ...images.map((image, position) => ({
+      sql: 'INSERT INTO product_images (product_id, image_path, alt_text, position, is_cover) VALUES (?, ?, ?, ?, ?)',
+      args: [productId, image.image_path, image.alt_text, position, image.is_cover ? 1 : 0],
+    })),
+  ];
+}
+
 /**
  * Create new product
  * @param input - Product data
- * @returns Created product with generated ID
+ * @param actor - User making the change (recorded in the audit log)
+ * @returns Created product with generated ID (prod_001, prod_002, ...)
  */
-export async function createProduct(input: ProductInput): Promise<Product> {
+export async function createProduct(input: ProductInput, actor?: AuditActor): Promise<Product> {
   if (!input || typeof input !== 'object') {
     throw new Error('Invalid product input');
   }
@@ -258,21 +702,105 @@ export async function createProduct(input: ProductInput): Promise<Product> {
 
   try {
     const database = getDb();
-    const id = await generateProductId();
+    const images = imagesFromInput(input);
+    let id: string | null = null;
 
-    await database.execute({
-      sql: `
-        INSERT INTO products (id, name, price, min_order_qty, image_path)
-        VALUES (?, ?, ?, ?, ?)
-      `,
-      args: [
-        id,
-        input.name.trim(),
-        input.price,
-        input.min_order_qty?.trim() || '',
-        input.image_path || null,
-      ],
-    });
+    // Reserve the next ID and insert in one write transaction, so
+    // simultaneous creates can never receive the same ID
+    for (let attempt = 1; !id; attempt++) {
+      try {
+        const results = await database.batch([
+          {
+            sql: 'UPDATE id_sequences SET value = value + 1 WHERE name = ?',
+            args: [PRODUCT_ID_SEQUENCE],
+          },
+          {
+            sql: `
+              INSERT INTO products (
+                id, name, price, hsn_code, gst_rate, min_order_qty, min_order_unit, image_path, updated_at
+              )
+              SELECT ? || printf('%03d', value), ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP
+              FROM id_sequences WHERE name = ?
+            `,
+            args: [
+              DB_CONFIG.PRODUCT_ID_PREFIX,
+              input.name.trim(),
+              input.price,
+              input.hsn_code?.trim() || null,
+              input.gst_rate ?? TAX_CONFIG.DEFAULT_GST_RATE,
+              input.min_order_qty,
+              input.min_order_unit,
+              getCoverImage(images)?.image_path || null,
+              PRODUCT_ID_SEQUENCE,
+            ],
+          },
+          ...uniqueIds(input.category_ids).map(categoryId => ({
+            sql: `
+              INSERT OR IGNORE INTO product_categories (product_id, category_id)
+              SELECT ? || printf('%03d', id_sequences.value), categories.id
+              FROM id_sequences, categories
+              WHERE id_sequences.name = ? AND categories.id = ?
+            `,
+            args: [DB_CONFIG.PRODUCT_ID_PREFIX, PRODUCT_ID_SEQUENCE, categoryId],
+          })),
+          ...(input.price_tiers || []).map(tier => ({
+            sql: `
+              INSERT INTO product_price_tiers (product_id, min_qty, max_qty, price)
+              SELECT ? || printf('%03d', value), ?, ?, ?
+              FROM id_sequences WHERE name = ?
+            `,
+            args: [DB_CONFIG.PRODUCT_ID_PREFIX, tier.min_qty, tier.max_qty, tier.price, PRODUCT_ID_SEQUENCE],
+          })),
+          ...images.map((image, position) => ({
+            sql: `
+              INSERT INTO product_images (product_id, image_path, alt_text, position, is_cover)
+              SELECT ? || printf('%03d', value), ?, ?, ?, ?
+              FROM id_sequences WHERE name = ?
+            `,
+            args: [
+              DB_CONFIG.PRODUCT_ID_PREFIX,
+              image.image_path,
+              image.alt_text,
+              position,
+              image.is_cover ? 1 : 0,
+              PRODUCT_ID_SEQUENCE,
+            ],
+          })),
+          // Link the images in the uploads ledger (see buildUploadLinks)
+          ...(images.length > 0 ? [{
+            sql: `
+              UPDATE uploads SET released_at = NULL, product_id = ? || printf('%03d', (
+                SELECT value FROM id_sequences WHERE name = ?
+              ))
+              WHERE image_path IN (${images.map(() => '?').join(', ')})
+            `,
+            args: [DB_CONFIG.PRODUCT_ID_PREFIX, PRODUCT_ID_SEQUENCE, ...images.map(image => image.image_path)],
+          }] : []),
+          {
+            sql: 'SELECT value FROM id_sequences WHERE name = ?',
+            args: [PRODUCT_ID_SEQUENCE],
+          },
+        ], 'write');
+
+        const sequence = results[results.length - 1];
+        if (sequence.rows.length === 0) {
+          throw new Error('Product ID sequence is missing. Run "npm run db:init" to apply migrations.');
+        }
+
+        id = formatProductId(Number(sequence.rows[0].value));
+      } catch (error) {
+        if (attempt >= MAX_CREATE_ATTEMPTS || !(isProductIdConflict(error) || isBusyError(error))) {
+          throw error;
+        }
+
+        if (isProductIdConflict(error)) {
+          await syncProductIdSequence();
+        } else {
+          // Back off with jitter so competing writers don't retry in lockstep
+          await new Promise(resolve => setTimeout(resolve, 50 * attempt + Math.random() * 50));
+        }
+      }
+    }
 
     // Return the created product
     const product = await getProductById(id);
@@ -281,6 +809,7 @@ export async function createProduct(input: ProductInput): Promise<Product> {
     }
     
     console.log('Product created successfully:', product.id);
+    await recordAudit({ actor, action: 'product.create', productId: product.id, after: product });
     return product;
   } catch (error) {
     console.error('Error creating product:', error);
@@ -293,13 +822,16 @@ export async function createProduct(input: ProductInput): Promise<Product> {
 
 /**
  * Update existing product
+ * The previous version is saved to product_revisions first.
  * @param id - Product ID
  * @param input - Updated product data
+ * @param actor - User making the change (recorded in the audit log)
  * @returns Updated product or null if not found
  */
 export async function updateProduct(
   id: string,
-  input: Partial<ProductInput>
+  input: Partial<ProductInput>,
+  actor?: AuditActor
 ): Promise<Product | null> {
   if (!id || typeof id !== 'string') {
     return null;
@@ -326,14 +858,62 @@ export async function updateProduct(
       values.push(input.price);
     }
 
+    if (input.hsn_code !== undefined) {
+      fields.push('hsn_code = ?');
+      values.push(input.hsn_code?.trim() || null);
+    }
+
+    if (input.gst_rate !== undefined) {
+      fields.push('gst_rate = ?');
+      values.push(input.gst_rate);
+    }
+
     if (input.min_order_qty !== undefined) {
       fields.push('min_order_qty = ?');
-      values.push(input.min_order_qty.trim());
+      values.push(input.min_order_qty);
+    }
+
+    if (input.min_order_unit !== undefined) {
+      fields.push('min_order_unit = ?');
+      values.push(input.min_order_unit);
     }
 
-    if (input.image_path !== undefined) {
+    // Saving a quantity or unit means an imported value has been checked
+    if ((input.min_order_qty !== undefined || input.min_order_unit !== undefined) && existing.min_order_review) {
+      fields.push('min_order_review = NULL');
+    }
+
+    // An images list replaces the gallery; image_path on its own replaces just the cover
+    const images = input.images !== undefined
+      ? normalizeImages(input.images)
+      : input.image_path !== undefined
+        ? normalizeImages([
+            ...(input.image_path ? [{ image_path: input.image_path, alt_text: null, is_cover: true }] : []),
+            ...existing.images.filter(image => !image.is_cover && image.image_path !== input.image_path),
+          ])
+        : null;
+    const imagesChanged = images !== null &&
+      JSON.stringify(images) !== JSON.stringify(normalizeImages(existing.images));
+
+    if (imagesChanged) {
       fields.push('image_path = ?');
-      values.push(input.image_path);
+      values.push(getCoverImage(images)?.image_path || null);
+    }
+
+    // Category changes replace the product's links and count as an update
+    const categoryIds = input.category_ids !== undefined ? uniqueIds(input.category_ids) : null;
+    const categoriesChanged = categoryIds !== null &&
+      [...categoryIds].sort().join(',') !== [...existing.category_ids].sort().join(',');
+
+    // Tier changes replace every tier
+    const tiers = input.price_tiers !== undefined
+      ? sortPriceTiers(input.price_tiers.map(({ min_qty, max_qty, price }) => ({ min_qty, max_qty, price })))
+      : null;
+    const tiersChanged = tiers !== null &&
+      JSON.stringify(tiers) !== JSON.stringify(existing.price_tiers);
+
+    if (categoriesChanged || tiersChanged || imagesChanged) {
+      fields.push('updated_at = CURRENT_TIMESTAMP');
     }
 
     if (fields.length === 0) {
@@ -342,17 +922,26 @@ export async function updateProduct(
 
     values.push(id); // Add ID for WHERE clause
 
-    await database.execute({
-      sql: `
-        UPDATE products
-        SET ${fields.join(', ')}
-        WHERE id = ?
-      `,
-      args: values,
-    });
+    // Snapshot the previous version and apply the update atomically
+    await database.batch([
+      buildRevisionInsert(existing, actor),
+      {
+        sql: `
+          UPDATE products
+          SET ${fields.join(', ')}
+          WHERE id = ?
+        `,
+        args: values,
+      },
+      ...(categoriesChanged ? buildCategoryLinks(id, categoryIds) : []),
+      ...(tiersChanged ? buildPriceTierRows(id, tiers) : []),
+      ...(imagesChanged ? [...buildImageRows(id, images), ...buildUploadLinks(id)] : []),
+    ], 'write');
 
     console.log('Product updated successfully:', id);
-    return getProductById(id);
+    const updated = await getProductById(id);
+    await recordAudit({ actor, action: 'product.update', productId: id, before: existing, after: updated });
+    return updated;
   } catch (error) {
     console.error(`Error updating product ${id}:`, error);
     throw new Error(`Failed to update product ${id}`);
@@ -360,26 +949,30 @@ export async function updateProduct(
 }
 
 /**
- * Delete product
+ * Delete product (move to trash)
+ * Sets deleted_at and keeps the row and image so it can be restored.
  * @param id - Product ID
+ * @param actor - User making the change (recorded in the audit log)
  * @returns true if deleted, false if not found
  */
-export async function deleteProduct(id: string): Promise<boolean> {
+export async function deleteProduct(id: string, actor?: AuditActor): Promise<boolean> {
   if (!id || typeof id !== 'string') {
     return false;
   }
 
   try {
     const database = getDb();
+    const existing = await getProductById(id);
 
     const result = await database.execute({
-      sql: 'DELETE FROM products WHERE id = ?',
+      sql: 'UPDATE products SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL',
       args: [id],
     });
 
     const deleted = result.rowsAffected > 0;
     if (deleted) {
-      console.log('Product deleted successfully:', id);
+      console.log('Product moved to trash:', id);
+      await recordAudit({ actor, action: 'product.delete', productId: id, before: existing });
     }
     
     return deleted;
@@ -390,71 +983,133 @@ export async function deleteProduct(id: string): Promise<boolean> {
 }
 
 /**
- * Get product image path before deletion
- * Useful for cleaning up images
+ * Get products in the trash
+ * @param olderThanDays - Only products deleted at least this many days ago
+ * @returns Deleted products, most recently deleted first
+ */
+export async function getDeletedProducts(olderThanDays?: number): Promise<Product[]> {
+  try {
+    const database = getDb();
+
+    const result = await database.execute({
+      sql: olderThanDays !== undefined
+        ? `SELECT ${PRODUCT_COLUMNS} FROM products
+           WHERE deleted_at IS NOT NULL AND deleted_at <= datetime('now', ?)
+           ORDER BY deleted_at DESC`
+        : `SELECT ${PRODUCT_COLUMNS} FROM products
+           WHERE deleted_at IS NOT NULL
+           ORDER BY deleted_at DESC`,
+      args: olderThanDays !== undefined ? [`-${olderThanDays} days`] : [],
+    });
+
+    return result.rows.map(rowToProduct);
+  } catch (error) {
+    console.error('Error fetching deleted products:', error);
+    throw new Error('Failed to fetch deleted products');
+  }
+}
+
+/**
+ * Restore a product from the trash
  * @param id - Product ID
- * @returns image_path or null
+ * @param actor - User making the change (recorded in the audit log)
+ * @returns Restored product or null if it isn't in the trash
  */
-export async function getProductImagePath(id: string): Promise<string | null> {
+export async function restoreDeletedProduct(id: string, actor?: AuditActor): Promise<Product | null> {
   if (!id || typeof id !== 'string') {
     return null;
   }
 
   try {
-    const product = await getProductById(id);
-    return product?.image_path || null;
+    const database = getDb();
+
+    const result = await database.execute({
+      sql: 'UPDATE products SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL',
+      args: [id],
+    });
+
+    if (result.rowsAffected === 0) {
+      return null;
+    }
+
+    console.log('Product restored from trash:', id);
+    const restored = await getProductById(id);
+    await recordAudit({ actor, action: 'product.restore', productId: id, after: restored });
+    return restored;
   } catch (error) {
-    console.error(`Error fetching image path for product ${id}:`, error);
-    return null;
+    console.error(`Error restoring product ${id}:`, error);
+    throw new Error(`Failed to restore product ${id}`);
   }
 }
 
 /**
- * Search products by name
- * @param query - Search query
- * @returns Array of matching products
+ * Permanently delete a product that is in the trash
+ * Removes the row and its revisions. The caller removes the images.
+ * @param id - Product ID
+ * @param actor - User making the change (recorded in the audit log)
+ * @returns true if purged, false if it isn't in the trash
  */
-export async function searchProducts(query: string): Promise<Product[]> {
-  if (!query || typeof query !== 'string') {
-    return [];
+export async function purgeProduct(id: string, actor?: AuditActor): Promise<boolean> {
+  if (!id || typeof id !== 'string') {
+    return false;
   }
 
   try {
     const database = getDb();
+    const existing = await getProductById(id, { includeDeleted: true });
 
-    const result = await database.execute({
-      sql: `
-        SELECT * FROM products
-        WHERE name LIKE ?
-        ORDER BY created_at DESC
-      `,
-      args: [`%${query.trim()}%`],
-    });
+    if (!existing?.deleted_at) {
+      return false;
+    }
+
+    await database.batch([
+      { sql: 'DELETE FROM product_revisions WHERE product_id = ?', args: [id] },
+      { sql: 'DELETE FROM product_categories WHERE product_id = ?', args: [id] },
+      { sql: 'DELETE FROM product_variants WHERE product_id = ?', args: [id] },
+      { sql: 'DELETE FROM product_price_tiers WHERE product_id = ?', args: [id] },
+      { sql: 'DELETE FROM product_images WHERE product_id = ?', args: [id] },
+      ...buildUploadLinks(id),
+      { sql: 'DELETE FROM products WHERE id = ? AND deleted_at IS NOT NULL', args: [id] },
+    ], 'write');
+
+    console.log('Product permanently deleted:', id);
+    await recordAudit({ actor, action: 'product.purge', productId: id, before: existing });
+    return true;
+  } catch (error) {
+    console.error(`Error purging product ${id}:`, error);
+    throw new Error(`Failed to permanently delete product ${id}`);
+  }
+}
 
-    return result.rows.map(row => ({
-      id: String(row.id),
-      name: String(row.name),
-      price: Number(row.price),
-      min_order_qty: String(row.min_order_qty),
-      image_path: row.image_path ? String(row.image_path) : null,
-      created_at: String(row.created_at || ''),
-      updated_at: String(row.updated_at || row.created_at || ''),
-    })) as Product[];
+/**
+ * Get product image path before deletion
+ * Useful for cleaning up images
+ * @param id - Product ID
+ * @returns image_path or null
+ */
+export async function getProductImagePath(id: string): Promise<string | null> {
+  if (!id || typeof id !== 'string') {
+    return null;
+  }
+
+  try {
+    const product = await getProductById(id);
+    return product?.image_path || null;
   } catch (error) {
-    console.error('Error searching products:', error);
-    throw new Error('Failed to search products');
+    console.error(`Error fetching image path for product ${id}:`, error);
+    return null;
   }
 }
 
 /**
  * Get total product count
- * @returns Number of products
+ * @returns Number of products not in the trash
  */
 export async function getProductCount(): Promise<number> {
   try {
     const database = getDb();
 
-    const result = await database.execute('SELECT COUNT(*) as count FROM products');
+    const result = await database.execute('SELECT COUNT(*) as count FROM products WHERE deleted_at IS NULL');
     
     if (!result.rows || result.rows.length === 0) {
       return 0;
@@ -466,3 +1121,34 @@ export async function getProductCount(): Promise<number> {
     return 0;
   }
 }
+
+/**
+ * Get catalog totals (all products, not just one page)
+ * @returns Count, average price and number of products with an image
+ */
+export async function getProductStats(): Promise<ProductStats> {
+  try {
+    const database = getDb();
+
+    const result = await database.execute(`
+      SELECT
+        COUNT(*) as total,
+        COALESCE(AVG(price), 0) as average_price,
+        COALESCE(AVG(price * (1 + gst_rate / 100.0)), 0) as average_price_incl_gst,
+        COUNT(NULLIF(image_path, '')) as with_images
+      FROM products
+      WHERE deleted_at IS NULL
+    `);
+
+    const row = result.rows[0];
+    return {
+      total: Number(row?.total) || 0,
+      averagePrice: Number(row?.average_price) || 0,
+      averagePriceInclGst: Number(row?.average_price_incl_gst) || 0,
+      withImages: Number(row?.with_images) || 0,
+    };
+  } catch (error) {
+    console.error('Error fetching product stats:', error);
+    throw new Error('Failed to fetch product stats');
+  }
+}
@@ -5,15 +5,21 @@
  * before the application starts. Run this during build or startup.
  */
 
+import { AUTH_CONFIG } from './constants';
+
 const requiredEnvVars = [
-  'TURSO_DATABASE_URL',
-  'TURSO_AUTH_TOKEN',
   'ADMIN_PASSWORD',
-  'BLOB_READ_WRITE_TOKEN',
+  'SESSION_SECRET',
 ];
 
 const optionalEnvVars = [
+  'TURSO_DATABASE_URL',
   'NEXT_PUBLIC_APP_NAME',
+  'CRON_SECRET',
+  'TRASH_RETENTION_DAYS',
+  'UPLOAD_GRACE_HOURS',
+  'REVISION_RETENTION_DAYS',
+  'TRUSTED_PROXY_HOPS',
 ];
 
 export function validateEnvironment(): { valid: boolean; errors: string[] } {
@@ -38,8 +44,71 @@ export function validateEnvironment(): { valid: boolean; errors: string[] } {
     errors.push('ADMIN_PASSWORD must be at least 4 characters long');
   }
 
-  if (process.env.TURSO_DATABASE_URL && !process.env.TURSO_DATABASE_URL.startsWith('libsql://')) {
-    errors.push('TURSO_DATABASE_URL must start with libsql://');
+  // Sessions and 2FA login challenges are signed with SESSION_SECRET alone
+  const sessionSecret = process.env.SESSION_SECRET;
+
+  if (sessionSecret && sessionSecret.length < AUTH_CONFIG.MIN_SESSION_SECRET_LENGTH) {
+    errors.push(`SESSION_SECRET must be at least ${AUTH_CONFIG.MIN_SESSION_SECRET_LENGTH} characters long`);
+  }
+
+  if (sessionSecret && (AUTH_CONFIG.PLACEHOLDER_SESSION_SECRETS as readonly string[]).includes(sessionSecret)) {
+    errors.push('SESSION_SECRET is still the example value - generate a random one');
+  }
+
+  if (sessionSecret && sessionSecret === process.env.ADMIN_PASSWORD) {
+    errors.push('SESSION_SECRET must be different from ADMIN_PASSWORD');
+  }
+
+  if (process.env.TRASH_RETENTION_DAYS && !(parseInt(process.env.TRASH_RETENTION_DAYS, 10) > 0)) {
+    errors.push('TRASH_RETENTION_DAYS must be a positive number of days');
+  }
+
+  if (process.env.UPLOAD_GRACE_HOURS && !(parseInt(process.env.UPLOAD_GRACE_HOURS, 10) >= 0)) {
+    errors.push('UPLOAD_GRACE_HOURS must be a number of hours (0 or more)');
+  }
+
+  if (process.env.REVISION_RETENTION_DAYS && !(parseInt(process.env.REVISION_RETENTION_DAYS, 10) > 0)) {
+    errors.push('REVISION_RETENTION_DAYS must be a positive number of days');
+  }
+
+  if (process.env.TRUSTED_PROXY_HOPS && !(parseInt(process.env.TRUSTED_PROXY_HOPS, 10) >= 0)) {
+    errors.push('TRUSTED_PROXY_HOPS must be a number of proxies (0 or more)');
+  }
+
+  // Image storage: Vercel Blob needs its token, S3 needs a bucket
+  const storageBackend = process.env.STORAGE_BACKEND || 'blob';
+
+  if (!['blob', 'local', 's3'].includes(storageBackend)) {
+    errors.push('STORAGE_BACKEND must be blob, local or s3');
+  }
+
+  if (storageBackend === 'blob' && !process.env.BLOB_READ_WRITE_TOKEN) {
+    errors.push('Missing required environment variable: BLOB_READ_WRITE_TOKEN');
+  }
+
+  if (storageBackend === 's3' && !process.env.S3_BUCKET) {
+    errors.push('Missing required environment variable: S3_BUCKET (needed for STORAGE_BACKEND=s3)');
+  }
+
+  const gstDisplay = process.env.NEXT_PUBLIC_GST_DISPLAY;
+  if (gstDisplay && gstDisplay !== 'inclusive' && gstDisplay !== 'exclusive') {
+    errors.push('NEXT_PUBLIC_GST_DISPLAY must be inclusive or exclusive');
+  }
+
+  // Remote Turso needs a libsql:// URL and token; local files and :memory: need neither
+  const databaseUrl = process.env.TURSO_DATABASE_URL;
+  const isLocalDatabase = !!databaseUrl && (databaseUrl.startsWith('file:') || databaseUrl === ':memory:');
+
+  if (!databaseUrl && process.env.NODE_ENV === 'production') {
+    errors.push('Missing required environment variable: TURSO_DATABASE_URL');
+  }
+
+  if (databaseUrl && !isLocalDatabase && !databaseUrl.startsWith('libsql://')) {
+    errors.push('TURSO_DATABASE_URL must start with libsql://, file: or be :memory:');
+  }
+
+  if (databaseUrl && !isLocalDatabase && !process.env.TURSO_AUTH_TOKEN) {
+    errors.push('Missing required environment variable: TURSO_AUTH_TOKEN');
   }
 
   return {
@@ -0,0 +1,216 @@
+/**
+ * In-Browser Image Editing
+ *
+ * Crops, rotates and adjusts a photo on a canvas, then recompresses it
+ * to fit IMAGE_CONFIG before upload, so large camera photos never hit
+ * the upload size limit. Browser only - used by ImageEditor.
+ */
+
+import { IMAGE_CONFIG } from './constants';
+import type { ImageEdit } from '@/types/image';
+
+/**
+ * Area of the rotated photo that is kept, in pixels
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Starting edit: default crop shape, centred, unadjusted
+ */
+export function defaultEdit(): ImageEdit {
+  return {
+    aspect: IMAGE_CONFIG.CROP_ASPECT_RATIOS[0].value,
+    rotation: 0,
+    zoom: 1,
+    centerX: 0.5,
+    centerY: 0.5,
+    brightness: 100,
+    contrast: 100,
+  };
+}
+
+/**
+ * Load a picked file as an image (browsers apply the EXIF orientation)
+ */
+export async function loadImage(file: File): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } catch {
+    throw new Error(`${file.name} could not be opened - it may be damaged or not an image`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Size of the photo once rotated
+ */
+function rotatedSize(image: HTMLImageElement, edit: ImageEdit): { width: number; height: number } {
+  const sideways = edit.rotation === 90 || edit.rotation === 270;
+  return sideways
+    ? { width: image.naturalHeight, height: image.naturalWidth }
+    : { width: image.naturalWidth, height: image.naturalHeight };
+}
+
+/**
+ * Work out the area to keep
+ * The crop is the largest rectangle of the chosen shape that fits,
+ * shrunk by the zoom and kept inside the photo.
+ */
+export function cropRect(image: HTMLImageElement, edit: ImageEdit): CropRect {
+  const { width, height } = rotatedSize(image, edit);
+  const aspect = edit.aspect ?? width / height;
+
+  const cropWidth = Math.min(width, height * aspect) / edit.zoom;
+  const cropHeight = cropWidth / aspect;
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    x: clamp(edit.centerX * width - cropWidth / 2, width - cropWidth),
+    y: clamp(edit.centerY * height - cropHeight / 2, height - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+/**
+ * Move the crop by a drag on the preview
+ * @param dx - Horizontal drag in preview pixels (dragging right shows more of the left)
+ * @param dy - Vertical drag in preview pixels
+ * @param previewWidth - Width the preview is shown at
+ */
+export function panEdit(
+  image: HTMLImageElement,
+  edit: ImageEdit,
+  dx: number,
+  dy: number,
+  previewWidth: number
+): ImageEdit {
+  const { width, height } = rotatedSize(image, edit);
+  const rect = cropRect(image, edit);
+  const scale = rect.width / previewWidth;
+
+  const moved = cropRect(image, {
+    ...edit,
+    centerX: (rect.x - dx * scale + rect.width / 2) / width,
+    centerY: (rect.y - dy * scale + rect.height / 2) / height,
+  });
+
+  return {
+    ...edit,
+    centerX: (moved.x + moved.width / 2) / width,
+    centerY: (moved.y + moved.height / 2) / height,
+  };
+}
+
+/**
+ * Apply brightness and contrast to the pixels already drawn
+ * Done by hand because canvas filters are missing in older Safari.
+ * Matches the CSS brightness() and contrast() filters.
+ */
+function adjustPixels(context: CanvasRenderingContext2D, edit: ImageEdit): void {
+  if (edit.brightness === 100 && edit.contrast === 100) return;
+
+  const { width, height } = context.canvas;
+  const pixels = context.getImageData(0, 0, width, height);
+  const data = pixels.data;
+  const brightness = edit.brightness / 100;
+  const contrast = edit.contrast / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = i; c < i + 3; c++) {
+      data[c] = (data[c] * brightness - 128) * contrast + 128;
+    }
+  }
+
+  context.putImageData(pixels, 0, 0);
+}
+
+/**
+ * Draw the edited photo onto a canvas, filling it
+ * (the canvas should have the crop's shape)
+ */
+export function drawEdit(canvas: HTMLCanvasElement, image: HTMLImageElement, edit: ImageEdit): void {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const rect = cropRect(image, edit);
+  const { width, height } = rotatedSize(image, edit);
+  const scale = canvas.width / rect.width;
+
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingQuality = 'high';
+
+  // Map the rotated photo onto the canvas, then draw the photo rotated into it
+  context.scale(scale, scale);
+  context.translate(-rect.x + width / 2, -rect.y + height / 2);
+  context.rotate((edit.rotation * Math.PI) / 180);
+  context.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+
+  adjustPixels(context, edit);
+}
+
+/**
+ * Encode a canvas (null if the browser can't make that type)
+ */
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> {
+  return new Promise(resolve => {
+    canvas.toBlob(blob => resolve(blob && blob.type === type ? blob : null), type, quality);
+  });
+}
+
+/**
+ * Render the edited photo as a file ready to upload
+ * Scaled to fit IMAGE_CONFIG.MAX_WIDTH x MAX_HEIGHT (the largest size
+ * the server keeps) and compressed below MAX_FILE_SIZE. Photos that may
+ * be see-through (PNG, WebP) stay WebP where the browser can encode it;
+ * everything else becomes JPEG on white.
+ *
+ * @throws Error if the photo can't be compressed enough
+ */
+export async function renderEditedImage(file: File, image: HTMLImageElement, edit: ImageEdit): Promise<File> {
+  const rect = cropRect(image, edit);
+  const fit = Math.min(1, IMAGE_CONFIG.MAX_WIDTH / rect.width, IMAGE_CONFIG.MAX_HEIGHT / rect.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(rect.width * fit));
+  canvas.height = Math.max(1, Math.round(rect.height * fit));
+  drawEdit(canvas, image, edit);
+
+  const name = file.name.replace(/\.[^.]*$/, '') || 'photo';
+
+  for (let quality = IMAGE_CONFIG.QUALITY / 100; quality >= 0.4; quality -= 0.1) {
+    let blob = file.type === 'image/jpeg' ? null : await toBlob(canvas, 'image/webp', quality);
+
+    if (!blob) {
+      // JPEG has no transparency - put see-through areas on white
+      const flat = document.createElement('canvas');
+      flat.width = canvas.width;
+      flat.height = canvas.height;
+      const context = flat.getContext('2d')!;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, flat.width, flat.height);
+      context.drawImage(canvas, 0, 0);
+      blob = await toBlob(flat, 'image/jpeg', quality);
+    }
+
+    if (blob && blob.size <= IMAGE_CONFIG.MAX_FILE_SIZE) {
+      return new File([blob], `${name}.${blob.type === 'image/webp' ? 'webp' : 'jpg'}`, { type: blob.type });
+    }
+  }
+
+  throw new Error(`${file.name} could not be compressed below ${IMAGE_CONFIG.MAX_FILE_SIZE / 1024 / 1024}MB`);
+}
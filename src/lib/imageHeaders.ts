@@ -0,0 +1,188 @@
+/**
+ * Image Header Parsing
+ *
+ * Reads the format and size of an upload from its bytes, without
+ * decoding it:
+ * - JPEG: walks the marker segments to the frame header (SOF) and
+ *   checks the entropy-coded data ends with EOI
+ * - PNG: checks the signature and walks every chunk from IHDR to IEND
+ * - WebP: checks the RIFF container holds a WEBP form with a VP8,
+ *   VP8L or VP8X first chunk
+ *
+ * Anything else (including other RIFF files such as WAV or AVI) is
+ * refused, as are files cut short.
+ */
+
+import { ImageValidationError } from './validation';
+import type { ImageHeader } from '@/types/image';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_EOI = Buffer.from([0xff, 0xd9]);
+
+// JPEG frame headers that carry the image size (C4, C8 and CC are not frames)
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+function truncated(format: string): ImageValidationError {
+  return new ImageValidationError('format_truncated', `The ${format} file is incomplete - please upload it again`);
+}
+
+function corrupt(format: string): ImageValidationError {
+  return new ImageValidationError('format_corrupt', `The ${format} file is damaged and can't be read`);
+}
+
+/**
+ * Read a JPEG's size from its frame header
+ */
+function readJpeg(buffer: Buffer): ImageHeader {
+  let offset = 2;
+  let size: { width: number; height: number } | null = null;
+
+  while (offset < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw corrupt('JPEG');
+    }
+
+    // Markers may be padded with any number of 0xFF fill bytes
+    while (buffer[offset] === 0xff) offset++;
+    if (offset >= buffer.length) break;
+
+    const marker = buffer[offset++];
+
+    // Standalone markers carry no length
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) continue;
+    if (marker === 0xd9) break;
+
+    if (offset + 2 > buffer.length) break;
+    const length = buffer.readUInt16BE(offset);
+    if (length < 2) {
+      throw corrupt('JPEG');
+    }
+    if (offset + length > buffer.length) break;
+
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      if (length < 7) {
+        throw corrupt('JPEG');
+      }
+      size = { height: buffer.readUInt16BE(offset + 3), width: buffer.readUInt16BE(offset + 5) };
+    }
+
+    if (marker === 0xda) {
+      // Start of scan: compressed data follows, ending with EOI
+      if (!size) {
+        throw corrupt('JPEG');
+      }
+      if (buffer.lastIndexOf(JPEG_EOI) < offset + length) {
+        throw truncated('JPEG');
+      }
+      return { format: 'jpeg', ...size };
+    }
+
+    offset += length;
+  }
+
+  throw truncated('JPEG');
+}
+
+/**
+ * Read a PNG's size from its IHDR chunk
+ */
+function readPng(buffer: Buffer): ImageHeader {
+  if (buffer.length < 33) {
+    throw truncated('PNG');
+  }
+  if (buffer.toString('latin1', 12, 16) !== 'IHDR' || buffer.readUInt32BE(8) !== 13) {
+    throw corrupt('PNG');
+  }
+
+  const width = buffer.readUInt32BE(16);
+  const height = buffer.readUInt32BE(20);
+
+  // Walk the chunks: each is length, type, data and CRC
+  let offset = 8;
+  let hasData = false;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    offset += 12 + length;
+
+    if (offset > buffer.length) break;
+    if (type === 'IDAT') hasData = true;
+    if (type === 'IEND') {
+      if (!hasData) {
+        throw corrupt('PNG');
+      }
+      return { format: 'png', width, height };
+    }
+  }
+
+  throw truncated('PNG');
+}
+
+/**
+ * Read a WebP's size from its first chunk
+ */
+function readWebp(buffer: Buffer): ImageHeader {
+  if (buffer.length < 30) {
+    throw truncated('WebP');
+  }
+  if (buffer.readUInt32LE(4) + 8 > buffer.length) {
+    throw truncated('WebP');
+  }
+
+  const chunk = buffer.toString('latin1', 12, 16);
+
+  switch (chunk) {
+    case 'VP8X':
+      // Extended format: canvas size minus one, 24 bits each
+      return { format: 'webp', width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+
+    case 'VP8 ':
+      // Lossy: 3-byte frame tag, then a start code before the size
+      if (buffer[23] !== 0x9d || buffer[24] !== 0x01 || buffer[25] !== 0x2a) {
+        throw corrupt('WebP');
+      }
+      return { format: 'webp', width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+
+    case 'VP8L': {
+      // Lossless: signature byte, then width and height minus one, 14 bits each
+      if (buffer[20] !== 0x2f) {
+        throw corrupt('WebP');
+      }
+      const bits = buffer.readUInt32LE(21);
+      return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+
+    default:
+      throw corrupt('WebP');
+  }
+}
+
+/**
+ * Read an upload's format and size from its header
+ *
+ * @param buffer - Image buffer from upload
+ * @returns Format, width and height in pixels
+ * @throws {ImageValidationError} If the bytes aren't a complete JPEG, PNG or WebP
+ */
+export function readImageHeader(buffer: Buffer): ImageHeader {
+  let header: ImageHeader;
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    header = readJpeg(buffer);
+  } else if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    header = readPng(buffer);
+  } else if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    header = readWebp(buffer);
+  } else {
+    throw new ImageValidationError('format_unknown', 'Invalid image format. Please use JPEG, PNG, or WebP.');
+  }
+
+  if (header.width === 0 || header.height === 0) {
+    throw corrupt(header.format === 'webp' ? 'WebP' : header.format.toUpperCase());
+  }
+
+  return header;
+}
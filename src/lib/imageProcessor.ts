@@ -1,78 +1,255 @@
 /**
  * Image Processing Module
  *
- * Uploads images directly to Vercel Blob Storage.
- * No server-side processing needed - keeps it simple and reliable.
+ * Processes uploads with Sharp and stores them (see storage.ts):
+ * - Auto-rotates by EXIF orientation
+ * - Strips all metadata (EXIF, GPS, ICC comments)
+ * - Resizes to the IMAGE_CONFIG bounds (never enlarges)
+ * - Encodes every size as AVIF, WebP and a JPEG fallback
+ * - Makes a tiny WebP placeholder to show while the image loads
+ * - Hashes what the image looks like, to spot duplicate uploads
+ *
+ * Renditions are stored side by side as <name>/<size>.<ext> in the
+ * storage folder; the large JPEG is the URL saved on the product.
  */
 
-import { put, del } from '@vercel/blob';
+import sharp from 'sharp';
+import { IMAGE_CONFIG } from './constants';
+import { deleteStoredFiles, getStorage } from './storage';
+import { IMAGE_EXTENSIONS, IMAGE_FORMATS, IMAGE_SIZES, renditionUrls } from './renditions';
+import { readImageHeader } from './imageHeaders';
+import { ImageValidationError } from './validation';
+import type { ImageFormat, ImageHeader, ImageSize, ProcessedImage, SourceImageFormat } from '@/types/image';
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+// Bounding box per size; images are scaled down to fit, keeping their aspect ratio
+const BOUNDS: Record<ImageSize, { width: number; height?: number }> = {
+  thumbnail: { width: IMAGE_CONFIG.THUMBNAIL_WIDTH },
+  medium: { width: IMAGE_CONFIG.MEDIUM_WIDTH },
+  large: { width: IMAGE_CONFIG.MAX_WIDTH, height: IMAGE_CONFIG.MAX_HEIGHT },
+};
+
+/**
+ * Storage path of one rendition
+ */
+function renditionPath(filename: string, size: ImageSize, format: ImageFormat): string {
+  return `${filename}/${size}.${IMAGE_EXTENSIONS[format]}`;
+}
 
 /**
- * Upload image to Vercel Blob Storage
+ * Encode one rendition
+ */
+async function encode(
+  image: sharp.Sharp,
+  size: ImageSize,
+  format: ImageFormat
+): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+  const resized = image.clone().resize({
+    ...BOUNDS[size],
+    fit: 'inside',
+    withoutEnlargement: true,
+  });
+
+  switch (format) {
+    case 'avif':
+      return resized.avif({ quality: IMAGE_CONFIG.QUALITY }).toBuffer({ resolveWithObject: true });
+    case 'webp':
+      return resized.webp({ quality: IMAGE_CONFIG.QUALITY }).toBuffer({ resolveWithObject: true });
+    case 'jpeg':
+      // JPEG has no transparency - put see-through areas on white
+      return resized
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: IMAGE_CONFIG.QUALITY, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true });
+  }
+}
+
+/**
+ * Encode the placeholder as a data URI (a few hundred bytes, stored in the database)
+ */
+async function encodePlaceholder(image: sharp.Sharp): Promise<string> {
+  const data = await image
+    .clone()
+    .resize({ width: IMAGE_CONFIG.PLACEHOLDER_WIDTH, height: IMAGE_CONFIG.PLACEHOLDER_WIDTH, fit: 'inside' })
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return `data:image/webp;base64,${data.toString('base64')}`;
+}
+
+/**
+ * Process an upload and store every rendition
  *
  * @param buffer - Image buffer from upload
  * @param filename - Desired filename (without extension)
- * @returns URL to saved image in Blob storage
+ * @returns URLs of the stored renditions, size and placeholder
+ * @throws Error if the image can't be decoded or stored (nothing is left behind)
  */
 export async function processAndSaveImage(
   buffer: Buffer,
   filename: string
-): Promise<string> {
+): Promise<ProcessedImage> {
   if (!buffer || buffer.length === 0) {
     throw new Error('Empty image buffer provided');
   }
 
-  const finalFilename = `products/${filename}.jpg`;
+  // rotate() with no angle applies the EXIF orientation; metadata is
+  // dropped on output because withMetadata() is never called
+  const image = sharp(buffer, { failOn: 'error', limitInputPixels: IMAGE_CONFIG.MAX_INPUT_PIXELS }).rotate();
 
-  const blob = await put(finalFilename, buffer, {
-    access: 'public',
-    contentType: 'image/jpeg',
+  const [placeholder, ...encoded] = await Promise.all([
+    encodePlaceholder(image),
+    ...IMAGE_SIZES.flatMap(size => IMAGE_FORMATS.map(async format => ({
+      size,
+      format,
+      ...(await encode(image, size, format)),
+    }))),
+  ]).catch((error) => {
+    console.error('Error processing image:', error);
+    throw new Error('Failed to process image - the file may be corrupt');
   });
 
-  if (!blob || !blob.url) {
-    throw new Error('Image upload failed - no URL returned');
+  const storage = getStorage();
+  const results = await Promise.allSettled(
+    encoded.map(({ size, format, data }) =>
+      storage.put(renditionPath(filename, size, format), data, CONTENT_TYPES[format])
+    )
+  );
+
+  const uploaded = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+  if (uploaded.length !== results.length) {
+    console.error('Image upload failed:', results.find(result => result.status === 'rejected'));
+    await storage.delete(uploaded).catch(error => console.warn('Failed to clean up partial upload:', error));
+    throw new Error('Image upload failed - please try again');
   }
 
-  return blob.url;
+  const largeIndex = encoded.findIndex(e => e.size === 'large' && e.format === 'jpeg');
+  const imagePath = uploaded[largeIndex];
+
+  return {
+    imagePath,
+    renditions: renditionUrls(imagePath)!,
+    width: encoded[largeIndex].info.width,
+    height: encoded[largeIndex].info.height,
+    placeholder,
+  };
 }
 
 /**
- * Delete image file from Blob storage
+ * Delete an image (and all its renditions) from whichever storage holds it
  *
- * @param imageUrl - Full URL to the blob image
+ * @param imageUrl - URL saved as the product's image_path
+ * @throws Error if the storage backend fails
  */
-export async function deleteImage(imageUrl: string): Promise<void> {
+export async function deleteImageFiles(imageUrl: string): Promise<void> {
   if (!imageUrl) return;
 
-  // Only delete Vercel Blob URLs
-  if (!imageUrl.includes('blob.vercel-storage.com')) {
-    return;
-  }
+  const renditions = renditionUrls(imageUrl);
+  const urls = renditions
+    ? Object.values(renditions).flatMap(formats => Object.values(formats))
+    : [imageUrl];
 
+  await deleteStoredFiles(urls);
+}
+
+/**
+ * Delete an image, logging (not throwing) on failure
+ *
+ * @param imageUrl - URL saved as the product's image_path
+ */
+export async function deleteImage(imageUrl: string): Promise<void> {
   try {
-    await del(imageUrl);
+    await deleteImageFiles(imageUrl);
   } catch (error) {
     console.warn('Failed to delete image:', imageUrl, error);
   }
 }
 
 /**
- * Validate image buffer - basic check without sharp
+ * Perceptual hash of an image (64-bit dHash as 16 hex digits)
+ * Shrinks the image to 9x8 greys and records whether each pixel is
+ * brighter than its right-hand neighbour, so re-encoded, resized or
+ * slightly edited copies of a photo hash to (nearly) the same value.
+ *
+ * @param buffer - Image buffer from upload
+ * @throws Error if the image can't be decoded
+ */
+export async function hashImage(buffer: Buffer): Promise<string> {
+  try {
+    const pixels = await sharp(buffer, { failOn: 'error', limitInputPixels: IMAGE_CONFIG.MAX_INPUT_PIXELS })
+      .rotate()
+      .flatten({ background: '#ffffff' })
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = '';
+    for (let y = 0; y < 8; y++) {
+      let nibble = 0;
+      for (let x = 0; x < 8; x++) {
+        nibble = (nibble << 1) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+
+    return hash;
+  } catch (error) {
+    console.error('Error hashing image:', error);
+    throw new Error('Failed to read image - the file may be corrupt');
+  }
+}
+
+// Content types each format may be declared as
+const DECLARED_TYPES: Record<SourceImageFormat, string[]> = {
+  jpeg: ['image/jpeg', 'image/jpg'],
+  png: ['image/png'],
+  webp: ['image/webp'],
+};
+
+/**
+ * Validate image buffer - parses the header without decoding (see imageHeaders.ts)
  *
  * @param buffer - Image buffer
- * @throws Error if image is invalid
+ * @param declaredType - Content type the upload was sent as (checked against the real format)
+ * @returns Format and size read from the header
+ * @throws {ImageValidationError} If image is invalid, too large or not the declared type
  */
-export async function validateImageBuffer(buffer: Buffer): Promise<void> {
+export async function validateImageBuffer(buffer: Buffer, declaredType?: string): Promise<ImageHeader> {
   if (!buffer || buffer.length === 0) {
-    throw new Error('Empty image buffer');
+    throw new ImageValidationError('file_empty', 'Empty image buffer');
   }
 
-  // Check magic bytes for JPEG, PNG, WebP
-  const isJpeg = buffer[0] === 0xFF && buffer[1] === 0xD8;
-  const isPng = buffer[0] === 0x89 && buffer[1] === 0x50 && buffer[2] === 0x4E && buffer[3] === 0x47;
-  const isWebp = buffer[0] === 0x52 && buffer[1] === 0x49 && buffer[2] === 0x46 && buffer[3] === 0x46;
+  const header = readImageHeader(buffer);
 
-  if (!isJpeg && !isPng && !isWebp) {
-    throw new Error('Invalid image format. Please use JPEG, PNG, or WebP.');
+  if (declaredType && !DECLARED_TYPES[header.format].includes(declaredType)) {
+    throw new ImageValidationError(
+      'type_mismatch',
+      `The file is a ${header.format.toUpperCase()} image but was sent as ${declaredType}`
+    );
   }
+
+  if (Math.max(header.width, header.height) > IMAGE_CONFIG.MAX_INPUT_DIMENSION) {
+    throw new ImageValidationError(
+      'dimensions_too_large',
+      `Image is ${header.width} x ${header.height} pixels; neither side may be over ${IMAGE_CONFIG.MAX_INPUT_DIMENSION}`
+    );
+  }
+
+  if (header.width * header.height > IMAGE_CONFIG.MAX_INPUT_PIXELS) {
+    throw new ImageValidationError(
+      'dimensions_too_many_pixels',
+      `Image has ${(header.width * header.height / 1e6).toFixed(1)} megapixels; the limit is ${IMAGE_CONFIG.MAX_INPUT_PIXELS / 1e6}`
+    );
+  }
+
+  return header;
 }
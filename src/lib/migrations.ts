@@ -0,0 +1,298 @@
+/**
+ * Migration Runner
+ *
+ * Applies the numbered migrations in database/migrations and
+ * tracks them in the schema_migrations table:
+ * - up: apply every pending migration, oldest first
+ * - down: roll back the newest applied migration (if reversible)
+ * - status: list migrations with their applied state
+ *
+ * Each migration runs in its own write transaction that also
+ * re-reads schema_migrations, so concurrent runners serialize on
+ * the database lock and never apply the same migration twice.
+ * Works with remote Turso, local SQLite files and :memory:.
+ */
+
+import type { Client, Transaction } from '@libsql/client';
+import { migrations } from '../../database/migrations';
+import type { Migration, MigrationStatus } from '@/types/migration';
+
+/**
+ * Display name of a migration (e.g. 0003_create_users_and_sessions)
+ */
+function migrationLabel(migration: Migration): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+/** Attempts to get the database lock before giving up */
+const LOCK_ATTEMPTS = 20;
+
+/** Delay between lock attempts in milliseconds */
+const LOCK_RETRY_MS = 250;
+
+/**
+ * Check if an error means another connection holds the lock
+ */
+function isBusyError(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'SQLITE_BUSY' || code === 'SQLITE_LOCKED';
+}
+
+/**
+ * Run an operation, retrying while the database is locked
+ * Remote Turso queues writers itself; local SQLite files fail fast
+ * with SQLITE_BUSY while another runner holds the lock.
+ */
+async function withLockRetry<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isBusyError(error) || attempt >= LOCK_ATTEMPTS) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+}
+
+/**
+ * Check if the client holds an in-memory SQLite database
+ */
+async function isInMemory(client: Client): Promise<boolean> {
+  if (client.protocol !== 'file') {
+    return false;
+  }
+
+  const result = await client.execute('PRAGMA database_list');
+  return result.rows.some(row => row.name === 'main' && !row.file);
+}
+
+/**
+ * Write transaction on the client's own connection
+ * The libsql client hands interactive transactions a connection of
+ * their own and opens a new one afterwards - for :memory: that new
+ * connection would be a fresh, empty database.
+ */
+async function beginOnConnection(client: Client): Promise<Transaction> {
+  await client.execute('BEGIN IMMEDIATE');
+
+  const tx: Transaction = {
+    closed: false,
+    execute: (stmt) => client.execute(stmt),
+    batch: async (stmts) => {
+      const results = [];
+      for (const stmt of stmts) {
+        results.push(await client.execute(stmt));
+      }
+      return results;
+    },
+    executeMultiple: async () => {
+      throw new Error('executeMultiple is not supported in migrations');
+    },
+    commit: async () => {
+      tx.closed = true;
+      await client.execute('COMMIT');
+    },
+    rollback: async () => {
+      tx.closed = true;
+      await client.execute('ROLLBACK');
+    },
+    close: () => {
+      if (!tx.closed) {
+        tx.closed = true;
+        client.execute('ROLLBACK').catch(() => {});
+      }
+    },
+  };
+
+  return tx;
+}
+
+/**
+ * Start a write transaction, waiting for the database lock
+ */
+async function beginWrite(client: Client): Promise<Transaction> {
+  if (await isInMemory(client)) {
+    return beginOnConnection(client);
+  }
+  return withLockRetry(() => client.transaction('write'));
+}
+
+// Runs in this process are queued so they never share a connection mid-transaction
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run an operation after any earlier runner call in this process finishes
+ */
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = queue.then(operation);
+  queue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Create the tracking table if needed
+ */
+async function ensureMigrationsTable(client: Client): Promise<void> {
+  await withLockRetry(() => client.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `));
+}
+
+/**
+ * Get applied versions with their timestamps
+ */
+async function getAppliedVersions(client: Pick<Client, 'execute'>): Promise<Map<number, string>> {
+  const result = await client.execute('SELECT version, applied_at FROM schema_migrations');
+  return new Map(result.rows.map(row => [Number(row.version), String(row.applied_at || '')]));
+}
+
+/**
+ * List every known migration with its applied state
+ */
+export async function getMigrationStatus(client: Client): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(client);
+  const applied = await getAppliedVersions(client);
+
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    applied: applied.has(migration.version),
+    applied_at: applied.get(migration.version) ?? null,
+    reversible: typeof migration.down === 'function',
+  }));
+}
+
+/**
+ * Get migrations that haven't been applied yet
+ */
+export async function getPendingMigrations(client: Client): Promise<Migration[]> {
+  const status = await getMigrationStatus(client);
+  const pending = new Set(status.filter(s => !s.applied).map(s => s.version));
+  return migrations.filter(migration => pending.has(migration.version));
+}
+
+/**
+ * Apply every pending migration, oldest first
+ * @returns Names of migrations applied by this run
+ */
+export function migrateUp(client: Client): Promise<string[]> {
+  return enqueue(() => applyPending(client));
+}
+
+/**
+ * Apply pending migrations (see migrateUp)
+ */
+async function applyPending(client: Client): Promise<string[]> {
+  const appliedNow: string[] = [];
+
+  for (const migration of await getPendingMigrations(client)) {
+    const tx = await beginWrite(client);
+
+    try {
+      // Re-check inside the lock - another runner may have applied it
+      const applied = await getAppliedVersions(tx);
+      if (applied.has(migration.version)) {
+        await tx.rollback();
+        continue;
+      }
+
+      await migration.up(tx);
+      await tx.execute({
+        sql: 'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+        args: [migration.version, migration.name],
+      });
+      await tx.commit();
+
+      console.log(`Applied migration ${migrationLabel(migration)}`);
+      appliedNow.push(migrationLabel(migration));
+    } catch (error) {
+      console.error(`Migration ${migrationLabel(migration)} failed:`, error);
+      throw new Error(
+        `Migration ${migrationLabel(migration)} failed: ` +
+        (error instanceof Error ? error.message : 'Unknown error')
+      );
+    } finally {
+      tx.close();
+    }
+  }
+
+  return appliedNow;
+}
+
+/**
+ * Roll back the newest applied migrations
+ * @param steps - How many migrations to roll back
+ * @returns Names of migrations rolled back
+ * @throws Error if a migration in the way is not reversible
+ */
+export function migrateDown(client: Client, steps: number = 1): Promise<string[]> {
+  return enqueue(() => rollBack(client, steps));
+}
+
+/**
+ * Roll back applied migrations (see migrateDown)
+ */
+async function rollBack(client: Client, steps: number): Promise<string[]> {
+  await ensureMigrationsTable(client);
+  const rolledBack: string[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    const tx = await beginWrite(client);
+
+    try {
+      const applied = await getAppliedVersions(tx);
+      const latest = Math.max(0, ...applied.keys());
+      if (latest === 0) {
+        await tx.rollback();
+        break;
+      }
+
+      const migration = migrations.find(m => m.version === latest);
+      if (!migration) {
+        throw new Error(`Migration ${latest} is applied but its file is missing`);
+      }
+      if (!migration.down) {
+        throw new Error(`Migration ${latest} (${migration.name}) is not reversible`);
+      }
+
+      await migration.down(tx);
+      await tx.execute({
+        sql: 'DELETE FROM schema_migrations WHERE version = ?',
+        args: [migration.version],
+      });
+      await tx.commit();
+
+      console.log(`Rolled back migration ${migrationLabel(migration)}`);
+      rolledBack.push(migrationLabel(migration));
+    } catch (error) {
+      console.error('Rollback failed:', error);
+      throw error instanceof Error ? error : new Error('Rollback failed');
+    } finally {
+      tx.close();
+    }
+  }
+
+  return rolledBack;
+}
+
+/**
+ * Throw if any migration is pending
+ * Used at startup so the app never runs against an outdated schema.
+ */
+export async function assertNoPendingMigrations(client: Client): Promise<void> {
+  const pending = await getPendingMigrations(client);
+
+  if (pending.length > 0) {
+    const names = pending.map(migrationLabel);
+    throw new Error(
+      `Database has ${pending.length} pending migration(s): ${names.join(', ')}. ` +
+      'Run "npm run db:init" to apply them.'
+    );
+  }
+}
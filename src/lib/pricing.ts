@@ -0,0 +1,122 @@
+/**
+ * Pricing Utilities
+ *
+ * Pure helpers for quantity price breaks and GST - no database
+ * access, so they are safe to use in client components.
+ *
+ * Stored prices exclude GST. Tax is worked out in whole paise and
+ * rounded half up, the way it is shown on a tax invoice.
+ */
+
+import { TAX_CONFIG } from './constants';
+import type { GstBreakdown, GstDisplay, PriceTier } from '@/types/product';
+
+/**
+ * Find the tier a quantity falls in
+ * Tier bounds are whole units, so "1–99" also covers 99.5 (anything below 100).
+ * @returns Matching tier, or null if the quantity is outside every tier
+ */
+export function findPriceTier(tiers: PriceTier[], quantity: number): PriceTier | null {
+  return tiers.find(tier =>
+    quantity >= tier.min_qty && (tier.max_qty === null || quantity < tier.max_qty + 1)
+  ) ?? null;
+}
+
+/**
+ * Unit price for an order quantity
+ * Uses the matching tier, or the product's own price when the
+ * quantity is outside every tier (or there are no tiers).
+ * @throws RangeError if quantity is not a positive number
+ */
+export function priceForQuantity(
+  product: { price: number; price_tiers?: PriceTier[] },
+  quantity: number
+): number {
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+    throw new RangeError('Quantity must be a positive number');
+  }
+
+  return findPriceTier(product.price_tiers || [], quantity)?.price ?? product.price;
+}
+
+/**
+ * Describe a tier's quantity range (e.g. "1–99", "500+")
+ */
+export function formatTierRange(tier: PriceTier): string {
+  if (tier.max_qty === null) {
+    return `${tier.min_qty}+`;
+  }
+  return tier.min_qty === tier.max_qty ? `${tier.min_qty}` : `${tier.min_qty}–${tier.max_qty}`;
+}
+
+/**
+ * Sort tiers by quantity, lowest first
+ */
+export function sortPriceTiers(tiers: PriceTier[]): PriceTier[] {
+  return [...tiers].sort((a, b) => a.min_qty - b.min_qty);
+}
+
+/**
+ * Work out GST on a price
+ * Intra-state supplies split the tax equally into CGST and SGST (each
+ * rounded on its own); inter-state supplies charge it all as IGST.
+ * @param amount - Taxable value in rupees (excluding GST)
+ * @param rate - GST rate in percent
+ * @throws RangeError if the amount or rate is negative
+ */
+export function calculateGst(
+  amount: number,
+  rate: number,
+  { interState = false }: { interState?: boolean } = {}
+): GstBreakdown {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new RangeError('Amount must be zero or more');
+  }
+  if (!Number.isFinite(rate) || rate < 0) {
+    throw new RangeError('GST rate must be zero or more');
+  }
+
+  const taxable = Math.round(amount * 100);
+  const half = interState ? 0 : Math.round((taxable * rate) / 200);
+  const igst = interState ? Math.round((taxable * rate) / 100) : 0;
+
+  return {
+    taxable: taxable / 100,
+    rate,
+    cgst: half / 100,
+    sgst: half / 100,
+    igst: igst / 100,
+    total: (taxable + 2 * half + igst) / 100,
+  };
+}
+
+/**
+ * Price to show on the storefront (with GST added when prices are shown inclusive)
+ */
+export function displayPrice(
+  price: number,
+  rate: number,
+  display: GstDisplay = TAX_CONFIG.PRICE_DISPLAY
+): number {
+  return display === 'inclusive' ? calculateGst(price, rate).total : price;
+}
+
+/**
+ * Tax note shown after a price ("+ GST" or "incl. GST")
+ */
+export function gstLabel(display: GstDisplay = TAX_CONFIG.PRICE_DISPLAY): string {
+  return display === 'inclusive' ? 'incl. GST' : '+ GST';
+}
+
+/**
+ * Format a price for the storefront (e.g. "₹1,000.00 + GST", "₹1,180.00 incl. GST")
+ */
+export function formatPriceWithGst(
+  price: number,
+  rate: number,
+  display: GstDisplay = TAX_CONFIG.PRICE_DISPLAY
+): string {
+  const amount = displayPrice(price, rate, display)
+    .toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `₹${amount} ${gstLabel(display)}`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Login Rate Limiting Module
+ *
+ * Tracks failed logins (and failed 2FA codes when changing 2FA
+ * settings) per IP address and per account:
+ * - Exponential backoff after a few failures
+ * - Temporary lockout after too many failures
+ * - Counters stored in the database so limits survive restarts
+ *   and apply across serverless instances
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from './db';
+import { AUTH_CONFIG } from './constants';
+import type { ApiError } from '@/types/api';
+
+/**
+ * Rate limit check result
+ */
+export interface RateLimitStatus {
+  allowed: boolean;
+  /** Seconds until the next attempt is allowed (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Rate limit keys for a login attempt
+ */
+export function getLoginKeys(request: NextRequest, username: string): string[] {
+  return [`ip:${getClientIp(request)}`, `user:${username.trim().toLowerCase()}`];
+}
+
+/**
+ * Client IP, from the platform or the trusted proxies
+ * Each proxy appends the address it was reached from to X-Forwarded-For,
+ * so only the entries the trusted proxies added (counted from the right)
+ * can be believed - anything further left is whatever the client sent.
+ */
+export function getClientIp(request: NextRequest): string {
+  if (request.ip) {
+    return request.ip;
+  }
+
+  const hops = AUTH_CONFIG.TRUSTED_PROXY_HOPS;
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (hops > 0 && forwarded.length >= hops) {
+    return forwarded[forwarded.length - hops];
+  }
+  return 'unknown';
+}
+
+/**
+ * Delay to impose after the given number of consecutive failures
+ */
+function getLockSeconds(key: string, failures: number): number {
+  const lockoutAfter = key.startsWith('ip:')
+    ? AUTH_CONFIG.IP_LOCKOUT_AFTER_FAILURES
+    : AUTH_CONFIG.ACCOUNT_LOCKOUT_AFTER_FAILURES;
+
+  if (failures >= lockoutAfter) {
+    return AUTH_CONFIG.LOCKOUT_SECONDS;
+  }
+
+  if (failures < AUTH_CONFIG.BACKOFF_AFTER_FAILURES) {
+    return 0;
+  }
+
+  const exponent = failures - AUTH_CONFIG.BACKOFF_AFTER_FAILURES;
+  return Math.min(
+    AUTH_CONFIG.BACKOFF_BASE_SECONDS * 2 ** exponent,
+    AUTH_CONFIG.BACKOFF_MAX_SECONDS
+  );
+}
+
+/**
+ * Check whether any of the keys is currently locked
+ */
+export async function checkLoginAllowed(keys: string[]): Promise<RateLimitStatus> {
+  const database = getDb();
+  const now = Date.now();
+
+  const result = await database.execute({
+    sql: `
+      SELECT MAX(locked_until) AS locked_until FROM login_attempts
+      WHERE key IN (${keys.map(() => '?').join(', ')})
+    `,
+    args: keys,
+  });
+
+  const lockedUntil = Number(result.rows[0]?.locked_until) || 0;
+  if (lockedUntil > now) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((lockedUntil - now) / 1000) };
+  }
+
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Record a failed login for each key and apply backoff or lockout
+ * @returns Status after this failure
+ */
+export async function recordLoginFailure(keys: string[]): Promise<RateLimitStatus> {
+  const database = getDb();
+  const now = Date.now();
+  const windowStart = now - AUTH_CONFIG.FAILURE_WINDOW_SECONDS * 1000;
+  let lockedUntil = 0;
+
+  for (const key of keys) {
+    // Atomic increment; stale counters restart at 1
+    const result = await database.execute({
+      sql: `
+        INSERT INTO login_attempts (key, failures, last_failure_at, locked_until)
+        VALUES (?, 1, ?, 0)
+        ON CONFLICT(key) DO UPDATE SET
+          failures = CASE WHEN last_failure_at < ? THEN 1 ELSE failures + 1 END,
+          last_failure_at = excluded.last_failure_at
+        RETURNING failures
+      `,
+      args: [key, now, windowStart],
+    });
+
+    const failures = Number(result.rows[0]?.failures) || 1;
+    const lockSeconds = getLockSeconds(key, failures);
+
+    if (lockSeconds > 0) {
+      const until = now + lockSeconds * 1000;
+      await database.execute({
+        sql: 'UPDATE login_attempts SET locked_until = MAX(locked_until, ?) WHERE key = ?',
+        args: [until, key],
+      });
+      lockedUntil = Math.max(lockedUntil, until);
+    }
+  }
+
+  return lockedUntil > now
+    ? { allowed: false, retryAfterSeconds: Math.ceil((lockedUntil - now) / 1000) }
+    : { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Clear failure counters after a successful login
+ */
+export async function resetLoginFailures(keys: string[]): Promise<void> {
+  const database = getDb();
+  await database.execute({
+    sql: `DELETE FROM login_attempts WHERE key IN (${keys.map(() => '?').join(', ')})`,
+    args: keys,
+  });
+}
+
+/**
+ * 429 response telling the client how long to wait
+ */
+export function tooManyAttemptsResponse(retryAfterSeconds: number): NextResponse<ApiError> {
+  return NextResponse.json<ApiError>(
+    {
+      success: false,
+      error: `Too many failed attempts. Try again in ${retryAfterSeconds} seconds.`,
+      details: { retryAfter: retryAfterSeconds },
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+    }
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * Image Rendition Helpers
+ *
+ * Where each size and format of a processed upload lives and how wide
+ * it is, for building srcset attributes. No server dependencies, so
+ * components can use them directly.
+ */
+
+import { IMAGE_CONFIG } from './constants';
+import type { ImageFormat, ImageRenditions, ImageSize } from '@/types/image';
+
+export const IMAGE_SIZES: ImageSize[] = ['thumbnail', 'medium', 'large'];
+export const IMAGE_FORMATS: ImageFormat[] = ['avif', 'webp', 'jpeg'];
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  avif: 'avif',
+  webp: 'webp',
+  jpeg: 'jpg',
+};
+
+// Matches the large JPEG of a processed image (older uploads are single files)
+const LARGE_JPEG = /\/large\.jpg$/;
+
+/**
+ * URLs of every rendition of a processed image
+ * @param imagePath - URL saved on the product (the large JPEG)
+ * @returns Renditions, or null for images uploaded before processing existed
+ */
+export function renditionUrls(imagePath: string): ImageRenditions | null {
+  if (!LARGE_JPEG.test(imagePath)) {
+    return null;
+  }
+
+  const base = imagePath.replace(LARGE_JPEG, '');
+  return Object.fromEntries(IMAGE_SIZES.map(size => [
+    size,
+    Object.fromEntries(IMAGE_FORMATS.map(format => [format, `${base}/${size}.${IMAGE_EXTENSIONS[format]}`])),
+  ])) as ImageRenditions;
+}
+
+/**
+ * Width of each rendition, in pixels
+ * Smaller sizes are never wider than the large one; a very tall image
+ * may really have wider small sizes, which only means the browser
+ * downloads a little more than it needs.
+ * @param width - Width of the large rendition (null if unknown: the configured maximums are used)
+ */
+export function renditionWidths(width: number | null | undefined): Record<ImageSize, number> {
+  const large = width || IMAGE_CONFIG.MAX_WIDTH;
+
+  return {
+    thumbnail: Math.min(IMAGE_CONFIG.THUMBNAIL_WIDTH, large),
+    medium: Math.min(IMAGE_CONFIG.MEDIUM_WIDTH, large),
+    large,
+  };
+}
+
+/**
+ * Build a srcset of one format (e.g. ".../thumbnail.webp 300w, .../medium.webp 600w")
+ * Sizes that come out the same width are listed once, smallest file first.
+ */
+export function buildSrcSet(
+  renditions: ImageRenditions,
+  format: ImageFormat,
+  width: number | null | undefined
+): string {
+  const widths = renditionWidths(width);
+  const seen = new Set<number>();
+
+  return IMAGE_SIZES
+    .filter(size => !seen.has(widths[size]) && seen.add(widths[size]))
+    .map(size => `${renditions[size][format]} ${widths[size]}w`)
+    .join(', ');
+}
@@ -0,0 +1,167 @@
+/**
+ * Product Revisions Module
+ *
+ * Keeps restorable history for products:
+ * - Snapshot of the previous version on every update
+ * - Per-product revision numbers (1, 2, 3, ...)
+ * - Restore any revision as a new update
+ * - Revisions are kept for REVISION_CONFIG.RETENTION_DAYS, then pruned
+ *   by the upload sweeper along with images only they showed
+ *
+ * Restoring goes through updateProduct, so the version being
+ * replaced is itself snapshotted and the restore can be undone.
+ */
+
+import type { InStatement, Row } from '@libsql/client';
+import { getDb, updateProduct } from './db';
+import { parseOrderQuantity } from './units';
+import { REVISION_CONFIG } from './constants';
+import type { AuditActor } from '@/types/audit';
+import type { OrderUnit, Product, ProductRevision, ProductUpdate } from '@/types/product';
+
+/**
+ * Build the statement that snapshots a product before an update
+ * Run it in the same batch as the UPDATE so history and data stay in step.
+ */
+export function buildRevisionInsert(product: Product, actor?: AuditActor | null): InStatement {
+  return {
+    sql: `
+      INSERT INTO product_revisions (product_id, revision, snapshot_json, actor_id, actor_name)
+      VALUES (
+        ?,
+        (SELECT COALESCE(MAX(revision), 0) + 1 FROM product_revisions WHERE product_id = ?),
+        ?, ?, ?
+      )
+    `,
+    args: [
+      product.id,
+      product.id,
+      JSON.stringify(product),
+      actor?.id ?? null,
+      actor?.username ?? 'system',
+    ],
+  };
+}
+
+/**
+ * Map a database row to a ProductRevision
+ */
+function rowToRevision(row: Row): ProductRevision {
+  return {
+    revision: Number(row.revision),
+    product_id: String(row.product_id),
+    snapshot: JSON.parse(String(row.snapshot_json)) as Product,
+    actor_id: row.actor_id ? String(row.actor_id) : null,
+    actor_name: String(row.actor_name || 'system'),
+    created_at: String(row.created_at || ''),
+  };
+}
+
+/**
+ * Get all revisions of a product
+ * @param productId - Product ID
+ * @returns Revisions, newest first
+ */
+export async function getProductRevisions(productId: string): Promise<ProductRevision[]> {
+  try {
+    const database = getDb();
+
+    const result = await database.execute({
+      sql: 'SELECT * FROM product_revisions WHERE product_id = ? ORDER BY revision DESC',
+      args: [productId],
+    });
+
+    return result.rows.map(rowToRevision);
+  } catch (error) {
+    console.error(`Error fetching revisions for product ${productId}:`, error);
+    throw new Error(`Failed to fetch revisions for product ${productId}`);
+  }
+}
+
+/**
+ * Get a single revision of a product
+ * @returns Revision or null if not found
+ */
+export async function getProductRevision(
+  productId: string,
+  revision: number
+): Promise<ProductRevision | null> {
+  try {
+    const database = getDb();
+
+    const result = await database.execute({
+      sql: 'SELECT * FROM product_revisions WHERE product_id = ? AND revision = ?',
+      args: [productId, revision],
+    });
+
+    return result.rows.length > 0 ? rowToRevision(result.rows[0]) : null;
+  } catch (error) {
+    console.error(`Error fetching revision ${revision} of product ${productId}:`, error);
+    throw new Error(`Failed to fetch revision ${revision} of product ${productId}`);
+  }
+}
+
+/**
+ * Delete revisions older than the retention period
+ * @param retentionDays - Days to keep revisions
+ * @returns Number of revisions deleted
+ */
+export async function pruneProductRevisions(
+  retentionDays: number = REVISION_CONFIG.RETENTION_DAYS
+): Promise<number> {
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: "DELETE FROM product_revisions WHERE created_at <= datetime('now', ?)",
+      args: [`-${retentionDays} days`],
+    });
+
+    return result.rowsAffected;
+  } catch (error) {
+    console.error('Error pruning product revisions:', error);
+    throw new Error('Failed to prune product revisions');
+  }
+}
+
+/**
+ * Read the minimum order from a snapshot
+ * Snapshots taken before units existed hold free text ("10 pcs"); it is
+ * restored only if it can be read unambiguously.
+ */
+function snapshotMinOrder(snapshot: Product): Pick<ProductUpdate, 'min_order_qty' | 'min_order_unit'> {
+  const { min_order_qty, min_order_unit } = snapshot as { min_order_qty: unknown; min_order_unit?: OrderUnit };
+
+  if (typeof min_order_qty === 'number') {
+    return { min_order_qty, min_order_unit: min_order_unit || 'pcs' };
+  }
+
+  const parsed = typeof min_order_qty === 'string' ? parseOrderQuantity(min_order_qty) : null;
+  return parsed?.unit ? { min_order_qty: parsed.quantity, min_order_unit: parsed.unit } : {};
+}
+
+/**
+ * Restore a product to a saved revision
+ * @param actor - User performing the restore (recorded in history and audit log)
+ * @returns Restored product, or null if the product or revision doesn't exist
+ */
+export async function restoreProductRevision(
+  productId: string,
+  revision: number,
+  actor?: AuditActor
+): Promise<Product | null> {
+  const saved = await getProductRevision(productId, revision);
+  if (!saved) {
+    return null;
+  }
+
+  // Older snapshots have no category_ids, price_tiers, GST details or images - those are left
+  // as they are (image_path then replaces just the cover)
+  const { name, price, hsn_code, gst_rate, image_path, images, category_ids, price_tiers } = saved.snapshot;
+  const minOrder = snapshotMinOrder(saved.snapshot);
+
+  return updateProduct(
+    productId,
+    { name, price, hsn_code, gst_rate, ...minOrder, image_path, images, category_ids, price_tiers },
+    actor
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * Product Search Module
+ *
+ * Full-text search over product names (SQLite FTS5):
+ * - Prefix matching on every word ("punch mach" finds "Punching Machine")
+ * - Results ranked by relevance (bm25)
+ * - Matched terms highlighted with <mark>
+ * - Typo fallback: when nothing matches exactly, trigram candidates
+ *   are scored by edit distance ("punchng" finds "Punching")
+ *
+ * The products_fts and products_trigram indexes are kept in sync
+ * by triggers (see migration 0011). Trashed products are never returned.
+ */
+
+import { getDb, PRODUCT_COLUMNS, rowToProduct } from './db';
+import { SEARCH_CONFIG } from './constants';
+import type { ProductSearchResult } from '@/types/product';
+
+// Control characters mark highlights in SQL output; they are swapped
+// for <mark> tags after the name has been HTML-escaped
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+
+/**
+ * Split text into lowercase words without accents
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Get the set of three-character sequences in a word
+ */
+function trigrams(word: string): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= word.length; i++) {
+    result.add(word.slice(i, i + 3));
+  }
+  return result;
+}
+
+/**
+ * Similarity of two words by edit distance (0-1, 1 = identical)
+ */
+function similarity(a: string, b: string): number {
+  // Levenshtein distance, one row at a time
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Escape a highlighted name and turn the markers into <mark> tags
+ */
+function toHighlightHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>');
+}
+
+/**
+ * Run an FTS5 query against one of the product indexes
+ */
+async function matchProducts(
+  table: 'products_fts' | 'products_trigram',
+  match: string,
+  limit: number
+): Promise<ProductSearchResult[]> {
+  const database = getDb();
+
+  const result = await database.execute({
+    sql: `
+      SELECT ${PRODUCT_COLUMNS}, highlight(${table}, 1, ?, ?) AS highlight
+      FROM ${table}
+      JOIN products ON products.id = ${table}.id
+      WHERE ${table} MATCH ? AND products.deleted_at IS NULL
+      ORDER BY ${table}.rank
+      LIMIT ?
+    `,
+    args: [MARK_START, MARK_END, match, limit],
+  });
+
+  return result.rows.map(row => ({
+    product: rowToProduct(row),
+    highlight: toHighlightHtml(String(row.highlight ?? row.name)),
+  }));
+}
+
+/**
+ * Search products by name
+ * @param query - Words to search for (the last may be partial)
+ * @param limit - Maximum number of results
+ * @returns Matches, best first, and whether they came from the typo fallback
+ */
+export async function searchProducts(
+  query: string,
+  limit: number = SEARCH_CONFIG.DEFAULT_RESULTS
+): Promise<{ results: ProductSearchResult[]; fuzzy: boolean }> {
+  const words = typeof query === 'string' ? tokenize(query) : [];
+  if (words.length === 0) {
+    return { results: [], fuzzy: false };
+  }
+
+  const max = Math.min(Math.max(limit, 1), SEARCH_CONFIG.MAX_RESULTS);
+
+  try {
+    // Every word must match the start of a word in the name
+    const exact = await matchProducts(
+      'products_fts',
+      words.map(word => `"${word}"*`).join(' '),
+      max
+    );
+
+    if (exact.length > 0) {
+      return { results: exact, fuzzy: false };
+    }
+
+    // Typo fallback: fetch names sharing any trigram, then keep the similar ones
+    const fuzzyWords = words.filter(word => word.length >= 3);
+    const grams = new Set(fuzzyWords.flatMap(word => Array.from(trigrams(word))));
+    if (grams.size === 0) {
+      return { results: [], fuzzy: false };
+    }
+
+    const candidates = await matchProducts(
+      'products_trigram',
+      Array.from(grams).map(gram => `"${gram}"`).join(' OR '),
+      max * 5
+    );
+
+    const scored = candidates
+      .map(candidate => {
+        const nameWords = tokenize(candidate.product.name);
+        const score = fuzzyWords.reduce(
+          (sum, word) => sum + Math.max(0, ...nameWords.map(name => similarity(word, name))),
+          0
+        ) / fuzzyWords.length;
+        return { candidate, score };
+      })
+      .filter(({ score }) => score >= SEARCH_CONFIG.MIN_FUZZY_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, max);
+
+    return { results: scored.map(({ candidate }) => candidate), fuzzy: scored.length > 0 };
+  } catch (error) {
+    console.error('Error searching products:', error);
+    throw new Error('Failed to search products');
+  }
+}
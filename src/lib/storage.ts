@@ -0,0 +1,279 @@
+/**
+ * File Storage Module
+ *
+ * One interface over the places uploaded images can live:
+ * - Vercel Blob (default)
+ * - Local filesystem under public/images/products (development, self-hosting)
+ * - S3-compatible object storage (AWS S3, MinIO, R2, ...)
+ *
+ * STORAGE_BACKEND picks where new files go. Deletes go to whichever
+ * backend owns each URL, so files left behind by an earlier backend
+ * (e.g. the old /images/products/*.jpg files) can still be removed.
+ *
+ * Every backend keeps files in the STORAGE_CONFIG.FOLDER folder;
+ * keys are relative to it.
+ */
+
+import { mkdir, rm, rmdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { put, del } from '@vercel/blob';
+import { S3Client, PutObjectCommand, DeleteObjectsCommand } from '@aws-sdk/client-s3';
+import { STORAGE_CONFIG } from './constants';
+
+/**
+ * Storage backend
+ */
+export interface FileStorage {
+  /** Backend name (as set in STORAGE_BACKEND) */
+  name: StorageBackend;
+
+  /**
+   * Store a file
+   * @param key - Path inside the folder (e.g. img_1/large.jpg)
+   * @returns Public URL of the file
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+
+  /** Delete files by URL (missing files are not an error) */
+  delete(urls: string[]): Promise<void>;
+
+  /** Whether a URL points at a file in this store */
+  owns(url: string): boolean;
+}
+
+export type StorageBackend = 'blob' | 'local' | 's3';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['blob', 'local', 's3'];
+
+/**
+ * Vercel Blob storage (needs BLOB_READ_WRITE_TOKEN)
+ * @param folder - Folder inside the blob store
+ */
+export function createBlobStorage(folder: string = STORAGE_CONFIG.FOLDER): FileStorage {
+  return {
+    name: 'blob',
+
+    async put(key, data, contentType) {
+      const blob = await put(`${folder}/${key}`, data, { access: 'public', contentType });
+      if (!blob?.url) {
+        throw new Error('Blob upload failed - no URL returned');
+      }
+      return blob.url;
+    },
+
+    async delete(urls) {
+      if (urls.length > 0) {
+        await del(urls);
+      }
+    },
+
+    owns(url) {
+      return url.includes('blob.vercel-storage.com');
+    },
+  };
+}
+
+/**
+ * Local filesystem storage
+ * Files are written under <root> and served by Next.js from public/,
+ * so this only suits servers with a persistent, writable disk.
+ * @param root - Directory files are stored in (default public/images/products)
+ * @param baseUrl - URL path the directory is served at (default /images/products)
+ */
+export function createLocalStorage(
+  root: string = path.join(process.cwd(), 'public', 'images', STORAGE_CONFIG.FOLDER),
+  baseUrl: string = `/images/${STORAGE_CONFIG.FOLDER}`
+): FileStorage {
+  const base = `${baseUrl.replace(/\/+$/, '')}/`;
+
+  // Map a URL to a file path, refusing anything outside the root
+  const toFilePath = (url: string): string | null => {
+    if (!url.startsWith(base)) return null;
+    const filePath = path.resolve(root, decodeURIComponent(url.slice(base.length)));
+    return filePath.startsWith(path.resolve(root) + path.sep) ? filePath : null;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = toFilePath(`${base}${key}`);
+      if (!filePath) {
+        throw new Error(`Invalid storage key: ${key}`);
+      }
+
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+      return `${base}${key}`;
+    },
+
+    async delete(urls) {
+      const folders = new Set<string>();
+
+      for (const url of urls) {
+        const filePath = toFilePath(url);
+        if (!filePath) continue;
+
+        await rm(filePath, { force: true });
+        folders.add(path.dirname(filePath));
+      }
+
+      // Remove folders the deletes emptied (fails harmlessly if not empty)
+      for (const folder of Array.from(folders)) {
+        if (folder !== path.resolve(root)) {
+          await rmdir(folder).catch(() => undefined);
+        }
+      }
+    },
+
+    owns(url) {
+      return toFilePath(url) !== null;
+    },
+  };
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  /** Folder (key prefix) inside the bucket */
+  folder: string;
+  region: string;
+  /** Custom endpoint for S3-compatible stores (e.g. http://localhost:9000 for MinIO) */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Public base URL of the bucket (default: path-style on the endpoint, or AWS virtual-hosted) */
+  publicUrl?: string;
+}
+
+/**
+ * S3-compatible storage
+ * Objects are uploaded with a public-read ACL; use a bucket policy
+ * instead if the store has ACLs disabled.
+ */
+export function createS3Storage(config: S3StorageConfig): FileStorage {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    // Custom endpoints (MinIO etc.) rarely support bucket subdomains
+    forcePathStyle: !!config.endpoint,
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  });
+
+  const publicUrl = (
+    config.publicUrl ||
+    (config.endpoint
+      ? `${config.endpoint.replace(/\/+$/, '')}/${config.bucket}`
+      : `https://${config.bucket}.s3.${config.region}.amazonaws.com`)
+  ).replace(/\/+$/, '') + '/';
+
+  return {
+    name: 's3',
+
+    async put(key, data, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: config.bucket,
+        Key: `${config.folder}/${key}`,
+        Body: data,
+        ContentType: contentType,
+        ACL: 'public-read',
+      }));
+      return `${publicUrl}${config.folder}/${key}`;
+    },
+
+    async delete(urls) {
+      const keys = urls
+        .filter(url => url.startsWith(publicUrl))
+        .map(url => decodeURIComponent(url.slice(publicUrl.length)));
+      if (keys.length === 0) return;
+
+      const result = await client.send(new DeleteObjectsCommand({
+        Bucket: config.bucket,
+        Delete: { Objects: keys.map(Key => ({ Key })), Quiet: true },
+      }));
+
+      if (result.Errors && result.Errors.length > 0) {
+        throw new Error(`Failed to delete ${result.Errors.length} object(s): ${result.Errors[0].Message}`);
+      }
+    },
+
+    owns(url) {
+      return url.startsWith(publicUrl);
+    },
+  };
+}
+
+/**
+ * S3 settings from the environment, or null if S3_BUCKET isn't set
+ */
+function s3ConfigFromEnv(): S3StorageConfig | null {
+  if (!process.env.S3_BUCKET) {
+    return null;
+  }
+
+  return {
+    bucket: process.env.S3_BUCKET,
+    folder: STORAGE_CONFIG.FOLDER,
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    publicUrl: process.env.S3_PUBLIC_URL || undefined,
+  };
+}
+
+let activeStorage: FileStorage | null = null;
+let knownStorages: FileStorage[] | null = null;
+
+/**
+ * Every backend files may have been stored in (for deletes)
+ */
+function getKnownStorages(): FileStorage[] {
+  if (!knownStorages) {
+    const s3 = s3ConfigFromEnv();
+    knownStorages = [
+      createBlobStorage(),
+      createLocalStorage(),
+      ...(s3 ? [createS3Storage(s3)] : []),
+    ];
+  }
+  return knownStorages;
+}
+
+/**
+ * Get the backend new files are stored in (set by STORAGE_BACKEND)
+ * @throws Error if STORAGE_BACKEND is unknown or S3 is chosen without S3_BUCKET
+ */
+export function getStorage(): FileStorage {
+  if (activeStorage) {
+    return activeStorage;
+  }
+
+  const backend = STORAGE_CONFIG.BACKEND;
+  if (!(STORAGE_BACKENDS as string[]).includes(backend)) {
+    throw new Error(`STORAGE_BACKEND must be one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  if (backend === 's3' && !s3ConfigFromEnv()) {
+    throw new Error('STORAGE_BACKEND=s3 needs S3_BUCKET');
+  }
+
+  activeStorage = getKnownStorages().find(storage => storage.name === backend)!;
+  return activeStorage;
+}
+
+/**
+ * Delete files from whichever backend holds each one
+ * URLs no backend recognises (e.g. external links) are skipped.
+ */
+export async function deleteStoredFiles(urls: string[]): Promise<void> {
+  const storages = getKnownStorages();
+
+  for (const storage of storages) {
+    const owned = urls.filter(url => storage.owns(url));
+    if (owned.length > 0) {
+      await storage.delete(owned);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * TOTP Module
+ *
+ * Time-based one-time passwords (RFC 6238, built on RFC 4226 HOTP):
+ * - Base32 secret encoding (RFC 4648)
+ * - Code generation and verification with clock-drift window
+ * - otpauth:// provisioning URIs for authenticator apps
+ *
+ * Pure functions only - no database access.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * TOTP parameters (defaults match Google Authenticator and most apps)
+ */
+export interface TotpOptions {
+  /** Number of digits in the code */
+  digits?: number;
+  /** Time step in seconds */
+  period?: number;
+  /** HMAC algorithm */
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+}
+
+const DEFAULT_OPTIONS: Required<TotpOptions> = {
+  digits: 6,
+  period: 30,
+  algorithm: 'sha1',
+};
+
+/**
+ * Encode bytes as unpadded Base32
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode Base32 (case-insensitive, ignores spaces and padding)
+ * @throws Error if the input contains invalid characters
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random Base32 secret (160 bits, as recommended by RFC 4226)
+ */
+export function generateSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Generate an HOTP code for a counter value (RFC 4226)
+ */
+export function generateHotp(
+  secret: Buffer,
+  counter: number,
+  options: TotpOptions = {}
+): string {
+  const { digits, algorithm } = { ...DEFAULT_OPTIONS, ...options };
+
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(algorithm, secret).update(counterBuffer).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Time step counter for a timestamp
+ */
+export function getTimeCounter(timeMs: number = Date.now(), period: number = DEFAULT_OPTIONS.period): number {
+  return Math.floor(timeMs / 1000 / period);
+}
+
+/**
+ * Generate the TOTP code for a point in time (RFC 6238)
+ *
+ * @param secret - Base32 secret or raw key bytes
+ * @param timeMs - Timestamp in milliseconds (defaults to now)
+ */
+export function generateTotp(
+  secret: string | Buffer,
+  timeMs: number = Date.now(),
+  options: TotpOptions = {}
+): string {
+  const key = typeof secret === 'string' ? base32Decode(secret) : secret;
+  const { period } = { ...DEFAULT_OPTIONS, ...options };
+  return generateHotp(key, getTimeCounter(timeMs, period), options);
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift
+ *
+ * @param window - Number of time steps to accept either side of now
+ * @returns Matching time step counter, or null if the code is invalid
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  window: number = 1,
+  timeMs: number = Date.now(),
+  options: TotpOptions = {}
+): number | null {
+  const { digits, period } = { ...DEFAULT_OPTIONS, ...options };
+  const normalized = code.replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = getTimeCounter(timeMs, period);
+
+  for (let offset = -window; offset <= window; offset++) {
+    if (generateHotp(key, current + offset, options) === normalized) {
+      return current + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build an otpauth:// URI for QR provisioning
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: DEFAULT_OPTIONS.algorithm.toUpperCase(),
+    digits: String(DEFAULT_OPTIONS.digits),
+    period: String(DEFAULT_OPTIONS.period),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
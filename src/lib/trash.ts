@@ -0,0 +1,63 @@
+/**
+ * Trash Module
+ *
+ * Permanent deletion of trashed products:
+ * - Purge a single product (row, revisions and images)
+ * - Purge every product past the retention period
+ *
+ * The database row is removed before the images, so a failed
+ * blob delete can only leave an unused file, never a broken product.
+ * Images another product also uses are kept.
+ */
+
+import { getDeletedProducts, purgeProduct } from './db';
+import { deleteUnusedImages } from './uploads';
+import { TRASH_CONFIG } from './constants';
+import type { AuditActor } from '@/types/audit';
+import type { Product } from '@/types/product';
+
+/**
+ * Permanently delete a trashed product and its images
+ * @param actor - User making the change (recorded in the audit log)
+ * @returns true if purged, false if it isn't in the trash
+ */
+export async function permanentlyDeleteProduct(product: Product, actor?: AuditActor): Promise<boolean> {
+  const purged = await purgeProduct(product.id, actor);
+
+  if (purged) {
+    const paths = new Set([...product.images.map(image => image.image_path), product.image_path]);
+    await deleteUnusedImages(Array.from(paths).filter((path): path is string => !!path));
+  }
+
+  return purged;
+}
+
+/**
+ * Purge every product that has been in the trash past the retention period
+ * @param retentionDays - Days to keep trashed products
+ * @returns IDs of purged products
+ */
+export async function purgeExpiredProducts(
+  retentionDays: number = TRASH_CONFIG.RETENTION_DAYS,
+  actor?: AuditActor
+): Promise<string[]> {
+  const expired = await getDeletedProducts(retentionDays);
+  const purged: string[] = [];
+
+  for (const product of expired) {
+    try {
+      if (await permanentlyDeleteProduct(product, actor)) {
+        purged.push(product.id);
+      }
+    } catch (error) {
+      // Keep going - the next run will retry this product
+      console.error(`Failed to purge product ${product.id}:`, error);
+    }
+  }
+
+  if (purged.length > 0) {
+    console.log(`Purged ${purged.length} expired product(s) from trash`);
+  }
+
+  return purged;
+}
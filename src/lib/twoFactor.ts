@@ -0,0 +1,200 @@
+/**
+ * Two-Factor Authentication Module
+ *
+ * Handles TOTP enrollment and verification for admin users:
+ * - Pending secret while the user scans the QR code
+ * - Enabling 2FA once a first code is confirmed
+ * - One-time recovery codes (stored hashed)
+ * - Replay protection: each time step can only be used once
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getDb } from './db';
+import { AUTH_CONFIG } from './constants';
+import { generateSecret, buildOtpauthUri, verifyTotp } from './totp';
+
+/**
+ * Two-factor state for a user
+ */
+export interface TwoFactorState {
+  enabled: boolean;
+  secret: string | null;
+  pendingSecret: string | null;
+  lastCounter: number;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Hash a recovery code for storage
+ * Codes are high-entropy random values, so a fast hash is sufficient
+ */
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+}
+
+/**
+ * Generate a set of recovery codes (e.g. 'a1b2c-3d4e5')
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: AUTH_CONFIG.RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Get the two-factor state for a user
+ */
+export async function getTwoFactorState(userId: string): Promise<TwoFactorState | null> {
+  const database = getDb();
+  const result = await database.execute({
+    sql: `
+      SELECT totp_enabled, totp_secret, totp_pending_secret, totp_last_counter,
+        (SELECT COUNT(*) FROM recovery_codes WHERE user_id = users.id AND used_at IS NULL) AS remaining
+      FROM users WHERE id = ?
+    `,
+    args: [userId],
+  });
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    enabled: Number(row.totp_enabled) === 1,
+    secret: row.totp_secret ? String(row.totp_secret) : null,
+    pendingSecret: row.totp_pending_secret ? String(row.totp_pending_secret) : null,
+    lastCounter: Number(row.totp_last_counter) || 0,
+    recoveryCodesRemaining: Number(row.remaining) || 0,
+  };
+}
+
+/**
+ * Start enrollment by generating a new pending secret
+ * @returns Secret and otpauth:// URI for the authenticator app
+ */
+export async function beginEnrollment(
+  userId: string,
+  username: string
+): Promise<{ secret: string; otpauthUri: string }> {
+  const secret = generateSecret();
+
+  const database = getDb();
+  await database.execute({
+    sql: 'UPDATE users SET totp_pending_secret = ? WHERE id = ?',
+    args: [secret, userId],
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, username, AUTH_CONFIG.TOTP_ISSUER),
+  };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * @returns Plain recovery codes (shown once), or null if the code is wrong
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const state = await getTwoFactorState(userId);
+  if (!state?.pendingSecret) {
+    return null;
+  }
+
+  const counter = verifyTotp(state.pendingSecret, code);
+  if (counter === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const database = getDb();
+
+  await database.batch([
+    {
+      sql: `
+        UPDATE users SET totp_secret = totp_pending_secret, totp_pending_secret = NULL,
+          totp_enabled = 1, totp_last_counter = ?
+        WHERE id = ?
+      `,
+      args: [counter, userId],
+    },
+    {
+      sql: 'DELETE FROM recovery_codes WHERE user_id = ?',
+      args: [userId],
+    },
+    ...recoveryCodes.map(recoveryCode => ({
+      sql: 'INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)',
+      args: [userId, hashRecoveryCode(recoveryCode)],
+    })),
+  ], 'write');
+
+  console.log('Two-factor authentication enabled for user:', userId);
+  return recoveryCodes;
+}
+
+/**
+ * Turn off two-factor authentication and discard recovery codes
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  const database = getDb();
+  await database.batch([
+    {
+      sql: `
+        UPDATE users SET totp_enabled = 0, totp_secret = NULL,
+          totp_pending_secret = NULL, totp_last_counter = 0
+        WHERE id = ?
+      `,
+      args: [userId],
+    },
+    {
+      sql: 'DELETE FROM recovery_codes WHERE user_id = ?',
+      args: [userId],
+    },
+  ], 'write');
+
+  console.log('Two-factor authentication disabled for user:', userId);
+}
+
+/**
+ * Verify a TOTP code for a user with 2FA enabled
+ * Rejects codes from a time step that has already been used.
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const state = await getTwoFactorState(userId);
+  if (!state?.enabled || !state.secret) {
+    return false;
+  }
+
+  const counter = verifyTotp(state.secret, code);
+  if (counter === null || counter <= state.lastCounter) {
+    return false;
+  }
+
+  // Conditional update guards against two requests racing with the same code
+  const database = getDb();
+  const result = await database.execute({
+    sql: 'UPDATE users SET totp_last_counter = ? WHERE id = ? AND totp_last_counter < ?',
+    args: [counter, userId, counter],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Use a recovery code (each code works once)
+ */
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const database = getDb();
+  const result = await database.execute({
+    sql: `
+      UPDATE recovery_codes SET used_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+    `,
+    args: [userId, hashRecoveryCode(code)],
+  });
+
+  return result.rowsAffected > 0;
+}
@@ -0,0 +1,87 @@
+/**
+ * Order Unit Utilities
+ *
+ * Pure helpers for minimum order quantities - safe to use in
+ * client components:
+ * - Display formatting ("10 pcs", "2.5 kg", "per sheet")
+ * - Parsing free text such as "10 pcs", "50kg" or "Minimum 1 dozen"
+ */
+
+import { PRODUCT_CONFIG } from './constants';
+import type { OrderUnit } from '@/types/product';
+
+// Words people write for each unit (matched case-insensitively)
+const UNIT_ALIASES: Record<OrderUnit, string[]> = {
+  pcs: ['pc', 'pcs', 'piece', 'pieces', 'no', 'nos', 'number', 'numbers', 'unit', 'units'],
+  kg: ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  sheets: ['sheet', 'sheets'],
+  metres: ['m', 'mtr', 'mtrs', 'metre', 'metres', 'meter', 'meters', 'rmt'],
+  'sq ft': ['sqft', 'sq ft', 'sq. ft', 'sq.ft', 'sft', 'ft2', 'square feet', 'square foot'],
+};
+
+// One of each unit, as prices are quoted ("₹50 per sheet")
+const SINGULAR_UNITS: Record<OrderUnit, string> = {
+  pcs: 'piece',
+  kg: 'kg',
+  sheets: 'sheet',
+  metres: 'metre',
+  'sq ft': 'sq ft',
+};
+
+// Counting words that multiply a quantity of pieces
+const MULTIPLIERS: Record<string, number> = {
+  dozen: 12,
+  dozens: 12,
+};
+
+/**
+ * Check whether a value is a known order unit
+ */
+export function isOrderUnit(value: unknown): value is OrderUnit {
+  return (PRODUCT_CONFIG.ORDER_UNITS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Format a quantity with its unit (e.g. "10 pcs", "2.5 kg")
+ */
+export function formatOrderQuantity(quantity: number, unit: OrderUnit): string {
+  return `${quantity.toLocaleString('en-IN', { maximumFractionDigits: 2 })} ${unit}`;
+}
+
+/**
+ * Name one of a unit, for prices (e.g. "piece", "sheet", "kg")
+ */
+export function singularUnit(unit: OrderUnit): string {
+  return SINGULAR_UNITS[unit];
+}
+
+/**
+ * Parse a free-text quantity such as "10 pcs", "50kg", "Min. 5 sheets" or "1 dozen"
+ * @returns Quantity and unit (null if no unit was written), or null if unreadable
+ */
+export function parseOrderQuantity(text: string): { quantity: number; unit: OrderUnit | null } | null {
+  const cleaned = text
+    .toLowerCase()
+    .trim()
+    .replace(/^(minimum|min\.?|moq)\s*(order)?\s*(qty|quantity)?\s*[:\-]?\s*(of\s+)?/, '')
+    .replace(/\s*(only|onwards|and above|\+)\s*$/, '');
+
+  const match = cleaned.match(/^(\d{1,3}(?:,\d{2,3})+|\d+(?:\.\d+)?)\s*(.*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const quantity = Number(match[1].replace(/,/g, ''));
+  const words = match[2].replace(/\.$/, '').trim();
+
+  if (!words) {
+    return { quantity, unit: null };
+  }
+
+  if (MULTIPLIERS[words]) {
+    return { quantity: quantity * MULTIPLIERS[words], unit: 'pcs' };
+  }
+
+  const unit = (Object.keys(UNIT_ALIASES) as OrderUnit[]).find(u => UNIT_ALIASES[u].includes(words));
+  return unit ? { quantity, unit } : null;
+}
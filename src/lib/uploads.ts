@@ -0,0 +1,316 @@
+/**
+ * Uploads Ledger Module
+ *
+ * Tracks uploaded images so unused ones can be cleaned up:
+ * - Every upload is recorded as soon as it is stored
+ * - Saving a product links the images it uses; dropping one releases it
+ * - The sweeper deletes images no product uses once they have been
+ *   unused for the grace period (UPLOAD_CONFIG.GRACE_HOURS)
+ * - Perceptual hashes find stored images that look like a new upload,
+ *   so staff can reuse them (one image may then serve several products)
+ *
+ * Whether an image is in use is always checked against the products
+ * themselves (trashed ones included) and their retained revisions, so a
+ * stale link can never get a live image deleted and every revision in
+ * the history can still be restored with its images. A replaced image
+ * is swept once the revisions showing it pass
+ * REVISION_CONFIG.RETENTION_DAYS (the sweep prunes them first).
+ */
+
+import type { InStatement, Row } from '@libsql/client';
+import { getDb } from './db';
+import { recordAudit } from './audit';
+import { deleteImageFiles } from './imageProcessor';
+import { pruneProductRevisions } from './revisions';
+import { IMAGE_CONFIG, REVISION_CONFIG, UPLOAD_CONFIG } from './constants';
+import type { AuditActor } from '@/types/audit';
+import type { DuplicateImage, OrphanedUpload, ProcessedImage, UploadSweepReport } from '@/types/image';
+
+/**
+ * SQL condition matching images no product (active or trashed) or
+ * retained product revision uses
+ * @param imagePath - SQL expression for the image's URL
+ */
+function unusedImage(imagePath: string): string {
+  return `
+    NOT EXISTS (SELECT 1 FROM product_images WHERE product_images.image_path = ${imagePath})
+    AND NOT EXISTS (SELECT 1 FROM products WHERE products.image_path = ${imagePath})
+    AND NOT EXISTS (
+      SELECT 1 FROM product_revisions
+      WHERE created_at > datetime('now', '-${REVISION_CONFIG.RETENTION_DAYS} days')
+        AND (json_extract(snapshot_json, '$.image_path') = ${imagePath} OR EXISTS (
+          SELECT 1 FROM json_each(snapshot_json, '$.images')
+          WHERE json_extract(json_each.value, '$.image_path') = ${imagePath}
+        ))
+    )
+  `;
+}
+
+// Matches uploads nothing uses
+const UNUSED = unusedImage('uploads.image_path');
+
+/**
+ * Map a database row to an OrphanedUpload
+ */
+function rowToOrphan(row: Row): OrphanedUpload {
+  return {
+    image_path: String(row.image_path),
+    reason: row.product_id ? 'replaced' : 'abandoned',
+    product_id: row.product_id ? String(row.product_id) : null,
+    uploaded_by: row.uploaded_by ? String(row.uploaded_by) : null,
+    created_at: String(row.created_at || ''),
+    released_at: row.released_at ? String(row.released_at) : null,
+  };
+}
+
+/**
+ * Count the bits two hex hashes differ by
+ */
+function hashDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Record a newly stored upload with its size, placeholder and hash
+ * @param image - Result of processAndSaveImage
+ * @param hash - Perceptual hash from hashImage (null if unknown)
+ * @param actor - User who uploaded it
+ */
+export async function recordUpload(
+  image: ProcessedImage,
+  hash: string | null,
+  actor?: AuditActor
+): Promise<void> {
+  try {
+    const database = getDb();
+    await database.execute({
+      sql: `
+        INSERT OR IGNORE INTO uploads (image_path, uploaded_by, width, height, placeholder, hash)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+      args: [image.imagePath, actor?.id ?? null, image.width, image.height, image.placeholder, hash],
+    });
+  } catch (error) {
+    console.error('Error recording upload:', error);
+    throw new Error('Failed to record upload');
+  }
+}
+
+/**
+ * Find stored uploads that look like an image
+ * @param hash - Perceptual hash of the new image (see hashImage)
+ * @param maxDistance - Most bits the hashes may differ by
+ * @returns Closest matches first, with the products that show them
+ */
+export async function findDuplicateUploads(
+  hash: string,
+  maxDistance: number = IMAGE_CONFIG.DUPLICATE_MAX_DISTANCE
+): Promise<DuplicateImage[]> {
+  try {
+    const database = getDb();
+    const result = await database.execute(
+      'SELECT image_path, hash, width, height, placeholder FROM uploads WHERE hash IS NOT NULL'
+    );
+
+    const duplicates: DuplicateImage[] = result.rows
+      .map(row => ({
+        image_path: String(row.image_path),
+        distance: hashDistance(hash, String(row.hash)),
+        width: row.width === null ? null : Number(row.width),
+        height: row.height === null ? null : Number(row.height),
+        placeholder: row.placeholder ? String(row.placeholder) : null,
+        products: [],
+      }))
+      .filter(duplicate => duplicate.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, IMAGE_CONFIG.MAX_DUPLICATES);
+
+    if (duplicates.length === 0) {
+      return [];
+    }
+
+    const used = await database.execute({
+      sql: `
+        SELECT product_images.image_path, products.id, products.name
+        FROM product_images JOIN products ON products.id = product_images.product_id
+        WHERE products.deleted_at IS NULL
+          AND product_images.image_path IN (${duplicates.map(() => '?').join(', ')})
+        ORDER BY products.name
+      `,
+      args: duplicates.map(duplicate => duplicate.image_path),
+    });
+
+    for (const row of used.rows) {
+      duplicates
+        .find(duplicate => duplicate.image_path === row.image_path)
+        ?.products.push({ id: String(row.id), name: String(row.name) });
+    }
+
+    return duplicates;
+  } catch (error) {
+    console.error('Error finding duplicate uploads:', error);
+    throw new Error('Failed to find duplicate uploads');
+  }
+}
+
+/**
+ * Delete images once no product uses them, with their ledger entries
+ * Images are shared when an upload is reused, so a purged product's
+ * images are only deleted if no other product (active or trashed) or
+ * product revision shows them. Failures are logged, not thrown - the
+ * ledger entry is kept so the sweeper tries again.
+ * @param imagePaths - Images the purged product used
+ */
+export async function deleteUnusedImages(imagePaths: string[]): Promise<void> {
+  const database = getDb();
+
+  for (const imagePath of imagePaths) {
+    try {
+      const unused = await database.execute({
+        sql: `SELECT 1 WHERE ${unusedImage('?1')}`,
+        args: [imagePath],
+      });
+      if (unused.rows.length === 0) continue;
+
+      await deleteImageFiles(imagePath);
+      await database.execute({ sql: 'DELETE FROM uploads WHERE image_path = ?', args: [imagePath] });
+    } catch (error) {
+      console.warn('Failed to delete unused image:', imagePath, error);
+    }
+  }
+}
+
+/**
+ * Build the statements that sync the ledger with a product's images
+ * Run after the product's images are written: images it uses are
+ * linked to it, images it no longer uses are released.
+ */
+export function buildUploadLinks(productId: string): InStatement[] {
+  return [
+    {
+      sql: `
+        UPDATE uploads SET product_id = ?, released_at = NULL
+        WHERE image_path IN (SELECT image_path FROM product_images WHERE product_id = ?)
+      `,
+      args: [productId, productId],
+    },
+    {
+      sql: `
+        UPDATE uploads SET released_at = CURRENT_TIMESTAMP
+        WHERE product_id = ? AND released_at IS NULL
+          AND image_path NOT IN (SELECT image_path FROM product_images WHERE product_id = ?)
+      `,
+      args: [productId, productId],
+    },
+  ];
+}
+
+/**
+ * Find uploads no product uses
+ * @param graceHours - Only uploads unused for at least this many hours
+ * @returns Orphaned uploads, oldest first
+ */
+export async function findOrphanedUploads(
+  graceHours: number = UPLOAD_CONFIG.GRACE_HOURS
+): Promise<OrphanedUpload[]> {
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: `
+        SELECT * FROM uploads
+        WHERE COALESCE(released_at, created_at) <= datetime('now', ?) AND ${UNUSED}
+        ORDER BY created_at ASC
+      `,
+      args: [`-${graceHours} hours`],
+    });
+
+    return result.rows.map(rowToOrphan);
+  } catch (error) {
+    console.error('Error finding orphaned uploads:', error);
+    throw new Error('Failed to find orphaned uploads');
+  }
+}
+
+/**
+ * Delete uploads no product has used for the grace period
+ * Revisions past their retention period are pruned first, so the
+ * history never offers a revision whose images are gone.
+ * Each ledger row is removed before its files (and put back if the
+ * delete fails), so an image saved on a product mid-sweep is kept.
+ * @param options.dryRun - Only report what would be deleted
+ * @param options.graceHours - Hours an upload must have been unused
+ * @param options.actor - User running the sweep (recorded in the audit log)
+ */
+export async function sweepOrphanedUploads(options: {
+  dryRun?: boolean;
+  graceHours?: number;
+  actor?: AuditActor;
+} = {}): Promise<UploadSweepReport> {
+  const { dryRun = false, graceHours = UPLOAD_CONFIG.GRACE_HOURS, actor } = options;
+  const orphaned = await findOrphanedUploads(graceHours);
+  const report: UploadSweepReport = { dryRun, graceHours, orphaned, deleted: [], failed: [] };
+
+  if (dryRun) {
+    return report;
+  }
+
+  const pruned = await pruneProductRevisions();
+  if (pruned > 0) {
+    console.log(`Pruned ${pruned} product revision(s) older than ${REVISION_CONFIG.RETENTION_DAYS} days`);
+  }
+
+  const database = getDb();
+
+  for (const upload of orphaned) {
+    try {
+      const claimed = await database.execute({
+        sql: `DELETE FROM uploads WHERE image_path = ? AND ${UNUSED} RETURNING *`,
+        args: [upload.image_path],
+      });
+      const row = claimed.rows[0];
+      if (!row) continue; // Used again since it was found
+
+      try {
+        await deleteImageFiles(upload.image_path);
+        report.deleted.push(upload.image_path);
+      } catch (error) {
+        console.warn('Failed to delete orphaned upload:', upload.image_path, error);
+        // Put the entry back as it was, size, placeholder and hash included
+        await database.execute({
+          sql: `
+            INSERT OR IGNORE INTO uploads
+              (image_path, uploaded_by, product_id, created_at, released_at, width, height, placeholder, hash)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          args: [
+            row.image_path, row.uploaded_by, row.product_id, row.created_at, row.released_at,
+            row.width, row.height, row.placeholder, row.hash,
+          ],
+        });
+        report.failed.push(upload.image_path);
+      }
+    } catch (error) {
+      console.error('Error sweeping upload:', upload.image_path, error);
+      report.failed.push(upload.image_path);
+    }
+  }
+
+  if (report.deleted.length > 0 || report.failed.length > 0) {
+    console.log(`Swept ${report.deleted.length} orphaned upload(s), ${report.failed.length} failed`);
+    await recordAudit({
+      actor,
+      action: 'image.sweep',
+      after: { deleted: report.deleted, failed: report.failed, graceHours },
+    });
+  }
+
+  return report;
+}
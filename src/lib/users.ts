@@ -0,0 +1,307 @@
+/**
+ * Users Module
+ *
+ * Handles admin accounts:
+ * - Password hashing with scrypt
+ * - CRUD operations for users
+ * - Credential verification
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { Row } from '@libsql/client';
+import { getDb } from './db';
+import { USER_CONFIG } from './constants';
+import type { User, UserInput, UserRole, UserUpdate } from '@/types/user';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password for storage
+ * Format: scrypt$<salt>$<hash> (base64url)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltRaw, hashRaw] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltRaw || !hashRaw) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashRaw, 'base64url');
+  const actual = await scryptAsync(password, Buffer.from(saltRaw, 'base64url'), expected.length);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+let dummyHash: string | null = null;
+
+/**
+ * Hash used to equalise timing when a username doesn't exist
+ */
+async function getDummyHash(): Promise<string> {
+  if (!dummyHash) {
+    dummyHash = await hashPassword(randomBytes(16).toString('hex'));
+  }
+  return dummyHash;
+}
+
+/**
+ * Map a database row to a User
+ */
+function rowToUser(row: Row): User {
+  return {
+    id: String(row.id),
+    username: String(row.username),
+    role: String(row.role) as UserRole,
+    totp_enabled: Number(row.totp_enabled) === 1,
+    created_at: String(row.created_at || ''),
+    updated_at: String(row.updated_at || row.created_at || ''),
+  };
+}
+
+/**
+ * Get all users
+ * @returns Array of users, oldest first
+ */
+export async function getAllUsers(): Promise<User[]> {
+  try {
+    const database = getDb();
+    const result = await database.execute(`
+      SELECT id, username, role, totp_enabled, created_at, updated_at FROM users
+      ORDER BY created_at ASC
+    `);
+
+    return result.rows.map(rowToUser);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    throw new Error('Failed to fetch users from database');
+  }
+}
+
+/**
+ * Get single user by ID
+ * @returns User or null if not found
+ */
+export async function getUserById(id: string): Promise<User | null> {
+  if (!id || typeof id !== 'string') {
+    return null;
+  }
+
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: 'SELECT id, username, role, totp_enabled, created_at, updated_at FROM users WHERE id = ?',
+      args: [id],
+    });
+
+    return result.rows.length > 0 ? rowToUser(result.rows[0]) : null;
+  } catch (error) {
+    console.error(`Error fetching user ${id}:`, error);
+    throw new Error(`Failed to fetch user ${id}`);
+  }
+}
+
+/**
+ * Verify login credentials
+ * @returns User if the username and password match, otherwise null
+ */
+export async function authenticateUser(username: string, password: string): Promise<User | null> {
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: 'SELECT * FROM users WHERE username = ? COLLATE NOCASE',
+      args: [username.trim()],
+    });
+
+    if (result.rows.length === 0) {
+      // Hash anyway so unknown usernames take as long as wrong passwords
+      await verifyPassword(password, await getDummyHash());
+      return null;
+    }
+
+    const row = result.rows[0];
+    const valid = await verifyPassword(password, String(row.password_hash));
+    return valid ? rowToUser(row) : null;
+  } catch (error) {
+    console.error('Error authenticating user:', error);
+    throw new Error('Failed to authenticate user');
+  }
+}
+
+/**
+ * Count users, optionally filtered by role
+ */
+export async function countUsers(role?: UserRole): Promise<number> {
+  const database = getDb();
+  const result = role
+    ? await database.execute({ sql: 'SELECT COUNT(*) as count FROM users WHERE role = ?', args: [role] })
+    : await database.execute('SELECT COUNT(*) as count FROM users');
+
+  return Number(result.rows[0]?.count) || 0;
+}
+
+/**
+ * Create new user
+ * @throws Error if the username is already taken
+ */
+export async function createUser(input: UserInput): Promise<User> {
+  const database = getDb();
+
+  const existing = await database.execute({
+    sql: 'SELECT id FROM users WHERE username = ? COLLATE NOCASE',
+    args: [input.username.trim()],
+  });
+  if (existing.rows.length > 0) {
+    throw new Error('Username is already taken');
+  }
+
+  const id = `${USER_CONFIG.USER_ID_PREFIX}${randomBytes(8).toString('hex')}`;
+  const passwordHash = await hashPassword(input.password);
+
+  try {
+    await database.execute({
+      sql: `
+        INSERT INTO users (id, username, password_hash, role)
+        VALUES (?, ?, ?, ?)
+      `,
+      args: [id, input.username.trim(), passwordHash, input.role],
+    });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    throw new Error('Failed to create user in database');
+  }
+
+  const user = await getUserById(id);
+  if (!user) {
+    throw new Error('User was created but could not be retrieved');
+  }
+
+  console.log('User created successfully:', user.id);
+  return user;
+}
+
+/**
+ * Create the first owner account, unless any user exists
+ * The check and insert are one statement, so of several simultaneous
+ * first logins only one can create the owner.
+ * @returns New owner, or null if a user already exists
+ */
+export async function createFirstOwner(username: string, password: string): Promise<User | null> {
+  const database = getDb();
+  const id = `${USER_CONFIG.USER_ID_PREFIX}${randomBytes(8).toString('hex')}`;
+  const passwordHash = await hashPassword(password);
+
+  let created: number;
+  try {
+    const result = await database.execute({
+      sql: `
+        INSERT INTO users (id, username, password_hash, role)
+        SELECT ?, ?, ?, 'owner'
+        WHERE NOT EXISTS (SELECT 1 FROM users)
+      `,
+      args: [id, username.trim(), passwordHash],
+    });
+    created = result.rowsAffected;
+  } catch (error) {
+    console.error('Error creating first owner:', error);
+    throw new Error('Failed to create user in database');
+  }
+
+  if (created === 0) {
+    return null;
+  }
+
+  const user = await getUserById(id);
+  if (!user) {
+    throw new Error('User was created but could not be retrieved');
+  }
+
+  console.log('First owner created:', user.id);
+  return user;
+}
+
+/**
+ * Update user role and/or password
+ * @returns Updated user or null if not found
+ */
+export async function updateUser(id: string, input: UserUpdate): Promise<User | null> {
+  const existing = await getUserById(id);
+  if (!existing) return null;
+
+  const fields: string[] = [];
+  const values: (string | null)[] = [];
+
+  if (input.role !== undefined) {
+    fields.push('role = ?');
+    values.push(input.role);
+  }
+
+  if (input.password !== undefined) {
+    fields.push('password_hash = ?');
+    values.push(await hashPassword(input.password));
+  }
+
+  if (fields.length === 0) {
+    return existing;
+  }
+
+  fields.push('updated_at = CURRENT_TIMESTAMP');
+  values.push(id);
+
+  try {
+    const database = getDb();
+    await database.execute({
+      sql: `UPDATE users SET ${fields.join(', ')} WHERE id = ?`,
+      args: values,
+    });
+
+    // Force re-login with the new password or role
+    await database.execute({
+      sql: 'DELETE FROM sessions WHERE user_id = ?',
+      args: [id],
+    });
+  } catch (error) {
+    console.error(`Error updating user ${id}:`, error);
+    throw new Error(`Failed to update user ${id}`);
+  }
+
+  console.log('User updated successfully:', id);
+  return getUserById(id);
+}
+
+/**
+ * Delete user and revoke their sessions
+ * @returns true if deleted, false if not found
+ */
+export async function deleteUser(id: string): Promise<boolean> {
+  try {
+    const database = getDb();
+    await database.execute({
+      sql: 'DELETE FROM sessions WHERE user_id = ?',
+      args: [id],
+    });
+    const result = await database.execute({
+      sql: 'DELETE FROM users WHERE id = ?',
+      args: [id],
+    });
+
+    return result.rowsAffected > 0;
+  } catch (error) {
+    console.error(`Error deleting user ${id}:`, error);
+    throw new Error(`Failed to delete user ${id}`);
+  }
+}
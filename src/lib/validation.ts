@@ -5,7 +5,20 @@
  * Add custom validation rules here as needed.
  */
 
-import { PRODUCT_CONFIG, IMAGE_CONFIG } from './constants';
+import {
+  PRODUCT_CONFIG,
+  IMAGE_CONFIG,
+  USER_CONFIG,
+  CATEGORY_CONFIG,
+  VARIANT_CONFIG,
+  PRICING_CONFIG,
+  TAX_CONFIG,
+} from './constants';
+import { sortPriceTiers } from './pricing';
+import { isOrderUnit } from './units';
+import type { ImageErrorCode } from '@/types/image';
+import type { UserRole } from '@/types/user';
+import type { OrderUnit, PriceTier, ProductImage, ProductVariantUpdate } from '@/types/product';
 
 /**
  * Validation error class
@@ -17,6 +30,20 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * Image upload validation error
+ * code says which check failed (see ImageErrorCode)
+ */
+export class ImageValidationError extends ValidationError {
+  code: ImageErrorCode;
+
+  constructor(code: ImageErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageValidationError';
+    this.code = code;
+  }
+}
+
 /**
  * Validate product name
  * @throws {ValidationError} If name is invalid
@@ -51,44 +78,150 @@ export function validateProductPrice(price: number): void {
   }
 }
 
+/**
+ * Validate minimum order unit
+ * @throws {ValidationError} If unit is not one of PRODUCT_CONFIG.ORDER_UNITS
+ */
+export function validateOrderUnit(unit: unknown): asserts unit is OrderUnit {
+  if (!isOrderUnit(unit)) {
+    throw new ValidationError(`Unit must be one of: ${PRODUCT_CONFIG.ORDER_UNITS.join(', ')}`);
+  }
+}
+
 /**
  * Validate minimum order quantity
- * @throws {ValidationError} If quantity is invalid
+ * @param unit - Whole-number units (pcs, sheets) reject fractions
+ * @throws {ValidationError} If quantity is missing or outside the configured limits
  */
-export function validateMinOrderQty(qty: string): void {
-  if (!qty || qty.trim().length === 0) {
+export function validateMinOrderQty(qty: number, unit?: OrderUnit): void {
+  if (typeof qty !== 'number' || !Number.isFinite(qty)) {
     throw new ValidationError('Minimum order quantity is required');
   }
 
-  if (qty.length > 100) {
-    throw new ValidationError('Minimum order quantity must be less than 100 characters');
+  if (qty < PRODUCT_CONFIG.MIN_ORDER_QTY || qty > PRODUCT_CONFIG.MAX_ORDER_QTY) {
+    throw new ValidationError(
+      `Minimum order quantity must be between ${PRODUCT_CONFIG.MIN_ORDER_QTY} and ${PRODUCT_CONFIG.MAX_ORDER_QTY}`
+    );
+  }
+
+  if (unit && (PRODUCT_CONFIG.WHOLE_ORDER_UNITS as readonly string[]).includes(unit) && !Number.isInteger(qty)) {
+    throw new ValidationError(`Minimum order quantity in ${unit} must be a whole number`);
+  }
+}
+
+/**
+ * Read a quantity from a request body value (number or numeric string)
+ * @returns The number, or NaN if it isn't one
+ */
+export function toQuantity(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+/**
+ * Validate HSN/SAC code
+ * HSN codes have 4, 6 or 8 digits; SAC codes (services) have 6 digits starting with 99.
+ * Blank or null means no code.
+ * @throws {ValidationError} If the code is not in one of those forms
+ */
+export function validateHsnCode(code: unknown): asserts code is string | null | undefined {
+  if (code === null || code === undefined || code === '') {
+    return;
+  }
+
+  if (typeof code !== 'string' || !/^(\d{4}|\d{6}|\d{8})$/.test(code.trim())) {
+    throw new ValidationError('HSN/SAC code must be 4, 6 or 8 digits');
+  }
+}
+
+/**
+ * Validate GST rate
+ * @throws {ValidationError} If rate is not one of TAX_CONFIG.GST_RATES
+ */
+export function validateGstRate(rate: unknown): asserts rate is number {
+  if (!(TAX_CONFIG.GST_RATES as readonly unknown[]).includes(rate)) {
+    throw new ValidationError(`GST rate must be one of: ${TAX_CONFIG.GST_RATES.join(', ')}%`);
   }
 }
 
 /**
  * Validate image file
- * @throws {ValidationError} If file is invalid
+ * @throws {ImageValidationError} If file is invalid
  */
 export function validateImageFile(file: File): void {
   // Check file exists
   if (!file) {
-    throw new ValidationError('No file provided');
+    throw new ImageValidationError('file_missing', 'No file provided');
   }
 
   // Check file size
   if (file.size > IMAGE_CONFIG.MAX_FILE_SIZE) {
     const maxSizeMB = IMAGE_CONFIG.MAX_FILE_SIZE / (1024 * 1024);
-    throw new ValidationError(`File size must be less than ${maxSizeMB}MB`);
+    throw new ImageValidationError('file_too_large', `File size must be less than ${maxSizeMB}MB`);
   }
 
   // Check file type
   if (!(IMAGE_CONFIG.ALLOWED_TYPES as readonly string[]).includes(file.type)) {
-    throw new ValidationError(
+    throw new ImageValidationError(
+      'type_not_allowed',
       `File type must be one of: ${IMAGE_CONFIG.ALLOWED_TYPES.join(', ')}`
     );
   }
 }
 
+/**
+ * Validate a product's gallery images
+ * Each image needs a URL (absolute, or a path starting with /) and
+ * at most one may be the cover. Without a cover the first image is used.
+ * @throws {ValidationError} If the images are invalid
+ */
+export function validateProductImages(images: unknown): asserts images is ProductImage[] {
+  if (!Array.isArray(images)) {
+    throw new ValidationError('images must be an array');
+  }
+
+  if (images.length > IMAGE_CONFIG.MAX_IMAGES_PER_PRODUCT) {
+    throw new ValidationError(`A product can have at most ${IMAGE_CONFIG.MAX_IMAGES_PER_PRODUCT} images`);
+  }
+
+  const paths = new Set<string>();
+
+  for (const image of images) {
+    if (!image || typeof image !== 'object') {
+      throw new ValidationError('Each image must have an image_path');
+    }
+
+    const { image_path, alt_text, is_cover } = image as Record<string, unknown>;
+
+    if (typeof image_path !== 'string' || !/^(https?:\/\/|\/)\S+$/.test(image_path)) {
+      throw new ValidationError('Each image must have a valid image_path URL');
+    }
+
+    if (paths.has(image_path)) {
+      throw new ValidationError('The same image is listed more than once');
+    }
+    paths.add(image_path);
+
+    if (alt_text !== null && alt_text !== undefined) {
+      if (typeof alt_text !== 'string') {
+        throw new ValidationError('Alt text must be text');
+      }
+      if (alt_text.trim().length > IMAGE_CONFIG.MAX_ALT_TEXT_LENGTH) {
+        throw new ValidationError(`Alt text must be less than ${IMAGE_CONFIG.MAX_ALT_TEXT_LENGTH} characters`);
+      }
+    }
+
+    if (is_cover !== undefined && typeof is_cover !== 'boolean') {
+      throw new ValidationError('is_cover must be true or false');
+    }
+  }
+
+  if (images.filter(image => image.is_cover === true).length > 1) {
+    throw new ValidationError('Only one image can be the cover');
+  }
+}
+
 /**
  * Validate complete product input
  * @throws {ValidationError} If any field is invalid
@@ -96,9 +229,234 @@ export function validateImageFile(file: File): void {
 export function validateProductInput(input: {
   name: string;
   price: number;
-  min_order_qty: string;
+  min_order_qty: number;
+  min_order_unit: unknown;
 }): void {
   validateProductName(input.name);
   validateProductPrice(input.price);
-  validateMinOrderQty(input.min_order_qty);
+  validateOrderUnit(input.min_order_unit);
+  validateMinOrderQty(input.min_order_qty, input.min_order_unit);
+}
+
+/**
+ * Validate username
+ * @throws {ValidationError} If username is invalid
+ */
+export function validateUsername(username: string): void {
+  if (!username || username.trim().length === 0) {
+    throw new ValidationError('Username is required');
+  }
+
+  if (username.length > USER_CONFIG.MAX_USERNAME_LENGTH) {
+    throw new ValidationError(
+      `Username must be less than ${USER_CONFIG.MAX_USERNAME_LENGTH} characters`
+    );
+  }
+
+  if (!/^[a-zA-Z0-9._-]+$/.test(username.trim())) {
+    throw new ValidationError('Username may only contain letters, numbers, dots, dashes and underscores');
+  }
+}
+
+/**
+ * Validate password strength
+ * @throws {ValidationError} If password is too weak
+ */
+export function validatePassword(password: string): void {
+  if (!password || typeof password !== 'string') {
+    throw new ValidationError('Password is required');
+  }
+
+  if (password.length < USER_CONFIG.MIN_PASSWORD_LENGTH) {
+    throw new ValidationError(
+      `Password must be at least ${USER_CONFIG.MIN_PASSWORD_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Validate user role
+ * @throws {ValidationError} If role is not recognised
+ */
+export function validateUserRole(role: string): asserts role is UserRole {
+  if (!(USER_CONFIG.ROLES as readonly string[]).includes(role)) {
+    throw new ValidationError(`Role must be one of: ${USER_CONFIG.ROLES.join(', ')}`);
+  }
+}
+
+/**
+ * Validate category name
+ * @throws {ValidationError} If name is invalid
+ */
+export function validateCategoryName(name: string): void {
+  if (!name || name.trim().length === 0) {
+    throw new ValidationError('Category name is required');
+  }
+
+  if (name.trim().length > CATEGORY_CONFIG.MAX_NAME_LENGTH) {
+    throw new ValidationError(
+      `Category name must be less than ${CATEGORY_CONFIG.MAX_NAME_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Validate category slug (lowercase words joined by dashes)
+ * @throws {ValidationError} If slug is invalid
+ */
+export function validateCategorySlug(slug: string): void {
+  if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug)) {
+    throw new ValidationError('Slug may only contain lowercase letters, numbers and single dashes');
+  }
+
+  if (slug.length > CATEGORY_CONFIG.MAX_SLUG_LENGTH) {
+    throw new ValidationError(`Slug must be less than ${CATEGORY_CONFIG.MAX_SLUG_LENGTH} characters`);
+  }
+}
+
+/**
+ * Validate category description
+ * @throws {ValidationError} If description is too long
+ */
+export function validateCategoryDescription(description: string): void {
+  if (description.length > CATEGORY_CONFIG.MAX_DESCRIPTION_LENGTH) {
+    throw new ValidationError(
+      `Description must be less than ${CATEGORY_CONFIG.MAX_DESCRIPTION_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Validate a list of category IDs
+ * @throws {ValidationError} If it is not an array of strings
+ */
+export function validateCategoryIds(ids: unknown): asserts ids is string[] {
+  if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+    throw new ValidationError('category_ids must be an array of category IDs');
+  }
+}
+
+/**
+ * Validate variant SKU (letters, numbers, dots, dashes and underscores)
+ * @throws {ValidationError} If SKU is invalid
+ */
+export function validateVariantSku(sku: string): void {
+  if (!sku || sku.trim().length === 0) {
+    throw new ValidationError('SKU is required');
+  }
+
+  if (sku.length > VARIANT_CONFIG.MAX_SKU_LENGTH) {
+    throw new ValidationError(`SKU must be less than ${VARIANT_CONFIG.MAX_SKU_LENGTH} characters`);
+  }
+
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(sku)) {
+    throw new ValidationError('SKU may only contain letters, numbers, dots, dashes and underscores');
+  }
+}
+
+/**
+ * Validate a variant attribute (size, thickness or material)
+ * @throws {ValidationError} If the value is too long
+ */
+export function validateVariantAttribute(label: string, value: string): void {
+  if (value.length > VARIANT_CONFIG.MAX_ATTRIBUTE_LENGTH) {
+    throw new ValidationError(
+      `${label} must be less than ${VARIANT_CONFIG.MAX_ATTRIBUTE_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Validate a variant request body
+ * @param partial - Allow missing fields (updates)
+ * @param unit - The product's order unit (variants share it)
+ * @returns Variant fields from the body, with price and quantity as numbers
+ * @throws {ValidationError} If any field is missing or invalid
+ */
+export function validateVariantInput(
+  body: Record<string, unknown>,
+  partial: boolean = false,
+  unit?: OrderUnit
+): ProductVariantUpdate {
+  const input: ProductVariantUpdate = {};
+
+  if (body.sku !== undefined || !partial) {
+    validateVariantSku(String(body.sku ?? '').trim());
+    input.sku = String(body.sku).trim();
+  }
+
+  for (const [attribute, label] of [['size', 'Size'], ['thickness', 'Thickness'], ['material', 'Material']] as const) {
+    if (body[attribute] !== undefined) {
+      const value = body[attribute] === null ? '' : String(body[attribute]);
+      validateVariantAttribute(label, value);
+      input[attribute] = value.trim() || null;
+    }
+  }
+
+  if (body.price !== undefined || !partial) {
+    const price = typeof body.price === 'number' ? body.price : parseFloat(String(body.price));
+    validateProductPrice(price);
+    input.price = price;
+  }
+
+  if (body.min_order_qty !== undefined || !partial) {
+    const quantity = toQuantity(body.min_order_qty);
+    validateMinOrderQty(quantity, unit);
+    input.min_order_qty = quantity;
+  }
+
+  return input;
+}
+
+/**
+ * Validate quantity price tiers
+ * Each tier needs a whole min_qty of 1 or more, a max_qty of at least
+ * min_qty (or null for "and above") and a valid price. Each tier must
+ * start right after the one before it ends - no overlaps or gaps.
+ * @throws {ValidationError} If the tiers are invalid, overlap or leave a gap
+ */
+export function validatePriceTiers(tiers: unknown): asserts tiers is PriceTier[] {
+  if (!Array.isArray(tiers)) {
+    throw new ValidationError('price_tiers must be an array');
+  }
+
+  if (tiers.length > PRICING_CONFIG.MAX_TIERS) {
+    throw new ValidationError(`A product can have at most ${PRICING_CONFIG.MAX_TIERS} price tiers`);
+  }
+
+  for (const tier of tiers) {
+    if (!tier || typeof tier !== 'object') {
+      throw new ValidationError('Each price tier must have min_qty, max_qty and price');
+    }
+
+    const { min_qty, max_qty, price } = tier as Record<string, unknown>;
+
+    if (!Number.isInteger(min_qty) || (min_qty as number) < 1) {
+      throw new ValidationError('Tier minimum quantity must be a whole number of at least 1');
+    }
+
+    if (max_qty !== null && (!Number.isInteger(max_qty) || (max_qty as number) < (min_qty as number))) {
+      throw new ValidationError(
+        `Tier starting at ${min_qty} needs a whole maximum quantity of at least ${min_qty}, or none`
+      );
+    }
+
+    validateProductPrice(price as number);
+  }
+
+  const sorted = sortPriceTiers(tiers as PriceTier[]);
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    if (previous.max_qty === null || previous.max_qty >= sorted[i].min_qty) {
+      throw new ValidationError(
+        `Price tiers overlap: the tier starting at ${previous.min_qty} runs into the one starting at ${sorted[i].min_qty}`
+      );
+    }
+
+    if (previous.max_qty + 1 < sorted[i].min_qty) {
+      throw new ValidationError(
+        `Price tiers leave a gap: the tier ending at ${previous.max_qty} should be followed by one starting at ${previous.max_qty + 1}`
+      );
+    }
+  }
 }
@@ -0,0 +1,249 @@
+/**
+ * Product Variants Module
+ *
+ * Sizes, thicknesses and materials of a product:
+ * - Each variant has its own SKU, price and minimum order
+ * - SKUs are unique across the catalog (case-insensitive)
+ * - Every change bumps the product's updated_at and is audited
+ *
+ * Products load their variants with them (see PRODUCT_COLUMNS in db.ts);
+ * this module is for changing them.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Row } from '@libsql/client';
+import { getDb } from './db';
+import { recordAudit } from './audit';
+import { VARIANT_CONFIG } from './constants';
+import type { AuditActor } from '@/types/audit';
+import type { ProductVariant, ProductVariantInput, ProductVariantUpdate } from '@/types/product';
+
+/**
+ * Map a database row to a ProductVariant
+ */
+function rowToVariant(row: Row): ProductVariant {
+  return {
+    id: String(row.id),
+    product_id: String(row.product_id),
+    sku: String(row.sku),
+    size: row.size ? String(row.size) : null,
+    thickness: row.thickness ? String(row.thickness) : null,
+    material: row.material ? String(row.material) : null,
+    price: Number(row.price),
+    min_order_qty: Number(row.min_order_qty) || 0,
+    created_at: String(row.created_at || ''),
+    updated_at: String(row.updated_at || row.created_at || ''),
+  };
+}
+
+/**
+ * Trim an optional attribute, storing blanks as null
+ */
+function cleanAttribute(value: string | null | undefined): string | null {
+  return value?.trim() || null;
+}
+
+/**
+ * Get a product's variants
+ * @returns Variants, cheapest first
+ */
+export async function getProductVariants(productId: string): Promise<ProductVariant[]> {
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: 'SELECT * FROM product_variants WHERE product_id = ? ORDER BY price ASC, sku ASC',
+      args: [productId],
+    });
+
+    return result.rows.map(rowToVariant);
+  } catch (error) {
+    console.error(`Error fetching variants for product ${productId}:`, error);
+    throw new Error(`Failed to fetch variants for product ${productId}`);
+  }
+}
+
+/**
+ * Get single variant of a product
+ * @returns Variant or null if the product has no such variant
+ */
+export async function getVariantById(productId: string, variantId: string): Promise<ProductVariant | null> {
+  try {
+    const database = getDb();
+    const result = await database.execute({
+      sql: 'SELECT * FROM product_variants WHERE id = ? AND product_id = ?',
+      args: [variantId, productId],
+    });
+
+    return result.rows.length > 0 ? rowToVariant(result.rows[0]) : null;
+  } catch (error) {
+    console.error(`Error fetching variant ${variantId}:`, error);
+    throw new Error(`Failed to fetch variant ${variantId}`);
+  }
+}
+
+/**
+ * Check a SKU is free (optionally ignoring one variant)
+ * @throws Error if the SKU is already taken
+ */
+async function assertSkuAvailable(sku: string, exceptId?: string): Promise<void> {
+  const database = getDb();
+  const result = await database.execute({
+    sql: 'SELECT id FROM product_variants WHERE sku = ? COLLATE NOCASE',
+    args: [sku],
+  });
+
+  if (result.rows.some(row => String(row.id) !== exceptId)) {
+    throw new Error(`SKU "${sku}" is already taken`);
+  }
+}
+
+/**
+ * Create a variant for a product
+ * @throws Error if the SKU is taken or the product has too many variants
+ */
+export async function createVariant(
+  productId: string,
+  input: ProductVariantInput,
+  actor?: AuditActor
+): Promise<ProductVariant> {
+  const database = getDb();
+  const sku = input.sku.trim();
+
+  const count = await database.execute({
+    sql: 'SELECT COUNT(*) as count FROM product_variants WHERE product_id = ?',
+    args: [productId],
+  });
+  if (Number(count.rows[0]?.count) >= VARIANT_CONFIG.MAX_VARIANTS_PER_PRODUCT) {
+    throw new Error(`A product can have at most ${VARIANT_CONFIG.MAX_VARIANTS_PER_PRODUCT} variants`);
+  }
+
+  await assertSkuAvailable(sku);
+
+  const id = `${VARIANT_CONFIG.VARIANT_ID_PREFIX}${randomBytes(8).toString('hex')}`;
+
+  try {
+    await database.batch([
+      {
+        sql: `
+          INSERT INTO product_variants (id, product_id, sku, size, thickness, material, price, min_order_qty)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        args: [
+          id,
+          productId,
+          sku,
+          cleanAttribute(input.size),
+          cleanAttribute(input.thickness),
+          cleanAttribute(input.material),
+          input.price,
+          input.min_order_qty,
+        ],
+      },
+      { sql: 'UPDATE products SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', args: [productId] },
+    ], 'write');
+  } catch (error) {
+    console.error('Error creating variant:', error);
+    throw new Error('Failed to create variant in database');
+  }
+
+  const variant = await getVariantById(productId, id);
+  if (!variant) {
+    throw new Error('Variant was created but could not be retrieved');
+  }
+
+  console.log('Variant created successfully:', variant.id);
+  await recordAudit({ actor, action: 'variant.create', productId, after: variant });
+  return variant;
+}
+
+/**
+ * Update a product's variant
+ * @returns Updated variant or null if not found
+ * @throws Error if the new SKU is taken
+ */
+export async function updateVariant(
+  productId: string,
+  variantId: string,
+  input: ProductVariantUpdate,
+  actor?: AuditActor
+): Promise<ProductVariant | null> {
+  const existing = await getVariantById(productId, variantId);
+  if (!existing) return null;
+
+  const fields: string[] = [];
+  const values: (string | number | null)[] = [];
+
+  if (input.sku !== undefined && input.sku.trim() !== existing.sku) {
+    await assertSkuAvailable(input.sku.trim(), variantId);
+    fields.push('sku = ?');
+    values.push(input.sku.trim());
+  }
+
+  for (const attribute of ['size', 'thickness', 'material'] as const) {
+    if (input[attribute] !== undefined) {
+      fields.push(`${attribute} = ?`);
+      values.push(cleanAttribute(input[attribute]));
+    }
+  }
+
+  if (input.price !== undefined) {
+    fields.push('price = ?');
+    values.push(input.price);
+  }
+
+  if (input.min_order_qty !== undefined) {
+    fields.push('min_order_qty = ?');
+    values.push(input.min_order_qty);
+  }
+
+  if (fields.length === 0) {
+    return existing;
+  }
+
+  fields.push('updated_at = CURRENT_TIMESTAMP');
+  values.push(variantId);
+
+  try {
+    const database = getDb();
+    await database.batch([
+      { sql: `UPDATE product_variants SET ${fields.join(', ')} WHERE id = ?`, args: values },
+      { sql: 'UPDATE products SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', args: [productId] },
+    ], 'write');
+  } catch (error) {
+    console.error(`Error updating variant ${variantId}:`, error);
+    throw new Error(`Failed to update variant ${variantId}`);
+  }
+
+  const updated = await getVariantById(productId, variantId);
+  console.log('Variant updated successfully:', variantId);
+  await recordAudit({ actor, action: 'variant.update', productId, before: existing, after: updated });
+  return updated;
+}
+
+/**
+ * Delete a product's variant
+ * @returns true if deleted, false if not found
+ */
+export async function deleteVariant(
+  productId: string,
+  variantId: string,
+  actor?: AuditActor
+): Promise<boolean> {
+  const existing = await getVariantById(productId, variantId);
+  if (!existing) return false;
+
+  try {
+    const database = getDb();
+    await database.batch([
+      { sql: 'DELETE FROM product_variants WHERE id = ?', args: [variantId] },
+      { sql: 'UPDATE products SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', args: [productId] },
+    ], 'write');
+  } catch (error) {
+    console.error(`Error deleting variant ${variantId}:`, error);
+    throw new Error(`Failed to delete variant ${variantId}`);
+  }
+
+  console.log('Variant deleted successfully:', variantId);
+  await recordAudit({ actor, action: 'variant.delete', productId, before: existing });
+  return true;
+}
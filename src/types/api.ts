@@ -5,6 +5,8 @@
  */
 
 import { Product } from './product';
+import { User } from './user';
+import type { DuplicateImage, ImageErrorCode, ImageRenditions } from './image';
 
 /**
  * Generic success response
@@ -24,17 +26,34 @@ export interface ApiError {
   details?: any;
 }
 
+/**
+ * Refused image upload
+ * code says which check failed, for the uploader to explain it
+ */
+export interface ImageUploadError extends ApiError {
+  code: ImageErrorCode;
+  /** Stored images the upload matched (code 'duplicate') */
+  details?: { duplicates?: DuplicateImage[] };
+}
+
 /**
  * Image upload response
  */
 export interface ImageUploadResponse {
   success: true;
   data: {
-    /** Path to uploaded image */
+    /** Path to uploaded image (large JPEG, saved as the product's image_path) */
     imagePath: string;
+    /** URLs of every size and format */
+    renditions: ImageRenditions;
+    /** Large rendition size in pixels */
+    width: number;
+    height: number;
+    /** Tiny blurred preview (data URI) */
+    placeholder: string;
     /** Original filename */
     originalName: string;
-    /** File size in bytes */
+    /** File size in bytes (as uploaded) */
     size: number;
   };
   message?: string;
@@ -47,8 +66,45 @@ export interface ProductListResponse {
   success: true;
   data: {
     products: Product[];
+    /** Products matching the filters, across all pages */
     total: number;
+    /** Cursor for the following page (null on the last page) */
+    nextCursor: string | null;
+    /** Cursor for the preceding page (null on the first page) */
+    prevCursor: string | null;
   };
+  message?: string;
+}
+
+/**
+ * Authenticated session info returned by /api/auth and /api/auth/session
+ */
+export interface SessionData {
+  authenticated: true;
+  /** Session expiry in milliseconds since epoch */
+  expiresAt: number;
+  user: Pick<User, 'id' | 'username' | 'role'>;
+}
+
+/**
+ * First-step login response when two-factor authentication is enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  /** Signed, short-lived token to send back with the code */
+  challenge: string;
+}
+
+/**
+ * Two-factor enrollment info returned by POST /api/auth/2fa
+ */
+export interface TwoFactorEnrollment {
+  /** Base32 secret for manual entry */
+  secret: string;
+  /** otpauth:// provisioning URI */
+  otpauthUri: string;
+  /** QR code image of the URI (data: URL) */
+  qrCodeDataUrl: string;
 }
 
 /**
@@ -0,0 +1,82 @@
+/**
+ * Audit Log Type Definitions
+ *
+ * Records of who changed what in the catalog and when.
+ */
+
+/**
+ * Audited action
+ */
+export type AuditAction =
+  | 'product.create'
+  | 'product.update'
+  | 'product.delete'
+  | 'product.restore'
+  | 'product.purge'
+  | 'variant.create'
+  | 'variant.update'
+  | 'variant.delete'
+  | 'image.upload'
+  | 'image.sweep';
+
+/**
+ * Who performed an action
+ */
+export interface AuditActor {
+  id: string;
+  username: string;
+}
+
+/**
+ * Single field change between before and after snapshots
+ */
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Audit log entry
+ */
+export interface AuditEntry {
+  id: number;
+
+  /** User ID of the actor (null for system actions) */
+  actor_id: string | null;
+
+  /** Username at the time of the action */
+  actor_name: string;
+
+  action: AuditAction;
+
+  /** Affected product (null for uploads not yet linked to a product) */
+  product_id: string | null;
+
+  /** State before the action (null for creates and uploads) */
+  before: Record<string, unknown> | null;
+
+  /** State after the action (null for deletes) */
+  after: Record<string, unknown> | null;
+
+  /** Field-level differences between before and after */
+  changes: AuditFieldChange[];
+
+  /** ISO timestamp of the action */
+  created_at: string;
+}
+
+/**
+ * Filters for querying the audit log
+ */
+export interface AuditFilters {
+  productId?: string;
+  actor?: string;
+  action?: AuditAction;
+  /** Inclusive lower bound (ISO date or datetime) */
+  from?: string;
+  /** Inclusive upper bound (ISO date or datetime) */
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
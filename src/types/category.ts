@@ -0,0 +1,96 @@
+/**
+ * Category Type Definitions
+ *
+ * Nested product categories (e.g. Sheet Cutting > Laser Cutting).
+ * A product can belong to several categories.
+ */
+
+/**
+ * Product category
+ */
+export interface Category {
+  /** Unique category identifier (e.g., 'cat_3f9a0c1b2d4e5f60') */
+  id: string;
+
+  name: string;
+
+  /** URL-safe name used in /category/[slug] */
+  slug: string;
+
+  description: string | null;
+
+  /** Parent category (null for top-level categories) */
+  parent_id: string | null;
+
+  /** Products (not in the trash) directly in this category */
+  product_count: number;
+
+  /** ISO timestamp when category was created */
+  created_at: string;
+
+  /** ISO timestamp when category was last updated */
+  updated_at: string;
+}
+
+/**
+ * Category with its subcategories
+ */
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+/**
+ * Category creation input (slug is generated from the name if omitted)
+ */
+export interface CategoryInput {
+  name: string;
+  slug?: string;
+  description?: string | null;
+  parent_id?: string | null;
+}
+
+/**
+ * Category update input (all fields optional)
+ */
+export interface CategoryUpdate {
+  name?: string;
+  slug?: string;
+  description?: string | null;
+  parent_id?: string | null;
+}
+
+/**
+ * Arrange a flat category list into a tree
+ * Children keep the order of the input list.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    categories.map(category => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Flatten a category tree, depth first, with each category's depth
+ * Used to render nested categories as an indented list.
+ */
+export function flattenCategoryTree(
+  nodes: CategoryNode[],
+  depth: number = 0
+): { category: CategoryNode; depth: number }[] {
+  return nodes.flatMap(node => [
+    { category: node, depth },
+    ...flattenCategoryTree(node.children, depth + 1),
+  ]);
+}
@@ -0,0 +1,164 @@
+/**
+ * Image Type Definitions
+ *
+ * Every uploaded image is stored as several renditions:
+ * each size in each format.
+ */
+
+/**
+ * Rendition sizes (widths come from IMAGE_CONFIG)
+ * - thumbnail: THUMBNAIL_WIDTH, for lists and pickers
+ * - medium: MEDIUM_WIDTH, for product cards
+ * - large: within MAX_WIDTH x MAX_HEIGHT, the full image
+ */
+export type ImageSize = 'thumbnail' | 'medium' | 'large';
+
+/**
+ * Encoded formats, most compact first (JPEG is the fallback every browser shows)
+ */
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+/**
+ * URLs of every rendition, by size then format
+ */
+export type ImageRenditions = Record<ImageSize, Record<ImageFormat, string>>;
+
+/**
+ * Formats uploads are accepted in
+ */
+export type SourceImageFormat = 'jpeg' | 'png' | 'webp';
+
+/**
+ * What an upload's header says it is (see readImageHeader)
+ */
+export interface ImageHeader {
+  format: SourceImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * Why an upload was refused, by the part of the upload at fault
+ * - file_*: the upload itself (missing, empty or over MAX_FILE_SIZE)
+ * - type_*: the declared content type (not allowed, or not what the bytes are)
+ * - format_*: the bytes (not JPEG/PNG/WebP, cut short, or undecodable)
+ * - dimensions_*: the image size (a side or the pixel count over the limits)
+ * - duplicate: looks like a stored upload (see DuplicateImage)
+ */
+export type ImageErrorCode =
+  | 'file_missing'
+  | 'file_empty'
+  | 'file_too_large'
+  | 'type_not_allowed'
+  | 'type_mismatch'
+  | 'format_unknown'
+  | 'format_truncated'
+  | 'format_corrupt'
+  | 'dimensions_too_large'
+  | 'dimensions_too_many_pixels'
+  | 'duplicate';
+
+/**
+ * Changes made to a photo in the browser before it is uploaded
+ * (see lib/imageEditing.ts)
+ */
+export interface ImageEdit {
+  /** Crop shape as width / height (null keeps the photo's own shape) */
+  aspect: number | null;
+
+  /** Clockwise rotation in degrees */
+  rotation: 0 | 90 | 180 | 270;
+
+  /** 1 crops as much as the shape allows; higher values crop tighter */
+  zoom: number;
+
+  /** Middle of the crop as a fraction of the rotated photo's width and height */
+  centerX: number;
+  centerY: number;
+
+  /** Percent, 100 leaves the photo unchanged */
+  brightness: number;
+  contrast: number;
+}
+
+/**
+ * Result of processing and storing an upload
+ */
+export interface ProcessedImage {
+  /** URL saved as the product's image_path (large JPEG) */
+  imagePath: string;
+
+  renditions: ImageRenditions;
+
+  /** Size of the large rendition in pixels, after auto-rotation */
+  width: number;
+  height: number;
+
+  /** Tiny blurred preview as a data URI (shown while the image loads) */
+  placeholder: string;
+}
+
+/**
+ * Stored upload that looks like a new one (see findDuplicateUploads)
+ */
+export interface DuplicateImage {
+  /** URL of the stored image, ready to reuse on a product */
+  image_path: string;
+
+  /** Bits the two hashes differ by (0 means they look identical) */
+  distance: number;
+
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;
+
+  /** Products (not in the trash) that show the image */
+  products: { id: string; name: string }[];
+}
+
+/**
+ * Why an uploaded image is no longer needed
+ * - abandoned: uploaded but never saved on a product
+ * - replaced: saved on a product that has since stopped using it
+ */
+export type OrphanReason = 'abandoned' | 'replaced';
+
+/**
+ * Uploaded image no product uses (see the uploads ledger)
+ */
+export interface OrphanedUpload {
+  /** URL of the image (large JPEG for processed uploads) */
+  image_path: string;
+
+  reason: OrphanReason;
+
+  /** Product that last used the image (null if never saved) */
+  product_id: string | null;
+
+  /** ID of the user who uploaded it (null for images recorded by the migration) */
+  uploaded_by: string | null;
+
+  created_at: string;
+
+  /** When the product stopped using it (null if never saved) */
+  released_at: string | null;
+}
+
+/**
+ * Result of an upload sweep
+ */
+export interface UploadSweepReport {
+  /** True if nothing was deleted (report only) */
+  dryRun: boolean;
+
+  /** Only images unused for at least this long were included */
+  graceHours: number;
+
+  orphaned: OrphanedUpload[];
+
+  /** Images deleted (empty on a dry run) */
+  deleted: string[];
+
+  /** Images that could not be deleted (kept in the ledger for the next run) */
+  failed: string[];
+}
@@ -0,0 +1,40 @@
+/**
+ * Migration Type Definitions
+ *
+ * Versioned schema changes applied in order and tracked
+ * in the schema_migrations table.
+ */
+
+import type { Transaction } from '@libsql/client';
+
+/**
+ * Single schema migration
+ */
+export interface Migration {
+  /** Unique, increasing version number (matches the file prefix) */
+  version: number;
+
+  /** Short description (matches the file name) */
+  name: string;
+
+  /** Apply the change */
+  up: (tx: Transaction) => Promise<void>;
+
+  /** Revert the change (omitted when it can't be undone safely) */
+  down?: (tx: Transaction) => Promise<void>;
+}
+
+/**
+ * Migration with its applied state
+ */
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+
+  /** ISO timestamp when applied (null if pending) */
+  applied_at: string | null;
+
+  /** Whether the migration can be rolled back */
+  reversible: boolean;
+}
@@ -5,6 +5,11 @@
  * and make it easy to add new fields in the future.
  */
 
+/**
+ * Unit a minimum order is counted in (see PRODUCT_CONFIG.ORDER_UNITS)
+ */
+export type OrderUnit = 'pcs' | 'kg' | 'sheets' | 'metres' | 'sq ft';
+
 /**
  * Main Product interface
  * Represents a product in the system
@@ -16,20 +21,170 @@ export interface Product {
   /** Product name */
   name: string;
 
-  /** Product price (in your currency) */
+  /** Product price (in your currency), excluding GST */
   price: number;
 
-  /** Minimum order quantity (flexible text input) */
-  min_order_qty: string;
+  /** HSN code for goods or SAC code for services (null if not set) */
+  hsn_code: string | null;
+
+  /** GST rate in percent (see TAX_CONFIG.GST_RATES) */
+  gst_rate: number;
+
+  /** Minimum order quantity, counted in min_order_unit */
+  min_order_qty: number;
+
+  min_order_unit: OrderUnit;
+
+  /**
+   * Original free-text minimum order that could not be converted
+   * automatically (null once checked and saved)
+   */
+  min_order_review: string | null;
 
-  /** Path to product image (relative to /public) */
+  /** URL of the cover image (null if the product has no images) */
   image_path: string | null;
 
+  /** Gallery images in display order, cover included (empty if none) */
+  images: ProductImage[];
+
   /** ISO timestamp when product was created */
   created_at: string;
 
   /** ISO timestamp when product was last updated */
   updated_at: string;
+
+  /** ISO timestamp when product was moved to the trash (null if active) */
+  deleted_at: string | null;
+
+  /** Categories the product belongs to */
+  category_ids: string[];
+
+  /** Size / thickness / material options, cheapest first (empty if none) */
+  variants: ProductVariant[];
+
+  /** Quantity price breaks, lowest quantity first (empty if none) */
+  price_tiers: PriceTier[];
+}
+
+/**
+ * Quantity price break
+ * Orders of min_qty to max_qty units cost price per unit.
+ */
+export interface PriceTier {
+  /** Smallest quantity in the tier (1 or more) */
+  min_qty: number;
+
+  /** Largest quantity in the tier (null for "and above") */
+  max_qty: number | null;
+
+  /** Price per unit in this tier */
+  price: number;
+}
+
+/**
+ * Product gallery image
+ */
+export interface ProductImage {
+  /** Image URL (large JPEG for processed uploads) */
+  image_path: string;
+
+  /** Description for screen readers (null to use the product name) */
+  alt_text: string | null;
+
+  /** Shown on product cards and lists; exactly one image per product is the cover */
+  is_cover: boolean;
+
+  /** Size of the large rendition in pixels (from the upload; null if unknown) */
+  width?: number | null;
+  height?: number | null;
+
+  /** Tiny blurred preview as a data URI (from the upload; null if unknown) */
+  placeholder?: string | null;
+}
+
+/**
+ * Whether storefront prices are shown with or without GST
+ */
+export type GstDisplay = 'inclusive' | 'exclusive';
+
+/**
+ * GST on an amount
+ * Within the seller's state tax is split equally into CGST and SGST;
+ * across states it is charged as IGST. All amounts are in rupees.
+ */
+export interface GstBreakdown {
+  /** Taxable value (the price excluding GST) */
+  taxable: number;
+
+  /** GST rate in percent */
+  rate: number;
+
+  cgst: number;
+  sgst: number;
+  igst: number;
+
+  /** Taxable value plus all tax */
+  total: number;
+}
+
+/**
+ * Product variant
+ * One size, thickness or material of a product with its own price
+ */
+export interface ProductVariant {
+  /** Unique variant identifier (e.g., 'var_3f9a0c1b2d4e5f60') */
+  id: string;
+
+  product_id: string;
+
+  /** Stock keeping unit, unique across the catalog */
+  sku: string;
+
+  size: string | null;
+  thickness: string | null;
+  material: string | null;
+
+  /** Variant price (replaces the product price) */
+  price: number;
+
+  /** Minimum order quantity for this variant (in the product's unit) */
+  min_order_qty: number;
+
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Variant creation input
+ */
+export interface ProductVariantInput {
+  sku: string;
+  size?: string | null;
+  thickness?: string | null;
+  material?: string | null;
+  price: number;
+  min_order_qty: number;
+}
+
+/**
+ * Variant update input (all fields optional)
+ */
+export type ProductVariantUpdate = Partial<ProductVariantInput>;
+
+/**
+ * Describe a variant by its attributes (e.g. "2 mm · 1200 x 2400 · Mild steel")
+ * Falls back to the SKU when no attributes are set.
+ */
+export function formatVariantLabel(variant: ProductVariant): string {
+  const parts = [variant.thickness, variant.size, variant.material].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : variant.sku;
+}
+
+/**
+ * Find the cover among gallery images (the first, if none is marked)
+ */
+export function getCoverImage(images: ProductImage[]): ProductImage | undefined {
+  return images.find(image => image.is_cover) ?? images[0];
 }
 
 /**
@@ -39,8 +194,15 @@ export interface Product {
 export interface ProductInput {
   name: string;
   price: number;
-  min_order_qty: string;
+  min_order_qty: number;
+  min_order_unit: OrderUnit;
+  hsn_code?: string | null;
+  gst_rate?: number;
   image_path?: string | null;
+  /** Gallery images in display order (image_path is taken from the cover) */
+  images?: ProductImage[];
+  category_ids?: string[];
+  price_tiers?: PriceTier[];
 }
 
 /**
@@ -50,22 +212,101 @@ export interface ProductInput {
 export interface ProductUpdate {
   name?: string;
   price?: number;
-  min_order_qty?: string;
+  min_order_qty?: number;
+  min_order_unit?: OrderUnit;
+  hsn_code?: string | null;
+  gst_rate?: number;
+  /** Replaces the cover image, keeping the rest of the gallery */
   image_path?: string | null;
+  /** Replaces the gallery (image_path is taken from the cover) */
+  images?: ProductImage[];
+  /** Replaces the product's categories */
+  category_ids?: string[];
+  /** Replaces the product's price tiers */
+  price_tiers?: PriceTier[];
+}
+
+/**
+ * Fields the product list can be sorted by
+ */
+export type ProductSortField = 'price' | 'name' | 'created_at' | 'updated_at';
+
+/**
+ * Sort direction
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Product list query: sorting, filters and pagination
+ * Page with either offset or a cursor returned by a previous page.
+ */
+export interface ProductQuery {
+  sort?: ProductSortField;
+  order?: SortOrder;
+
+  /** Inclusive price range */
+  minPrice?: number;
+  maxPrice?: number;
+
+  /** Only products with (true) or without (false) an image */
+  hasImage?: boolean;
+
+  /** Only products in this category (slug) or its subcategories */
+  category?: string;
+
+  /** Inclusive date windows (ISO date or datetime) */
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+
+  limit?: number;
+  offset?: number;
+
+  /** nextCursor or prevCursor from a previous page (overrides offset) */
+  cursor?: string;
+}
+
+/**
+ * Product matched by a search
+ */
+export interface ProductSearchResult {
+  product: Product;
+
+  /** HTML-escaped product name with matched terms wrapped in <mark> */
+  highlight: string;
 }
 
-// Future expansion: Add product variants, inventory, etc.
-// export interface ProductVariant {
-//   id: string;
-//   product_id: string;
-//   sku: string;
-//   size?: string;
-//   color?: string;
-//   stock_quantity: number;
-// }
-
-// export interface ProductCategory {
-//   id: string;
-//   name: string;
-//   description?: string;
-// }
+/**
+ * Catalog totals for the admin dashboard
+ */
+export interface ProductStats {
+  /** Products not in the trash */
+  total: number;
+  /** Average price excluding GST */
+  averagePrice: number;
+  /** Average price including each product's GST */
+  averagePriceInclGst: number;
+  withImages: number;
+}
+
+/**
+ * Saved product version
+ * Snapshot of a product taken just before an update replaced it
+ */
+export interface ProductRevision {
+  /** Per-product revision number (1 is the oldest) */
+  revision: number;
+
+  product_id: string;
+
+  /** Product as it was before the update */
+  snapshot: Product;
+
+  /** User whose update replaced this version */
+  actor_id: string | null;
+  actor_name: string;
+
+  /** ISO timestamp the snapshot was taken */
+  created_at: string;
+}
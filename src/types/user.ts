@@ -0,0 +1,62 @@
+/**
+ * User Type Definitions
+ *
+ * Admin accounts and the roles that control what they can change.
+ */
+
+import { USER_CONFIG } from '@/lib/constants';
+
+/**
+ * Admin role
+ * - viewer: read-only access to the admin panel
+ * - editor: can create and edit products and upload images
+ * - owner: full access, including deletes and user management
+ */
+export type UserRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Admin user (never includes the password hash)
+ */
+export interface User {
+  /** Unique user identifier (e.g., 'usr_3f9a0c1b2d4e5f60') */
+  id: string;
+
+  /** Login name */
+  username: string;
+
+  /** Access level */
+  role: UserRole;
+
+  /** Whether two-factor authentication is enabled */
+  totp_enabled: boolean;
+
+  /** ISO timestamp when user was created */
+  created_at: string;
+
+  /** ISO timestamp when user was last updated */
+  updated_at: string;
+}
+
+/**
+ * User creation input
+ */
+export interface UserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+/**
+ * User update input (all fields optional)
+ */
+export interface UserUpdate {
+  password?: string;
+  role?: UserRole;
+}
+
+/**
+ * Check whether a role grants at least the required access level
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_CONFIG.ROLES.indexOf(role) >= USER_CONFIG.ROLES.indexOf(required);
+}
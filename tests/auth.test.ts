@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { consumeLoginChallenge, createLoginChallenge, verifyLoginChallenge } from '@/lib/auth';
+import { createUser } from '@/lib/users';
+import { closeTestDatabase, openTestDatabase } from './helpers/database';
+
+const SECRET = 'test-session-secret-0123456789abcdef';
+
+describe('2FA login challenges', () => {
+  let userId: string;
+
+  before(async () => {
+    process.env.SESSION_SECRET = SECRET;
+    process.env.ADMIN_PASSWORD = 'bootstrap';
+    await openTestDatabase();
+    userId = (await createUser({ username: 'owner', password: 'owner-password', role: 'owner' })).id;
+  });
+
+  after(() => {
+    process.env.SESSION_SECRET = SECRET;
+    closeTestDatabase();
+  });
+
+  it('can be checked more than once but used only once', async () => {
+    const challenge = await createLoginChallenge(userId);
+
+    assert.equal(await verifyLoginChallenge(challenge), userId);
+    assert.equal(await verifyLoginChallenge(challenge), userId);
+    assert.equal(await consumeLoginChallenge(challenge), userId);
+
+    assert.equal(await verifyLoginChallenge(challenge), null);
+    assert.equal(await consumeLoginChallenge(challenge), null);
+  });
+
+  it('lets only one of two parallel logins use a challenge', async () => {
+    const challenge = await createLoginChallenge(userId);
+    const results = await Promise.all([consumeLoginChallenge(challenge), consumeLoginChallenge(challenge)]);
+
+    assert.deepEqual(results.filter(Boolean), [userId]);
+  });
+
+  it('rejects challenges that were never issued or were tampered with', async () => {
+    const challenge = await createLoginChallenge(userId);
+    const [id, signature] = challenge.split('.');
+
+    assert.equal(await verifyLoginChallenge(`${id}x.${signature}`), null);
+    assert.equal(await verifyLoginChallenge(`${id}.${signature.slice(1)}`), null);
+    assert.equal(await verifyLoginChallenge(`${userId}.${Date.now() + 60_000}.${signature}`), null);
+  });
+
+  it('refuses to sign without a dedicated session secret', async () => {
+    for (const secret of ['', 'too-short', 'change-me-to-a-long-random-string-0123']) {
+      process.env.SESSION_SECRET = secret;
+      await assert.rejects(createLoginChallenge(userId), /SESSION_SECRET/);
+    }
+
+    process.env.SESSION_SECRET = process.env.ADMIN_PASSWORD = 'an-admin-password-reused-as-the-secret';
+    await assert.rejects(createLoginChallenge(userId), /SESSION_SECRET/);
+
+    process.env.SESSION_SECRET = SECRET;
+  });
+});
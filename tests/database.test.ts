@@ -0,0 +1,35 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDatabaseUrl, isLocalDatabaseUrl } from '@/lib/db';
+import { getPendingMigrations } from '@/lib/migrations';
+import { closeTestDatabase, openTestDatabase, tempDatabaseUrl } from './helpers/database';
+
+describe('local databases', () => {
+  after(closeTestDatabase);
+
+  it('treats file: and :memory: URLs as local', () => {
+    assert.equal(isLocalDatabaseUrl(':memory:'), true);
+    assert.equal(isLocalDatabaseUrl('file:./database/ssrs.db'), true);
+    assert.equal(isLocalDatabaseUrl('libsql://ssrs.turso.io'), false);
+  });
+
+  it('migrates an in-memory database', async () => {
+    const database = await openTestDatabase();
+
+    assert.equal(getDatabaseUrl(), ':memory:');
+    assert.deepEqual(await getPendingMigrations(database), []);
+  });
+
+  it('migrates a database file', async () => {
+    const { url, cleanup } = tempDatabaseUrl();
+
+    try {
+      const database = await openTestDatabase(url);
+      const tables = await database.execute("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'products'");
+      assert.equal(tables.rows.length, 1);
+    } finally {
+      closeTestDatabase();
+      cleanup();
+    }
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Test Database Helpers
+ *
+ * Points getDb() at a throwaway local database with every migration
+ * applied. Each test file runs in its own process, so the shared
+ * connection never leaks between files.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Client } from '@libsql/client';
+import { getDb, resetDbConnection } from '@/lib/db';
+import { migrateUp } from '@/lib/migrations';
+
+/**
+ * Open a migrated database and make it the app's connection
+ * @param url - :memory: (default) or a file: URL
+ */
+export async function openTestDatabase(url: string = ':memory:'): Promise<Client> {
+  resetDbConnection();
+  process.env.TURSO_DATABASE_URL = url;
+
+  const database = getDb();
+  await migrateUp(database);
+  return database;
+}
+
+/**
+ * Close the app's connection
+ */
+export function closeTestDatabase(): void {
+  resetDbConnection();
+}
+
+/**
+ * Create a file: URL in a fresh temporary folder
+ * @returns The URL and a function that deletes the folder
+ */
+export function tempDatabaseUrl(): { url: string; cleanup: () => void } {
+  const folder = mkdtempSync(path.join(tmpdir(), 'ssrs-test-'));
+
+  return {
+    url: `file:${path.join(folder, 'test.db')}`,
+    cleanup: () => rmSync(folder, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,69 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from '@libsql/client';
+import { migrateDown, migrateUp } from '@/lib/migrations';
+import { migrations } from '../database/migrations';
+import { closeTestDatabase, openTestDatabase } from './helpers/database';
+
+// Migrations to roll back to reach the state before 0021
+const SINCE_0021 = migrations.length - migrations.findIndex(migration => migration.version === 21);
+
+describe('numeric minimum orders (migration 0021)', () => {
+  let database: Client;
+
+  before(async () => {
+    database = await openTestDatabase();
+
+    // Back to text columns, holding what 0015 stored in them
+    await migrateDown(database, SINCE_0021);
+    await database.batch([
+      `INSERT INTO products (id, name, price, min_order_qty, min_order_unit, updated_at)
+       VALUES ('prod_001', 'Steel sheet', 100, '2.5', 'sheet', '2024-01-01 00:00:00')`,
+      `INSERT INTO product_variants (id, product_id, sku, price, min_order_qty)
+       VALUES ('var_001', 'prod_001', 'SHEET-2MM', 120, '5.0')`,
+    ]);
+  });
+
+  after(closeTestDatabase);
+
+  const columnType = async (table: string) => {
+    const columns = await database.execute(`PRAGMA table_info(${table})`);
+    return columns.rows.find(row => row.name === 'min_order_qty')?.type;
+  };
+
+  it('stores minimum orders as numbers', async () => {
+    await migrateUp(database);
+
+    assert.equal(await columnType('products'), 'REAL');
+    assert.equal(await columnType('product_variants'), 'REAL');
+
+    const product = await database.execute(
+      'SELECT min_order_qty, typeof(min_order_qty) AS type, updated_at FROM products'
+    );
+    assert.equal(product.rows[0].min_order_qty, 2.5);
+    assert.equal(product.rows[0].type, 'real');
+    assert.equal(product.rows[0].updated_at, '2024-01-01 00:00:00');
+
+    const variant = await database.execute('SELECT min_order_qty, typeof(min_order_qty) AS type FROM product_variants');
+    assert.equal(variant.rows[0].min_order_qty, 5);
+    assert.equal(variant.rows[0].type, 'real');
+  });
+
+  it('still refreshes updated_at on edits', async () => {
+    await database.execute("UPDATE products SET name = 'Steel sheet 2mm'");
+
+    const product = await database.execute('SELECT updated_at FROM products');
+    assert.notEqual(product.rows[0].updated_at, '2024-01-01 00:00:00');
+  });
+
+  it('rolls back to text columns', async () => {
+    await migrateDown(database, SINCE_0021);
+
+    assert.equal(await columnType('products'), 'TEXT');
+
+    const product = await database.execute('SELECT min_order_qty FROM products');
+    const variant = await database.execute('SELECT min_order_qty FROM product_variants');
+    assert.equal(product.rows[0].min_order_qty, '2.5');
+    assert.equal(variant.rows[0].min_order_qty, '5');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findPriceTier, formatTierRange, priceForQuantity } from '@/lib/pricing';
+import { ValidationError, validatePriceTiers } from '@/lib/validation';
+import type { PriceTier } from '@/types/product';
+
+// 1–99 @ ₹50, 100–499 @ ₹45, 500+ @ ₹40 (the product's own price is ₹55)
+const TIERS: PriceTier[] = [
+  { min_qty: 1, max_qty: 99, price: 50 },
+  { min_qty: 100, max_qty: 499, price: 45 },
+  { min_qty: 500, max_qty: null, price: 40 },
+];
+
+const product = { price: 55, price_tiers: TIERS };
+
+describe('priceForQuantity', () => {
+  it('prices the tier boundaries', () => {
+    assert.equal(priceForQuantity(product, 1), 50);
+    assert.equal(priceForQuantity(product, 99), 50);
+    assert.equal(priceForQuantity(product, 100), 45);
+    assert.equal(priceForQuantity(product, 499), 45);
+    assert.equal(priceForQuantity(product, 500), 40);
+  });
+
+  it('keeps fractional quantities in the tier below the next whole bound', () => {
+    assert.equal(priceForQuantity(product, 0.5), 55);
+    assert.equal(priceForQuantity(product, 99.5), 50);
+    assert.equal(priceForQuantity(product, 99.999), 50);
+    assert.equal(priceForQuantity(product, 499.5), 45);
+    assert.equal(priceForQuantity(product, 500.25), 40);
+  });
+
+  it('uses the open-ended last tier for any larger quantity', () => {
+    assert.equal(priceForQuantity(product, 10_000), 40);
+    assert.equal(priceForQuantity(product, 1e9), 40);
+  });
+
+  it("falls back to the product's price below the first tier", () => {
+    const fromTen = { price: 55, price_tiers: [{ min_qty: 10, max_qty: null, price: 48 }] };
+
+    assert.equal(priceForQuantity(fromTen, 1), 55);
+    assert.equal(priceForQuantity(fromTen, 9.9), 55);
+    assert.equal(priceForQuantity(fromTen, 10), 48);
+  });
+
+  it("falls back to the product's price without tiers", () => {
+    assert.equal(priceForQuantity({ price: 55 }, 250), 55);
+    assert.equal(priceForQuantity({ price: 55, price_tiers: [] }, 250), 55);
+  });
+
+  it('rejects quantities that are not positive numbers', () => {
+    for (const quantity of [0, -1, NaN, Infinity, '5' as unknown as number]) {
+      assert.throws(() => priceForQuantity(product, quantity), RangeError);
+    }
+  });
+
+  it('finds the same tier whatever order tiers are stored in', () => {
+    assert.equal(findPriceTier([...TIERS].reverse(), 250), TIERS[1]);
+  });
+});
+
+describe('formatTierRange', () => {
+  it('describes bounded, single and open-ended tiers', () => {
+    assert.equal(formatTierRange(TIERS[0]), '1–99');
+    assert.equal(formatTierRange({ min_qty: 5, max_qty: 5, price: 10 }), '5');
+    assert.equal(formatTierRange(TIERS[2]), '500+');
+  });
+});
+
+describe('validatePriceTiers', () => {
+  it('accepts contiguous tiers in any order', () => {
+    assert.doesNotThrow(() => validatePriceTiers(TIERS));
+    assert.doesNotThrow(() => validatePriceTiers([...TIERS].reverse()));
+    assert.doesNotThrow(() => validatePriceTiers([]));
+  });
+
+  it('accepts a first tier starting above 1', () => {
+    assert.doesNotThrow(() => validatePriceTiers([{ min_qty: 10, max_qty: null, price: 48 }]));
+  });
+
+  it('rejects overlapping tiers', () => {
+    assert.throws(
+      () => validatePriceTiers([
+        { min_qty: 1, max_qty: 100, price: 50 },
+        { min_qty: 100, max_qty: null, price: 45 },
+      ]),
+      { name: 'ValidationError', message: /overlap/ }
+    );
+  });
+
+  it('rejects a tier after an open-ended one', () => {
+    assert.throws(
+      () => validatePriceTiers([
+        { min_qty: 1, max_qty: null, price: 50 },
+        { min_qty: 500, max_qty: null, price: 40 },
+      ]),
+      { name: 'ValidationError', message: /overlap/ }
+    );
+  });
+
+  it('rejects gaps between tiers', () => {
+    assert.throws(
+      () => validatePriceTiers([
+        { min_qty: 1, max_qty: 99, price: 50 },
+        { min_qty: 101, max_qty: null, price: 45 },
+      ]),
+      { name: 'ValidationError', message: /gap: .* starting at 100/ }
+    );
+  });
+
+  it('rejects fractional, missing or inverted bounds', () => {
+    for (const tier of [
+      { min_qty: 0, max_qty: 10, price: 50 },
+      { min_qty: 1.5, max_qty: 10, price: 50 },
+      { min_qty: 1, max_qty: 9.5, price: 50 },
+      { min_qty: 10, max_qty: 5, price: 50 },
+    ]) {
+      assert.throws(() => validatePriceTiers([tier]), ValidationError);
+    }
+  });
+
+  it('rejects a non-array', () => {
+    assert.throws(() => validatePriceTiers({ min_qty: 1 }), ValidationError);
+  });
+});
@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from '@libsql/client';
+import { createProduct, formatProductId, getProducts } from '@/lib/db';
+import type { Product } from '@/types/product';
+import { closeTestDatabase, openTestDatabase, tempDatabaseUrl } from './helpers/database';
+
+const PARALLEL_CREATES = 20;
+
+// Start just below prod_999 so the batch crosses into four digits
+const START_SEQUENCE = 990;
+
+const idNumber = (id: string) => Number(id.replace(/^\D+/, ''));
+
+describe('product IDs under concurrent creates', () => {
+  const { url, cleanup } = tempDatabaseUrl();
+  let database: Client;
+  let created: Product[];
+
+  before(async () => {
+    database = await openTestDatabase(url);
+    await database.execute({
+      sql: "UPDATE id_sequences SET value = ? WHERE name = 'products'",
+      args: [START_SEQUENCE],
+    });
+
+    created = await Promise.all(
+      Array.from({ length: PARALLEL_CREATES }, (_, i) =>
+        createProduct({ name: `Sheet ${i}`, price: 100 + i, min_order_qty: 1, min_order_unit: 'pcs' })
+      )
+    );
+  });
+
+  after(() => {
+    closeTestDatabase();
+    cleanup();
+  });
+
+  it('gives every product a different ID', () => {
+    const ids = created.map(product => product.id);
+    assert.equal(new Set(ids).size, PARALLEL_CREATES);
+  });
+
+  it('uses consecutive sequence numbers past prod_999', () => {
+    const numbers = created.map(product => idNumber(product.id)).sort((a, b) => a - b);
+    const expected = Array.from({ length: PARALLEL_CREATES }, (_, i) => START_SEQUENCE + 1 + i);
+
+    assert.deepEqual(numbers, expected);
+    assert.ok(created.some(product => product.id === 'prod_999'));
+    assert.ok(created.some(product => product.id === 'prod_1000'));
+    assert.equal(formatProductId(7), 'prod_007');
+  });
+
+  it('lists IDs in numeric order when creation times tie', async () => {
+    await database.execute("UPDATE products SET created_at = '2026-01-01 00:00:00'");
+
+    const { products } = await getProducts({ sort: 'created_at', order: 'desc', limit: 100 });
+    const numbers = products.map(product => idNumber(product.id));
+
+    assert.deepEqual(numbers, [...numbers].sort((a, b) => b - a));
+  });
+
+  it('pages through tied IDs by cursor without skipping or repeating', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await getProducts({ sort: 'created_at', order: 'asc', limit: 6, cursor });
+      seen.push(...page.products.map(product => product.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    const numbers = seen.map(idNumber);
+    assert.equal(new Set(seen).size, PARALLEL_CREATES);
+    assert.deepEqual(numbers, [...numbers].sort((a, b) => a - b));
+  });
+});
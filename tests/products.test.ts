@@ -0,0 +1,61 @@
+// Sets up AsyncLocalStorage as the Next server does, before Next's request stores load
+import 'next/dist/server/node-environment';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from '@libsql/client';
+import { NextRequest } from 'next/server';
+import { staticGenerationAsyncStorage } from 'next/dist/client/components/static-generation-async-storage.external';
+import { PATCH } from '@/app/api/products/[id]/route';
+import { createSession } from '@/lib/auth';
+import { AUTH_CONFIG } from '@/lib/constants';
+import { createUser } from '@/lib/users';
+import { closeTestDatabase, openTestDatabase } from './helpers/database';
+
+describe('product edits', () => {
+  let database: Client;
+  let token: string;
+
+  before(async () => {
+    process.env.SESSION_SECRET = 'test-session-secret-0123456789abcdef';
+    database = await openTestDatabase();
+    await database.execute(
+      "INSERT INTO products (id, name, price, min_order_qty) VALUES ('prod_001', 'Steel sheet', 100, 1)"
+    );
+
+    const user = await createUser({ username: 'editor', password: 'editor-password', role: 'editor' });
+    ({ token } = await createSession(user));
+  });
+
+  after(closeTestDatabase);
+
+  // Route handlers run inside the request store Next sets up, which revalidatePath records into
+  const patch = (body: unknown) => {
+    const request = new NextRequest('http://localhost/api/products/prod_001', {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    request.cookies.set(AUTH_CONFIG.SESSION_COOKIE_NAME, token);
+    const store = { urlPathname: '/api/products/prod_001', incrementalCache: {} };
+    return staticGenerationAsyncStorage.run(
+      store as unknown as Parameters<typeof staticGenerationAsyncStorage.run>[0],
+      () => PATCH(request, { params: Promise.resolve({ id: 'prod_001' }) })
+    );
+  };
+
+  it('stores a numeric-string minimum order as a number, as creating does', async () => {
+    const response = await patch({ min_order_qty: '12' });
+    assert.equal(response.status, 200);
+
+    const product = await database.execute(
+      "SELECT min_order_qty, typeof(min_order_qty) AS type FROM products WHERE id = 'prod_001'"
+    );
+    assert.equal(product.rows[0].min_order_qty, 12);
+    assert.equal(product.rows[0].type, 'real');
+  });
+
+  it('rejects a minimum order that is not a number', async () => {
+    const response = await patch({ min_order_qty: 'twelve' });
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,33 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+
+type GetClientIp = typeof import('@/lib/rateLimit').getClientIp;
+
+function requestFrom(forwardedFor?: string): NextRequest {
+  const headers = new Headers();
+  if (forwardedFor) headers.set('x-forwarded-for', forwardedFor);
+  return new NextRequest('http://localhost/api/auth', { method: 'POST', headers });
+}
+
+describe('client IP behind one trusted proxy', () => {
+  let getClientIp: GetClientIp;
+
+  before(async () => {
+    // AUTH_CONFIG reads the setting when constants are first loaded
+    process.env.TRUSTED_PROXY_HOPS = '1';
+    ({ getClientIp } = await import('@/lib/rateLimit'));
+  });
+
+  it('uses the address the proxy saw', () => {
+    assert.equal(getClientIp(requestFrom('203.0.113.7')), '203.0.113.7');
+  });
+
+  it('ignores addresses the client put in front', () => {
+    assert.equal(getClientIp(requestFrom('198.51.100.1, 198.51.100.2, 203.0.113.7')), '203.0.113.7');
+  });
+
+  it('falls back when the proxy added nothing', () => {
+    assert.equal(getClientIp(requestFrom()), 'unknown');
+  });
+});
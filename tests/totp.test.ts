@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, generateTotp, verifyTotp, type TotpOptions } from '@/lib/totp';
+
+// RFC 6238 Appendix B: 8-digit codes, 30-second steps, ASCII seeds
+const SEEDS: Record<NonNullable<TotpOptions['algorithm']>, Buffer> = {
+  sha1: Buffer.from('12345678901234567890'),
+  sha256: Buffer.from('12345678901234567890123456789012'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+};
+
+// [Unix time in seconds, SHA1, SHA256, SHA512]
+const VECTORS: [number, string, string, string][] = [
+  [59, '94287082', '46119246', '90693936'],
+  [1111111109, '07081804', '68084774', '25091201'],
+  [1111111111, '14050471', '67062674', '99943326'],
+  [1234567890, '89005924', '91819424', '93441116'],
+  [2000000000, '69279037', '90698825', '38618901'],
+  [20000000000, '65353130', '77737706', '47863826'],
+];
+
+const ALGORITHMS = ['sha1', 'sha256', 'sha512'] as const;
+
+describe('TOTP (RFC 6238 test vectors)', () => {
+  for (const [seconds, ...codes] of VECTORS) {
+    ALGORITHMS.forEach((algorithm, i) => {
+      const options: TotpOptions = { algorithm, digits: 8 };
+
+      it(`generates ${codes[i]} with ${algorithm.toUpperCase()} at T=${seconds}`, () => {
+        assert.equal(generateTotp(SEEDS[algorithm], seconds * 1000, options), codes[i]);
+      });
+
+      it(`verifies ${codes[i]} with ${algorithm.toUpperCase()} at T=${seconds}`, () => {
+        const secret = base32Encode(SEEDS[algorithm]);
+        assert.equal(verifyTotp(secret, codes[i], 0, seconds * 1000, options), Math.floor(seconds / 30));
+      });
+    });
+  }
+});
+
+describe('TOTP verification', () => {
+  const secret = base32Encode(SEEDS.sha1);
+  const now = 1111111111 * 1000;
+
+  it('accepts codes one step either side of now by default', () => {
+    assert.notEqual(verifyTotp(secret, generateTotp(secret, now - 30000), 1, now), null);
+    assert.notEqual(verifyTotp(secret, generateTotp(secret, now + 30000), 1, now), null);
+  });
+
+  it('rejects codes outside the window', () => {
+    assert.equal(verifyTotp(secret, generateTotp(secret, now - 60000), 1, now), null);
+  });
+
+  it('rejects malformed codes', () => {
+    assert.equal(verifyTotp(secret, '12345', 1, now), null);
+    assert.equal(verifyTotp(secret, 'abcdef', 1, now), null);
+  });
+
+  it('ignores spaces in codes', () => {
+    const code = generateTotp(secret, now);
+    assert.notEqual(verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`, 0, now), null);
+  });
+
+  it('round-trips base32 secrets', () => {
+    assert.deepEqual(base32Decode(secret), SEEDS.sha1);
+    assert.equal(secret, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+});
@@ -0,0 +1,115 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from '@libsql/client';
+import { deleteUnusedImages, findOrphanedUploads, sweepOrphanedUploads } from '@/lib/uploads';
+import { closeTestDatabase, openTestDatabase } from './helpers/database';
+
+// External URLs belong to no storage backend, so deleting them touches no files
+const IMAGE = {
+  current: 'https://images.example.com/current.jpg',
+  cover: 'https://images.example.com/old-cover.jpg',
+  gallery: 'https://images.example.com/old-gallery.jpg',
+  abandoned: 'https://images.example.com/abandoned.jpg',
+};
+
+describe('upload sweeper', () => {
+  let database: Client;
+
+  before(async () => {
+    database = await openTestDatabase();
+
+    // An older revision showed a different cover and gallery image
+    const snapshot = {
+      id: 'prod_001',
+      image_path: IMAGE.cover,
+      images: [
+        { image_path: IMAGE.cover, alt_text: null, is_cover: true },
+        { image_path: IMAGE.gallery, alt_text: null, is_cover: false },
+      ],
+    };
+
+    await database.batch([
+      `INSERT INTO products (id, name, price, min_order_qty, image_path)
+       VALUES ('prod_001', 'Steel sheet', 100, 1, '${IMAGE.current}')`,
+      `INSERT INTO product_images (product_id, image_path, position, is_cover)
+       VALUES ('prod_001', '${IMAGE.current}', 0, 1)`,
+      {
+        sql: `INSERT INTO product_revisions (product_id, revision, snapshot_json, actor_name)
+              VALUES ('prod_001', 1, ?, 'system')`,
+        args: [JSON.stringify(snapshot)],
+      },
+      ...Object.values(IMAGE).map(imagePath => ({
+        sql: `INSERT INTO uploads (image_path, created_at, released_at, width, height, placeholder, hash)
+              VALUES (?, '2024-01-01 00:00:00', '2024-01-02 00:00:00', 1600, 1200, 'data:image/webp;base64,AA', 'ffff0000ffff0000')`,
+        args: [imagePath],
+      })),
+    ]);
+  });
+
+  after(closeTestDatabase);
+
+  it('counts images in retained revisions as in use', async () => {
+    const orphaned = await findOrphanedUploads(0);
+
+    assert.deepEqual(orphaned.map(upload => upload.image_path), [IMAGE.abandoned]);
+  });
+
+  it('sweeps only images nothing uses', async () => {
+    const report = await sweepOrphanedUploads({ graceHours: 0 });
+
+    assert.deepEqual(report.deleted, [IMAGE.abandoned]);
+    assert.deepEqual(report.failed, []);
+
+    const remaining = await database.execute('SELECT image_path FROM uploads ORDER BY image_path');
+    assert.deepEqual(
+      remaining.rows.map(row => row.image_path),
+      [IMAGE.current, IMAGE.cover, IMAGE.gallery].sort()
+    );
+  });
+
+  it('keeps purged images that a retained revision still shows', async () => {
+    await deleteUnusedImages([IMAGE.gallery]);
+
+    const kept = await database.execute({
+      sql: 'SELECT width, height, placeholder, hash FROM uploads WHERE image_path = ?',
+      args: [IMAGE.gallery],
+    });
+    assert.equal(kept.rows.length, 1);
+    assert.equal(kept.rows[0].width, 1600);
+    assert.equal(kept.rows[0].hash, 'ffff0000ffff0000');
+  });
+
+  it('frees revision-only images once the revisions are gone', async () => {
+    await database.execute("DELETE FROM product_revisions WHERE product_id = 'prod_001'");
+
+    const orphaned = await findOrphanedUploads(0);
+    assert.deepEqual(orphaned.map(upload => upload.image_path).sort(), [IMAGE.cover, IMAGE.gallery].sort());
+
+    await deleteUnusedImages([IMAGE.gallery]);
+    const remaining = await database.execute({ sql: 'SELECT 1 FROM uploads WHERE image_path = ?', args: [IMAGE.gallery] });
+    assert.equal(remaining.rows.length, 0);
+  });
+
+  it('sweeps images only expired revisions show, pruning those revisions', async () => {
+    const expired = 'https://images.example.com/expired.jpg';
+
+    await database.batch([
+      {
+        sql: `INSERT INTO product_revisions (product_id, revision, snapshot_json, actor_name, created_at)
+              VALUES ('prod_001', 2, ?, 'system', '2020-01-01 00:00:00')`,
+        args: [JSON.stringify({ id: 'prod_001', image_path: expired, images: [{ image_path: expired }] })],
+      },
+      {
+        sql: `INSERT INTO uploads (image_path, created_at, released_at)
+              VALUES (?, '2020-01-01 00:00:00', '2020-01-01 00:00:00')`,
+        args: [expired],
+      },
+    ]);
+
+    const report = await sweepOrphanedUploads({ graceHours: 0 });
+    assert.ok(report.deleted.includes(expired));
+
+    const revisions = await database.execute("SELECT 1 FROM product_revisions WHERE created_at < '2021-01-01'");
+    assert.equal(revisions.rows.length, 0);
+  });
+});
@@ -0,0 +1,32 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { authenticateUser, countUsers, createFirstOwner } from '@/lib/users';
+import { closeTestDatabase, openTestDatabase, tempDatabaseUrl } from './helpers/database';
+
+describe('first owner', () => {
+  const { url, cleanup } = tempDatabaseUrl();
+
+  after(() => {
+    closeTestDatabase();
+    cleanup();
+  });
+
+  it('creates exactly one owner when first logins race', async () => {
+    await openTestDatabase(url);
+
+    const results = await Promise.all(
+      ['alice', 'bob', 'carol', 'dave', 'erin'].map(username => createFirstOwner(username, 'first-password'))
+    );
+    const created = results.filter(user => user !== null);
+
+    assert.equal(created.length, 1);
+    assert.equal(created[0]?.role, 'owner');
+    assert.equal(await countUsers(), 1);
+    assert.equal((await authenticateUser(created[0]!.username, 'first-password'))?.id, created[0]?.id);
+  });
+
+  it('creates nothing once a user exists', async () => {
+    assert.equal(await createFirstOwner('mallory', 'first-password'), null);
+    assert.equal(await countUsers(), 1);
+  });
+});